@@ -0,0 +1,11 @@
+import AlertUnavailable from "@/components/AlertUnavailable";
+
+export default function AlertNotFound() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <AlertUnavailable />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { notFound, redirect } from "next/navigation";
+import { getServerSupabaseClient, getServerUser } from "@/lib/supabaseServer";
+import { alertPath, getAlert, isAlertId, type AlertWithEvent } from "@/lib/alerts";
+import { withNext } from "@/lib/auth";
+import { isDemoMode } from "@/lib/demo";
+import AlertDetail from "@/components/AlertDetail";
+
+// The alert is loaded while rendering, with the signed-in user's row level
+// security, so alerts outside their households are a 404 like missing ones.
+export default async function AlertPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isAlertId(id)) notFound();
+
+  const user = await getServerUser();
+  if (!user) redirect(withNext("/login", alertPath(id)));
+  if (isDemoMode()) return <AlertDetail key={user.id} alertId={id} initialAlert={null} />;
+
+  const supabase = await getServerSupabaseClient();
+  let alert: AlertWithEvent | null;
+  try {
+    alert = await getAlert(supabase, id);
+  } catch {
+    // A failed load falls back to the client's own fetch and error handling
+    return <AlertDetail key={user.id} alertId={id} initialAlert={null} />;
+  }
+  if (!alert) notFound();
+
+  return <AlertDetail key={user.id} alertId={id} initialAlert={alert} />;
+}
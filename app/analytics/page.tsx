@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import { formatEventType } from "@/lib/alerts";
+import { listResidents, type Resident } from "@/lib/residents";
+import {
+  analyticsPeriods,
+  formatDuration,
+  loadAlertAnalytics,
+  nightHours,
+  nightIncidents,
+  overallMeanSeconds,
+  percentChange,
+  previousRange,
+  rangeForWeeks,
+  totalIncidents,
+  type AlertAnalytics,
+} from "@/lib/analytics";
+import { formatCalendarDate, formatWeekday } from "@/lib/time";
+
+const typeColors = ["bg-red-500", "bg-amber-500", "bg-sky-500", "bg-violet-500", "bg-emerald-500", "bg-slate-500"];
+// Monday first, matching the weekly chart; values are Postgres day-of-week numbers
+const heatmapDays = [1, 2, 3, 4, 5, 6, 0];
+const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Monday (UTC) of every week overlapping the range, as YYYY-MM-DD like the
+// week_start values returned by alert_weekly_counts
+function weeksInRange(start: Date, end: Date): string[] {
+  const monday = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  const weeks: string[] = [];
+  for (const day = monday; day < end; day.setUTCDate(day.getUTCDate() + 7)) {
+    weeks.push(day.toISOString().slice(0, 10));
+  }
+  return weeks;
+}
+
+function ChangeBadge({ change, lowerIsBetter = false }: { change: number | null; lowerIsBetter?: boolean }) {
+  const { t } = useTranslation();
+  if (change === null) return <span className="text-xs text-slate-500 dark:text-slate-400">{t("analytics.noEarlierData")}</span>;
+  const rounded = Math.round(change);
+  const improved = lowerIsBetter ? rounded < 0 : rounded > 0;
+  return (
+    <span
+      className={`text-xs font-medium ${
+        rounded === 0
+          ? "text-slate-500 dark:text-slate-400"
+          : improved
+            ? "text-green-700 dark:text-green-300"
+            : "text-red-700 dark:text-red-300"
+      }`}
+    >
+      {rounded > 0 ? "▲" : rounded < 0 ? "▼" : "■"} {t("analytics.change", { percent: Math.abs(rounded) })}
+    </span>
+  );
+}
+
+function SummaryCard({ label, value, children }: { label: string; value: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-1">
+      <p className="text-sm text-slate-600 dark:text-slate-400">{label}</p>
+      <p className="text-2xl font-bold text-slate-900 dark:text-white">{value}</p>
+      {children}
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const { user } = useAuth();
+  const { locale, t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [weeks, setWeeks] = useState<number>(analyticsPeriods[1].weeks);
+  const [residentId, setResidentId] = useState("");
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [current, setCurrent] = useState<AlertAnalytics | null>(null);
+  const [previous, setPrevious] = useState<AlertAnalytics | null>(null);
+  const [range, setRange] = useState(() => rangeForWeeks(weeks));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    listResidents(supabase)
+      .then(setResidents)
+      .catch(() => {});
+  }, [user, supabase]);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+    const currentRange = rangeForWeeks(weeks);
+    setError(null);
+    setLoading(true);
+    Promise.all([
+      loadAlertAnalytics(supabase, currentRange, residentId),
+      loadAlertAnalytics(supabase, previousRange(currentRange), residentId),
+    ])
+      .then(([loadedCurrent, loadedPrevious]) => {
+        if (!isMounted) return;
+        setRange(currentRange);
+        setCurrent(loadedCurrent);
+        setPrevious(loadedPrevious);
+      })
+      .catch((err: any) => {
+        if (isMounted) setError(err?.message ?? t("analytics.loadFailed"));
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [user, supabase, weeks, residentId]);
+
+  const eventTypes = current ? [...new Set(current.weekly.map(row => row.event_type))].sort() : [];
+  const colorByType = new Map(eventTypes.map((type, i) => [type, typeColors[i % typeColors.length]]));
+  const weekList = weeksInRange(range.start, range.end);
+  const countsByWeek = new Map<string, Record<string, number>>();
+  current?.weekly.forEach(row => {
+    const week = countsByWeek.get(row.week_start) ?? {};
+    week[row.event_type] = (week[row.event_type] ?? 0) + row.incidents;
+    countsByWeek.set(row.week_start, week);
+  });
+  const maxWeekTotal = Math.max(
+    1,
+    ...weekList.map(week => Object.values(countsByWeek.get(week) ?? {}).reduce((sum, n) => sum + n, 0))
+  );
+  const previousByType = new Map<string, number>();
+  previous?.weekly.forEach(row => previousByType.set(row.event_type, (previousByType.get(row.event_type) ?? 0) + row.incidents));
+
+  const heatmapCounts = new Map((current?.heatmap ?? []).map(cell => [`${cell.day_of_week}:${cell.hour}`, cell.incidents]));
+  const maxCell = Math.max(1, ...(current?.heatmap ?? []).map(cell => cell.incidents));
+  const previousMedianByActor = new Map((previous?.responseTimes ?? []).map(row => [row.actor_id, row.median_seconds]));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link href="/" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+            {t("common.backToDashboard")}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{t("analytics.title")}</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">{t("analytics.description")}</p>
+        </div>
+
+        {!user ? (
+          <p className="text-slate-600 dark:text-slate-400">
+            {t("common.please")}{" "}
+            <Link href="/login?next=/analytics" className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("analytics.loginPrompt")}
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={weeks}
+                onChange={e => setWeeks(Number(e.target.value))}
+                className="border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800"
+              >
+                {analyticsPeriods.map(period => (
+                  <option key={period.weeks} value={period.weeks}>
+                    {t(period.label)}
+                  </option>
+                ))}
+              </select>
+              {residents.length > 1 ? (
+                <select
+                  value={residentId}
+                  onChange={e => setResidentId(e.target.value)}
+                  className="border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800"
+                >
+                  <option value="">{t("analytics.allResidents")}</option>
+                  {residents.map(resident => (
+                    <option key={resident.id} value={resident.id}>
+                      {resident.name}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+            </div>
+
+            {error ? (
+              <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+              </div>
+            ) : null}
+
+            {!current || !previous ? (
+              <div className="grid gap-4 sm:grid-cols-3" aria-hidden>
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="h-24 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse"></div>
+                ))}
+              </div>
+            ) : (
+              <div className={`space-y-8 transition-opacity ${loading ? "opacity-60" : ""}`}>
+                <section className="grid gap-4 sm:grid-cols-3">
+                  <SummaryCard label={t("analytics.incidents")} value={String(totalIncidents(current))}>
+                    <ChangeBadge change={percentChange(totalIncidents(current), totalIncidents(previous))} lowerIsBetter />
+                  </SummaryCard>
+                  <SummaryCard
+                    label={t("analytics.atNight", { start: nightHours.start, end: nightHours.end })}
+                    value={String(nightIncidents(current))}
+                  >
+                    <ChangeBadge change={percentChange(nightIncidents(current), nightIncidents(previous))} lowerIsBetter />
+                  </SummaryCard>
+                  <SummaryCard label={t("analytics.averageTimeToClose")} value={formatDuration(overallMeanSeconds(current.responseTimes), locale)}>
+                    <ChangeBadge
+                      change={percentChange(overallMeanSeconds(current.responseTimes), overallMeanSeconds(previous.responseTimes))}
+                      lowerIsBetter
+                    />
+                  </SummaryCard>
+                </section>
+
+                <section className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-4">
+                  <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t("analytics.perWeek")}</h2>
+                  {eventTypes.length === 0 ? (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t("analytics.noIncidents")}</p>
+                  ) : (
+                    <>
+                      <div className="flex items-end gap-1 h-40" role="img" aria-label={t("analytics.perWeekLabel")}>
+                        {weekList.map(week => {
+                          const counts = countsByWeek.get(week) ?? {};
+                          const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+                          return (
+                            <div
+                              key={week}
+                              className="flex-1 flex flex-col-reverse h-full"
+                              title={t("analytics.weekOf", { date: formatCalendarDate(week, locale), count: total })}
+                            >
+                              {eventTypes.map(type =>
+                                counts[type] ? (
+                                  <div
+                                    key={type}
+                                    className={`${colorByType.get(type)} w-full first:rounded-b-sm last:rounded-t-sm`}
+                                    style={{ height: `${(counts[type] / maxWeekTotal) * 100}%` }}
+                                  ></div>
+                                ) : null
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                        <span>{formatCalendarDate(weekList[0], locale)}</span>
+                        <span>{formatCalendarDate(weekList[weekList.length - 1], locale)}</span>
+                      </div>
+                      <ul className="flex flex-wrap gap-4">
+                        {eventTypes.map(type => {
+                          const count = current.weekly
+                            .filter(row => row.event_type === type)
+                            .reduce((sum, row) => sum + row.incidents, 0);
+                          return (
+                            <li key={type} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                              <span className={`h-3 w-3 rounded-sm ${colorByType.get(type)}`}></span>
+                              {formatEventType(type, locale)}: {count}
+                              <span className="text-xs text-slate-500 dark:text-slate-400">
+                                {t("analytics.previously", { count: previousByType.get(type) ?? 0 })}
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </>
+                  )}
+                </section>
+
+                <section className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-4">
+                  <div>
+                    <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t("analytics.whenTitle")}</h2>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t("analytics.whenNote")}</p>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="border-separate border-spacing-0.5">
+                      <thead>
+                        <tr>
+                          <th></th>
+                          {hours.map(hour => (
+                            <th key={hour} className="text-[10px] font-normal text-slate-500 dark:text-slate-400 w-5">
+                              {hour % 3 === 0 ? hour : ""}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {heatmapDays.map(dow => (
+                          <tr key={dow}>
+                            <th className="pr-2 text-xs font-medium text-slate-600 dark:text-slate-400 text-left">
+                              {formatWeekday(dow, locale)}
+                            </th>
+                            {hours.map(hour => {
+                              const count = heatmapCounts.get(`${dow}:${hour}`) ?? 0;
+                              return (
+                                <td
+                                  key={hour}
+                                  title={t("analytics.heatmapCell", { day: formatWeekday(dow, locale), hour, count })}
+                                  className={`h-5 w-5 rounded-sm ${count ? "bg-red-500" : "bg-slate-100 dark:bg-slate-700"}`}
+                                  style={count ? { opacity: 0.2 + 0.8 * (count / maxCell) } : undefined}
+                                ></td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+
+                <section className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-4">
+                  <div>
+                    <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t("analytics.byCaregiver")}</h2>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t("analytics.byCaregiverNote")}</p>
+                  </div>
+                  {current.responseTimes.length === 0 ? (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t("analytics.noneClosed")}</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-slate-500 dark:text-slate-400">
+                          <th className="font-medium py-2">{t("analytics.caregiver")}</th>
+                          <th className="font-medium py-2 text-right">{t("analytics.closed")}</th>
+                          <th className="font-medium py-2 text-right">{t("analytics.mean")}</th>
+                          <th className="font-medium py-2 text-right">{t("analytics.median")}</th>
+                          <th className="font-medium py-2 text-right hidden sm:table-cell">{t("analytics.medianChange")}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                        {current.responseTimes.map(row => (
+                          <tr key={row.actor_id ?? "unknown"} className="text-slate-700 dark:text-slate-300">
+                            <td className="py-2">{row.actor_id === user.id ? t("actor.you") : (row.display_name ?? row.email ?? t("analytics.formerMember"))}</td>
+                            <td className="py-2 text-right">{row.closed}</td>
+                            <td className="py-2 text-right">{formatDuration(row.mean_seconds, locale)}</td>
+                            <td className="py-2 text-right">{formatDuration(row.median_seconds, locale)}</td>
+                            <td className="py-2 text-right hidden sm:table-cell">
+                              <ChangeBadge
+                                change={percentChange(row.median_seconds, previousMedianByActor.get(row.actor_id) ?? null)}
+                                lowerIsBetter
+                              />
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth, useTranslation } from '@/app/providers';
+import { safeNextPath, verifyEmailLink } from '@/lib/auth';
+import { getBrowserSupabaseClient } from '@/lib/supabaseClient';
+
+// How long to wait for the client to exchange the link for a session before
+// treating it as expired or already used
+const sessionTimeoutMs = 10_000;
+
+export default function AuthCallbackPage() {
+  return (
+    <Suspense>
+      <AuthCallback />
+    </Suspense>
+  );
+}
+
+function linkError(searchParams: URLSearchParams): string | null {
+  // Supabase reports failures in the hash for implicit links and in the query otherwise
+  const hashParams = new URLSearchParams(window.location.hash.slice(1));
+  return hashParams.get('error_description') ?? searchParams.get('error_description');
+}
+
+function AuthCallback() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+  const [error, setError] = useState<string | null>(null);
+  // Someone already signed in waits until the link has signed them in as the
+  // account it was sent to
+  const [verifying, setVerifying] = useState(() => searchParams.has('token_hash'));
+  // A token hash can only be used once, so it isn't verified again on re-render
+  const verifiedTokenRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const description = linkError(searchParams);
+    if (description) setError(description);
+  }, [searchParams]);
+
+  useEffect(() => {
+    const tokenHash = searchParams.get('token_hash');
+    if (!tokenHash || verifiedTokenRef.current === tokenHash) return;
+    verifiedTokenRef.current = tokenHash;
+    verifyEmailLink(supabase, tokenHash, searchParams.get('type'))
+      .then(valid => (valid ? setVerifying(false) : setError(t('auth.linkInvalid'))))
+      .catch((err: any) => setError(err?.message ?? t('auth.linkInvalid')));
+  }, [searchParams, supabase]);
+
+  useEffect(() => {
+    if (user && !verifying) {
+      router.replace(nextPath);
+    }
+  }, [user, verifying, router, nextPath]);
+
+  useEffect(() => {
+    if (user || error) return;
+    const timer = window.setTimeout(() => {
+      setError(t('auth.linkInvalid'));
+    }, sessionTimeoutMs);
+    return () => window.clearTimeout(timer);
+  }, [user, error]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4">
+        {error ? (
+          <>
+            <h1 className="text-2xl font-semibold">{t('callback.failed')}</h1>
+            <p className="text-red-600 text-sm">{error}</p>
+            <div className="flex gap-4 text-sm">
+              <Link href="/login" className="underline">
+                {t('auth.backToLogin')}
+              </Link>
+              <Link href="/forgot-password" className="underline">
+                {t('callback.resetPassword')}
+              </Link>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-slate-600">{t('callback.signingIn')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
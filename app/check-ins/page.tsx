@@ -0,0 +1,390 @@
+"use client";
+
+import { FormEvent, Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import { canRespond, listMemberships, type HouseholdRole } from "@/lib/households";
+import { listResidents, type Resident } from "@/lib/residents";
+import {
+  checkInKindLabel,
+  createCheckInSchedule,
+  deleteCheckInSchedule,
+  describeCheckInRun,
+  everyDay,
+  formatDays,
+  formatTimeOfDay,
+  listCheckInRuns,
+  listCheckInSchedules,
+  updateCheckInSchedule,
+  type CheckInKind,
+  type CheckInRun,
+  type CheckInSchedule,
+} from "@/lib/checkIns";
+import { maxSpokenMessageLength } from "@/lib/commands";
+import { alertPath } from "@/lib/alerts";
+import type { MessageKey } from "@/lib/i18n";
+import { formatInTimeZone, formatWeekday } from "@/lib/time";
+
+// What Bobo says unless the caregiver writes something else
+const defaultMessageKeys: Record<CheckInKind, MessageKey> = {
+  check_in: "checkIns.defaultCheckIn",
+  reminder: "checkIns.defaultReminder",
+};
+
+export default function CheckInsPage() {
+  return (
+    <Suspense>
+      <CheckIns />
+    </Suspense>
+  );
+}
+
+function CheckIns() {
+  const { user } = useAuth();
+  const { locale, t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [roleByHouseholdId, setRoleByHouseholdId] = useState<Record<string, HouseholdRole>>({});
+  const [schedules, setSchedules] = useState<CheckInSchedule[]>([]);
+  const [runs, setRuns] = useState<CheckInRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [kind, setKind] = useState<CheckInKind>("check_in");
+  const [message, setMessage] = useState(() => t(defaultMessageKeys.check_in));
+  const [timeOfDay, setTimeOfDay] = useState("10:00");
+  const [days, setDays] = useState<number[]>(everyDay);
+  const [alertIfMissed, setAlertIfMissed] = useState(true);
+
+  const residentId = searchParams.get("resident") ?? residents[0]?.id ?? null;
+  const resident = residents.find(r => r.id === residentId) ?? null;
+  const canManage = !!resident && canRespond(roleByHouseholdId[resident.household_id]);
+
+  useEffect(() => {
+    if (!user) return;
+    Promise.all([listResidents(supabase), listMemberships(supabase, user.id)])
+      .then(([loadedResidents, memberships]) => {
+        setResidents(loadedResidents);
+        setRoleByHouseholdId(Object.fromEntries(memberships.map(m => [m.household.id, m.role])));
+      })
+      .catch((err: any) => setError(err?.message ?? t("checkIns.loadResidentsFailed")));
+  }, [user, supabase]);
+
+  useEffect(() => {
+    if (!residentId) return;
+    let isMounted = true;
+    setError(null);
+    setLoading(true);
+    Promise.all([listCheckInSchedules(supabase, residentId), listCheckInRuns(supabase, residentId)])
+      .then(([loadedSchedules, loadedRuns]) => {
+        if (!isMounted) return;
+        setSchedules(loadedSchedules);
+        setRuns(loadedRuns);
+      })
+      .catch((err: any) => {
+        if (isMounted) setError(err?.message ?? t("checkIns.loadFailed"));
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    // Runs are created by the scheduler and answered by the robot
+    const runsFilter = { schema: "public", table: "check_in_runs", filter: `resident_id=eq.${residentId}` };
+    const applyRun = (run: CheckInRun) =>
+      setRuns(prev =>
+        prev.some(r => r.id === run.id) ? prev.map(r => (r.id === run.id ? run : r)) : [run, ...prev]
+      );
+    const channel = supabase
+      .channel(`check_in_runs:${residentId}`)
+      .on("postgres_changes", { event: "INSERT", ...runsFilter }, payload => applyRun(payload.new as CheckInRun))
+      .on("postgres_changes", { event: "UPDATE", ...runsFilter }, payload => applyRun(payload.new as CheckInRun))
+      .subscribe();
+
+    return () => {
+      isMounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [residentId, supabase]);
+
+  function selectResident(id: string) {
+    router.replace(`${pathname}?resident=${id}`, { scroll: false });
+  }
+
+  function selectKind(next: CheckInKind) {
+    if (message === t(defaultMessageKeys[kind])) setMessage(t(defaultMessageKeys[next]));
+    setKind(next);
+    // Reminders only need saying, so they don't raise alerts unless asked to
+    setAlertIfMissed(next === "check_in");
+  }
+
+  function toggleDay(day: number) {
+    setDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()));
+  }
+
+  async function onCreate(e: FormEvent) {
+    e.preventDefault();
+    if (!residentId) return;
+    if (days.length === 0) {
+      setError(t("checkIns.chooseDay"));
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      const created = await createCheckInSchedule(supabase, {
+        resident_id: residentId,
+        kind,
+        message: message.trim(),
+        time_of_day: timeOfDay,
+        days,
+        alert_if_missed: alertIfMissed,
+      });
+      setSchedules(prev => [...prev, created].sort((a, b) => a.time_of_day.localeCompare(b.time_of_day)));
+      setMessage(t(defaultMessageKeys[kind]));
+    } catch (err: any) {
+      setError(err?.message ?? t("checkIns.addFailed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onToggleEnabled(schedule: CheckInSchedule) {
+    setError(null);
+    setBusyId(schedule.id);
+    try {
+      const updated = await updateCheckInSchedule(supabase, schedule.id, { enabled: !schedule.enabled });
+      setSchedules(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err: any) {
+      setError(err?.message ?? t("checkIns.updateFailed"));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function onDelete(schedule: CheckInSchedule) {
+    const confirmKey = schedule.kind === "reminder" ? "checkIns.confirmDeleteReminder" : "checkIns.confirmDeleteCheckIn";
+    if (!confirm(t(confirmKey, { time: formatTimeOfDay(schedule.time_of_day, locale) }))) return;
+    setError(null);
+    setBusyId(schedule.id);
+    try {
+      await deleteCheckInSchedule(supabase, schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    } catch (err: any) {
+      setError(err?.message ?? t("checkIns.deleteFailed"));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link href="/" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+            {t("common.backToDashboard")}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{t("checkIns.title")}</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {resident ? t("checkIns.descriptionWithZone", { timeZone: resident.time_zone }) : t("checkIns.description")}
+          </p>
+        </div>
+
+        {!user ? (
+          <p className="text-slate-600 dark:text-slate-400">
+            {t("common.please")}{" "}
+            <Link href="/login?next=/check-ins" className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("checkIns.loginPrompt")}
+          </p>
+        ) : (
+          <>
+            {residents.length > 1 ? (
+              <select
+                value={residentId ?? ""}
+                onChange={e => selectResident(e.target.value)}
+                className="w-full sm:w-auto border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800"
+              >
+                {residents.map(r => (
+                  <option key={r.id} value={r.id}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+
+            {error ? (
+              <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+              </div>
+            ) : null}
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("checkIns.schedule")}</h2>
+              {loading ? (
+                <div className="h-16 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+              ) : schedules.length === 0 ? (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("checkIns.noSchedules")}</p>
+              ) : (
+                <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                  {schedules.map(schedule => (
+                    <li key={schedule.id} className="flex flex-wrap items-center justify-between gap-3 p-4">
+                      <div className={`min-w-0 ${schedule.enabled ? "" : "opacity-60"}`}>
+                        <p className="font-medium text-slate-900 dark:text-white">
+                          {formatTimeOfDay(schedule.time_of_day, locale)} · {formatDays(schedule.days, locale)}
+                        </p>
+                        <p className="text-sm text-slate-600 dark:text-slate-400">
+                          {t("checkIns.kindMessage", { kind: checkInKindLabel(schedule.kind, locale), message: schedule.message })}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {schedule.enabled && schedule.next_run_at
+                            ? t("checkIns.next", {
+                                time: formatInTimeZone(schedule.next_run_at, { locale, timeZone: resident?.time_zone }),
+                              })
+                            : t("checkIns.paused")}
+                          {schedule.alert_if_missed ? ` · ${t("checkIns.alertsIfMissed")}` : ""}
+                        </p>
+                      </div>
+                      {canManage ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => onToggleEnabled(schedule)}
+                            disabled={busyId === schedule.id}
+                            className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                          >
+                            {schedule.enabled ? t("checkIns.pause") : t("checkIns.resume")}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onDelete(schedule)}
+                            disabled={busyId === schedule.id}
+                            className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                          >
+                            {t("checkIns.delete")}
+                          </button>
+                        </div>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canManage ? (
+                <form
+                  onSubmit={onCreate}
+                  className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-3"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={kind}
+                      onChange={e => selectKind(e.target.value as CheckInKind)}
+                      className="border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm bg-white dark:bg-slate-800"
+                    >
+                      <option value="check_in">{checkInKindLabel("check_in", locale)}</option>
+                      <option value="reminder">{checkInKindLabel("reminder", locale)}</option>
+                    </select>
+                    <span className="text-sm text-slate-600 dark:text-slate-400">{t("checkIns.at")}</span>
+                    <input
+                      type="time"
+                      value={timeOfDay}
+                      onChange={e => setTimeOfDay(e.target.value)}
+                      required
+                      className="border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm bg-white dark:bg-slate-800"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {everyDay.map(day => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleDay(day)}
+                        aria-pressed={days.includes(day)}
+                        className={`px-2.5 py-1 rounded-lg border text-sm font-medium ${
+                          days.includes(day)
+                            ? "border-slate-900 dark:border-white bg-slate-900 dark:bg-white text-white dark:text-slate-900"
+                            : "border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300"
+                        }`}
+                      >
+                        {formatWeekday(day, locale)}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    value={message}
+                    onChange={e => setMessage(e.target.value)}
+                    maxLength={maxSpokenMessageLength}
+                    placeholder={t("checkIns.messagePlaceholder")}
+                    required
+                    className="w-full border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-800"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input type="checkbox" checked={alertIfMissed} onChange={e => setAlertIfMissed(e.target.checked)} />
+                    {t("checkIns.alertIfMissed")}
+                  </label>
+                  <button
+                    type="submit"
+                    disabled={saving || !message.trim()}
+                    className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium disabled:opacity-50"
+                  >
+                    {saving ? t("checkIns.adding") : t("checkIns.add")}
+                  </button>
+                </form>
+              ) : resident ? (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("checkIns.viewerNote")}</p>
+              ) : null}
+            </section>
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("checkIns.recentRuns")}</h2>
+              {runs.length === 0 ? (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("checkIns.noRuns")}</p>
+              ) : (
+                <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                  {runs.map(run => (
+                    <li key={run.id} className="flex items-start justify-between gap-3 p-4">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-900 dark:text-white">
+                          {formatInTimeZone(run.scheduled_for, { locale, timeZone: resident?.time_zone })} ·{" "}
+                          {checkInKindLabel(run.kind, locale)}
+                        </p>
+                        <p className="text-sm text-slate-600 dark:text-slate-400 truncate">“{run.message}”</p>
+                        {run.transcript ? (
+                          <p className="text-sm text-slate-700 dark:text-slate-300">{t("checkIns.theySaid", { transcript: run.transcript })}</p>
+                        ) : null}
+                        {run.alert_id ? (
+                          <Link href={alertPath(run.alert_id)} className="text-xs underline text-slate-600 dark:text-slate-400">
+                            {t("checkIns.viewAlert")}
+                          </Link>
+                        ) : null}
+                      </div>
+                      <span
+                        className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${
+                          run.status === "missed" || run.response === "needs_help"
+                            ? "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                            : run.status === "responded"
+                              ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
+                              : "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+                        }`}
+                      >
+                        {describeCheckInRun(run, locale)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
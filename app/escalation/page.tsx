@@ -0,0 +1,286 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import { listMembers, listMemberships, type HouseholdMember, type Membership } from "@/lib/households";
+import { listEscalationSteps, saveEscalationSteps, type EscalationStepInput } from "@/lib/escalations";
+
+const contactTarget = "contact";
+
+type DraftStep = {
+  key: string;
+  delayMinutes: string;
+  target: string;
+  contactName: string;
+  contactEmail: string;
+  contactPhone: string;
+};
+
+function newDraft(delayMinutes: number, target: string): DraftStep {
+  return {
+    key: crypto.randomUUID(),
+    delayMinutes: String(delayMinutes),
+    target,
+    contactName: "",
+    contactEmail: "",
+    contactPhone: "",
+  };
+}
+
+function toInput(draft: DraftStep): EscalationStepInput {
+  const isContact = draft.target === contactTarget;
+  return {
+    delay_minutes: Number(draft.delayMinutes),
+    user_id: isContact ? null : draft.target,
+    contact_name: isContact ? draft.contactName : null,
+    contact_email: isContact ? draft.contactEmail : null,
+    contact_phone: isContact ? draft.contactPhone : null,
+  };
+}
+
+export default function EscalationPage() {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [householdId, setHouseholdId] = useState<string | null>(null);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [drafts, setDrafts] = useState<DraftStep[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isOwner = memberships.find(m => m.household.id === householdId)?.role === "owner";
+
+  useEffect(() => {
+    if (!user) return;
+    listMemberships(supabase, user.id)
+      .then(loaded => {
+        setMemberships(loaded);
+        setHouseholdId(prev => prev ?? loaded[0]?.household.id ?? null);
+      })
+      .catch((err: any) => setError(err?.message ?? t("members.loadHouseholdsFailed")));
+  }, [user, supabase]);
+
+  useEffect(() => {
+    if (!householdId) return;
+    let isMounted = true;
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    Promise.all([listMembers(supabase, householdId), listEscalationSteps(supabase, householdId)])
+      .then(([loadedMembers, steps]) => {
+        if (!isMounted) return;
+        setMembers(loadedMembers);
+        setDrafts(
+          steps.map(step => ({
+            key: step.id,
+            delayMinutes: String(step.delay_minutes),
+            target: step.user_id ?? contactTarget,
+            contactName: step.contact_name ?? "",
+            contactEmail: step.contact_email ?? "",
+            contactPhone: step.contact_phone ?? "",
+          }))
+        );
+      })
+      .catch((err: any) => {
+        if (isMounted) setError(err?.message ?? t("escalationPage.loadFailed"));
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [householdId, supabase]);
+
+  function updateDraft(key: string, changes: Partial<DraftStep>) {
+    setDrafts(prev => prev.map(d => (d.key === key ? { ...d, ...changes } : d)));
+    setNotice(null);
+  }
+
+  function addStep() {
+    const lastDelay = drafts.length > 0 ? Number(drafts[drafts.length - 1].delayMinutes) || 0 : 0;
+    const firstUnused = members.find(m => !drafts.some(d => d.target === m.user_id));
+    setDrafts(prev => [
+      ...prev,
+      newDraft(prev.length === 0 ? 0 : lastDelay + 5, firstUnused?.user_id ?? contactTarget),
+    ]);
+    setNotice(null);
+  }
+
+  function removeStep(key: string) {
+    setDrafts(prev => prev.filter(d => d.key !== key));
+    setNotice(null);
+  }
+
+  async function onSave() {
+    if (!householdId) return;
+    setError(null);
+    setNotice(null);
+    setSaving(true);
+    try {
+      await saveEscalationSteps(supabase, householdId, drafts.map(toInput));
+      setNotice(drafts.length > 0 ? t("escalationPage.saved") : t("escalationPage.turnedOff"));
+    } catch (err: any) {
+      setError(err?.message ?? t("escalationPage.saveFailed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link href="/members" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+            {t("escalationPage.back")}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{t("escalationPage.title")}</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">{t("escalationPage.description")}</p>
+        </div>
+
+        {!user ? (
+          <p className="text-slate-600 dark:text-slate-400">
+            {t("common.please")}{" "}
+            <Link href="/login?next=/escalation" className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("escalationPage.loginPrompt")}
+          </p>
+        ) : (
+          <>
+            {memberships.length > 1 ? (
+              <select
+                value={householdId ?? ""}
+                onChange={e => setHouseholdId(e.target.value)}
+                className="w-full sm:w-auto border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800"
+              >
+                {memberships.map(m => (
+                  <option key={m.household.id} value={m.household.id}>
+                    {m.household.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+
+            {error ? (
+              <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+              </div>
+            ) : null}
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("escalationPage.steps")}</h2>
+              {loading ? (
+                <div className="h-16 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+              ) : drafts.length === 0 ? (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("escalationPage.none")}</p>
+              ) : (
+                <ol className="space-y-3">
+                  {drafts.map((draft, index) => (
+                    <li
+                      key={draft.key}
+                      className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-3"
+                    >
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-semibold text-slate-900 dark:text-white">{t("escalationPage.step", { number: index + 1 })}</span>
+                        <span className="text-sm text-slate-600 dark:text-slate-400">{t("escalationPage.after")}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={draft.delayMinutes}
+                          onChange={e => updateDraft(draft.key, { delayMinutes: e.target.value })}
+                          disabled={!isOwner}
+                          className="w-20 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm bg-white dark:bg-slate-800"
+                        />
+                        <span className="text-sm text-slate-600 dark:text-slate-400">{t("escalationPage.minutesNotify")}</span>
+                        <select
+                          value={draft.target}
+                          onChange={e => updateDraft(draft.key, { target: e.target.value })}
+                          disabled={!isOwner}
+                          className="border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm bg-white dark:bg-slate-800"
+                        >
+                          {members.map(member => (
+                            <option key={member.user_id} value={member.user_id}>
+                              {member.profile?.display_name ?? member.profile?.email ?? t("members.unknown")}
+                            </option>
+                          ))}
+                          <option value={contactTarget}>{t("escalationPage.emergencyContact")}</option>
+                        </select>
+                        {isOwner ? (
+                          <button
+                            type="button"
+                            onClick={() => removeStep(draft.key)}
+                            className="ml-auto px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+                          >
+                            {t("escalationPage.remove")}
+                          </button>
+                        ) : null}
+                      </div>
+                      {draft.target === contactTarget ? (
+                        <div className="grid gap-2 sm:grid-cols-3">
+                          <input
+                            placeholder={t("escalationPage.contactName")}
+                            value={draft.contactName}
+                            onChange={e => updateDraft(draft.key, { contactName: e.target.value })}
+                            disabled={!isOwner}
+                            className="border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-800"
+                          />
+                          <input
+                            type="email"
+                            placeholder={t("escalationPage.contactEmail")}
+                            value={draft.contactEmail}
+                            onChange={e => updateDraft(draft.key, { contactEmail: e.target.value })}
+                            disabled={!isOwner}
+                            className="border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-800"
+                          />
+                          <input
+                            type="tel"
+                            placeholder={t("escalationPage.contactPhone")}
+                            value={draft.contactPhone}
+                            onChange={e => updateDraft(draft.key, { contactPhone: e.target.value })}
+                            disabled={!isOwner}
+                            className="border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-800"
+                          />
+                        </div>
+                      ) : null}
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              {isOwner ? (
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={addStep}
+                    disabled={loading}
+                    className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                  >
+                    {t("escalationPage.addStep")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={onSave}
+                    disabled={saving || loading || !householdId}
+                    className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium disabled:opacity-50"
+                  >
+                    {saving ? t("common.saving") : t("escalationPage.save")}
+                  </button>
+                  {notice ? <p className="text-sm text-green-700 dark:text-green-300">{notice}</p> : null}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("escalationPage.ownersOnly")}</p>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
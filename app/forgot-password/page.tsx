@@ -0,0 +1,79 @@
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { getBrowserSupabaseClient } from '@/lib/supabaseClient';
+import { useTranslation } from '@/app/providers';
+import { authCallbackUrl, safeNextPath, withNext } from '@/lib/auth';
+
+export default function ForgotPasswordPage() {
+  return (
+    <Suspense>
+      <ForgotPasswordForm />
+    </Suspense>
+  );
+}
+
+function ForgotPasswordForm() {
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+  const supabase = getBrowserSupabaseClient();
+  const { t } = useTranslation();
+
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const { error: resetError } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: authCallbackUrl(withNext('/reset-password', nextPath)),
+      });
+      if (resetError) throw resetError;
+      setSent(true);
+    } catch (err: any) {
+      setError(err?.message ?? t('forgotPassword.failed'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4">
+        <h1 className="text-2xl font-semibold">{t('forgotPassword.title')}</h1>
+        {sent ? (
+          <p className="text-sm text-slate-600">{t('forgotPassword.sent', { email })}</p>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            <p className="text-sm text-slate-600">{t('forgotPassword.description')}</p>
+            <input
+              type="email"
+              placeholder={t('auth.email')}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full border rounded px-3 py-2"
+              required
+            />
+            {error ? <p className="text-red-600 text-sm">{error}</p> : null}
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-3 py-2 rounded bg-black text-white disabled:opacity-50"
+            >
+              {loading ? t('forgotPassword.sending') : t('forgotPassword.submit')}
+            </button>
+          </form>
+        )}
+        <Link href={withNext('/login', nextPath)} className="text-sm underline">
+          {t('auth.backToLogin')}
+        </Link>
+      </div>
+    </div>
+  );
+}
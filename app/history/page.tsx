@@ -0,0 +1,424 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import {
+  alertOutcomeLabel,
+  alertOutcomes,
+  formatEventType,
+  historyFiltersFromParams,
+  historyFiltersToParams,
+  listAlertEventTypes,
+  searchAlertHistory,
+  type AlertHistoryCursor,
+  type AlertHistoryFilters,
+  type AlertOutcome,
+  type AlertWithEvent,
+} from "@/lib/alerts";
+import {
+  needsRefresh,
+  signedUrlRefreshMarginMs,
+  signEventMedia,
+  signThumbnails,
+  thumbnailNeedsSigning,
+  type EventMediaState,
+  type MediaThumbnail,
+} from "@/lib/media";
+import { listResidents, type Resident } from "@/lib/residents";
+import { alertsToCsv, downloadFile, loadReportAlerts, reportFileName } from "@/lib/reports";
+import PastAlertRow from "@/components/PastAlertRow";
+
+const pageSize = 25;
+const searchDebounce = 300;
+
+export default function HistoryPage() {
+  return (
+    <Suspense>
+      <AlertHistory />
+    </Suspense>
+  );
+}
+
+function AlertHistory() {
+  const { user } = useAuth();
+  const { locale, t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filterKey = searchParams.toString();
+  const filters = historyFiltersFromParams(new URLSearchParams(filterKey));
+  const hasFilters = filterKey.length > 0;
+
+  const [alerts, setAlerts] = useState<AlertWithEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<AlertHistoryCursor | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [queryDraft, setQueryDraft] = useState(filters.query);
+  const [expandedById, setExpandedById] = useState<Record<string, boolean>>({});
+  const [eventMediaById, setEventMediaById] = useState<Record<string, EventMediaState>>({});
+  const [thumbnailByEventId, setThumbnailByEventId] = useState<Record<string, MediaThumbnail>>({});
+  const [exporting, setExporting] = useState(false);
+
+  // Responses for an older filter set are dropped when they arrive late
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // The last query this page put in the URL itself
+  const sentQueryRef = useRef(filters.query);
+
+  function setFilters(changes: Partial<AlertHistoryFilters>) {
+    const query = historyFiltersToParams({ ...filters, ...changes }).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }
+
+  useEffect(() => {
+    if (!user) return;
+    listResidents(supabase)
+      .then(setResidents)
+      .catch(() => {});
+    listAlertEventTypes(supabase)
+      .then(setEventTypes)
+      .catch(() => {});
+  }, [user, supabase]);
+
+  useEffect(() => {
+    if (!user) return;
+    const requestId = ++requestIdRef.current;
+    setError(null);
+    setLoading(true);
+    setExpandedById({});
+    searchAlertHistory(supabase, filters, { limit: pageSize })
+      .then(page => {
+        if (requestId !== requestIdRef.current) return;
+        setAlerts(page.alerts);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err: any) => {
+        if (requestId === requestIdRef.current) setError(err?.message ?? t("history.loadFailed"));
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [user, supabase, filterKey]);
+
+  // Restarts when any other filter changes too, so the search is applied on
+  // top of the filters in the URL when it fires rather than the ones at typing time
+  useEffect(() => {
+    if (queryDraft === filters.query) return;
+    const timeoutId = setTimeout(() => {
+      sentQueryRef.current = queryDraft;
+      setFilters({ query: queryDraft });
+    }, searchDebounce);
+    return () => clearTimeout(timeoutId);
+  }, [queryDraft, filterKey]);
+
+  // Back/forward and "Clear filters" change the query without going through
+  // the search box, which then has to follow the URL
+  useEffect(() => {
+    if (filters.query !== sentQueryRef.current) setQueryDraft(filters.query);
+    sentQueryRef.current = filters.query;
+  }, [filters.query]);
+
+  async function loadMore() {
+    if (!nextCursor || loadingMore || loading) return;
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await searchAlertHistory(supabase, filters, { cursor: nextCursor, limit: pageSize });
+      if (requestId !== requestIdRef.current) return;
+      setAlerts(prev => [...prev, ...page.alerts.filter(a => !prev.some(existing => existing.id === a.id))]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      if (requestId === requestIdRef.current) setError(err?.message ?? t("history.loadMoreFailed"));
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loading, loadingMore]);
+
+  // When each event's thumbnail expires: Infinity while it is being signed or
+  // when the event has nothing to show, and forgotten after a failed request
+  // so it is tried again on the next change
+  const thumbnailExpiryByEventIdRef = useRef<Map<string, number>>(new Map());
+  const [thumbnailCheckAt, setThumbnailCheckAt] = useState(0);
+
+  // Each newly loaded page signs its poster frames in one request
+  useEffect(() => {
+    const expiries = thumbnailExpiryByEventIdRef.current;
+    const events = alerts.flatMap(a =>
+      a.event && a.event.media.length > 0 && thumbnailNeedsSigning(expiries.get(String(a.event.id))) ? [a.event] : []
+    );
+    if (events.length === 0) return;
+
+    events.forEach(event => expiries.set(String(event.id), Infinity));
+    signThumbnails(supabase, events)
+      .then(thumbnails => {
+        events.forEach(event => expiries.set(String(event.id), thumbnails[String(event.id)]?.expiresAt ?? Infinity));
+        setThumbnailByEventId(prev => ({ ...prev, ...thumbnails }));
+      })
+      .catch(() => {
+        // Rows fall back to the event icon alone; try again on the next change
+        events.forEach(event => expiries.delete(String(event.id)));
+      });
+  }, [alerts, thumbnailCheckAt, supabase]);
+
+  // Re-sign thumbnails shortly before they expire, and when the tab becomes
+  // visible since timers are throttled in background tabs
+  useEffect(() => {
+    const expiries = alerts.flatMap(a => thumbnailByEventId[String(a.trigger_event)]?.expiresAt ?? []);
+    if (expiries.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...expiries) - signedUrlRefreshMarginMs - Date.now());
+    const timeoutId = setTimeout(() => setThumbnailCheckAt(Date.now()), delay);
+    function onVisibilityChange() {
+      if (document.visibilityState === "visible") setThumbnailCheckAt(Date.now());
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      clearTimeout(timeoutId);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [alerts, thumbnailByEventId]);
+
+  function toggleExpanded(alert: AlertWithEvent) {
+    const expanding = !expandedById[alert.id];
+    setExpandedById(prev => ({ ...prev, [alert.id]: expanding }));
+    if (!expanding || !alert.event) return;
+
+    // Footage is signed on demand; reopening a row re-signs expired URLs
+    const key = String(alert.event.id);
+    const cached = eventMediaById[key];
+    if (cached && !needsRefresh(cached)) return;
+    signEventMedia(supabase, alert.event.media)
+      .then(result => setEventMediaById(prev => ({ ...prev, [key]: result })))
+      .catch((err: any) =>
+        setEventMediaById(prev => ({
+          ...prev,
+          [key]: { status: "error", message: err?.message ?? t("dashboard.loadMediaFailed") },
+        }))
+      );
+  }
+
+  const residentById = new Map(residents.map(r => [r.id, r]));
+
+  // Exports cover every alert matching the current filters, not just the loaded pages
+  async function exportCsv() {
+    setError(null);
+    setExporting(true);
+    try {
+      const { alerts: rows } = await loadReportAlerts(supabase, filters);
+      const residentName = filters.residentId ? residentById.get(filters.residentId)?.name ?? null : null;
+      downloadFile(
+        reportFileName(filters, residentName, "csv"),
+        alertsToCsv(rows, new Map(residents.map(r => [r.id, r.name]))),
+        "text/csv;charset=utf-8"
+      );
+    } catch (err: any) {
+      setError(err?.message ?? t("history.exportFailed"));
+    } finally {
+      setExporting(false);
+    }
+  }
+  const inputClassName =
+    "w-full border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-800";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <Link href="/" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+            {t("common.backToDashboard")}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{t("history.title")}</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {t("history.description")}
+          </p>
+        </div>
+
+        {!user ? (
+          <p className="text-slate-600 dark:text-slate-400">
+            {t("common.please")}{" "}
+            <Link href="/login?next=/history" className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("history.loginPrompt")}
+          </p>
+        ) : (
+          <>
+            <section className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-3">
+              <input
+                type="search"
+                placeholder={t("history.search")}
+                value={queryDraft}
+                onChange={e => setQueryDraft(e.target.value)}
+                className={inputClassName}
+              />
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                <label className="block">
+                  <span className="text-xs font-medium text-slate-600 dark:text-slate-400">{t("history.eventType")}</span>
+                  <select
+                    value={filters.eventType}
+                    onChange={e => setFilters({ eventType: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">{t("history.allTypes")}</option>
+                    {eventTypes.map(type => (
+                      <option key={type} value={type}>
+                        {formatEventType(type, locale)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-xs font-medium text-slate-600 dark:text-slate-400">{t("history.resident")}</span>
+                  <select
+                    value={filters.residentId}
+                    onChange={e => setFilters({ residentId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">{t("residents.all")}</option>
+                    {residents.map(resident => (
+                      <option key={resident.id} value={resident.id}>
+                        {resident.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-xs font-medium text-slate-600 dark:text-slate-400">{t("history.outcome")}</span>
+                  <select
+                    value={filters.outcome}
+                    onChange={e => setFilters({ outcome: e.target.value as AlertOutcome | "" })}
+                    className={inputClassName}
+                  >
+                    <option value="">{t("dashboard.allOutcomes")}</option>
+                    {alertOutcomes.map(outcome => (
+                      <option key={outcome} value={outcome}>
+                        {alertOutcomeLabel(outcome, locale)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-xs font-medium text-slate-600 dark:text-slate-400">{t("history.from")}</span>
+                  <input
+                    type="date"
+                    value={filters.from}
+                    max={filters.to || undefined}
+                    onChange={e => setFilters({ from: e.target.value })}
+                    className={inputClassName}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs font-medium text-slate-600 dark:text-slate-400">{t("history.to")}</span>
+                  <input
+                    type="date"
+                    value={filters.to}
+                    min={filters.from || undefined}
+                    onChange={e => setFilters({ to: e.target.value })}
+                    className={inputClassName}
+                  />
+                </label>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {hasFilters ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setQueryDraft("");
+                      router.replace(pathname, { scroll: false });
+                    }}
+                    className="text-sm font-medium text-slate-600 dark:text-slate-400 hover:underline"
+                  >
+                    {t("history.clearFilters")}
+                  </button>
+                ) : null}
+                <div className="ml-auto flex gap-2">
+                  <button
+                    type="button"
+                    onClick={exportCsv}
+                    disabled={exporting || alerts.length === 0}
+                    className="px-3 py-1.5 rounded-lg border border-slate-300 dark:border-slate-600 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                  >
+                    {exporting ? t("history.exporting") : t("history.exportCsv")}
+                  </button>
+                  <Link
+                    href={`/history/report${filterKey ? `?${filterKey}` : ""}`}
+                    target="_blank"
+                    className="px-3 py-1.5 rounded-lg border border-slate-300 dark:border-slate-600 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+                  >
+                    {t("history.printable")}
+                  </Link>
+                </div>
+              </div>
+            </section>
+
+            {error ? (
+              <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+              </div>
+            ) : null}
+
+            {loading ? (
+              <div className="grid gap-3" aria-hidden>
+                {[...Array(4)].map((_, i) => (
+                  <div key={i} className="h-16 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse"></div>
+                ))}
+              </div>
+            ) : alerts.length === 0 ? (
+              <p className="text-center py-12 text-slate-600 dark:text-slate-400">
+                {hasFilters ? t("history.noMatches") : t("history.empty")}
+              </p>
+            ) : (
+              <div className="grid gap-3">
+                {alerts.map(a => (
+                  <PastAlertRow
+                    key={a.id}
+                    alert={a}
+                    residentName={a.resident_id ? (residentById.get(a.resident_id)?.name ?? null) : null}
+                    mediaState={eventMediaById[String(a.trigger_event)]}
+                    thumbnail={thumbnailByEventId[String(a.trigger_event)]}
+                    timeZone={a.resident_id ? (residentById.get(a.resident_id)?.time_zone ?? null) : null}
+                    currentUserId={user.id}
+                    expanded={!!expandedById[a.id]}
+                    onToggle={() => toggleExpanded(a)}
+                  />
+                ))}
+                <div ref={sentinelRef}></div>
+                {nextCursor ? (
+                  <button
+                    type="button"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="mx-auto px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                  >
+                    {loadingMore ? t("common.loading") : t("history.loadMore")}
+                  </button>
+                ) : (
+                  <p className="text-center text-xs text-slate-500 dark:text-slate-400">{t("history.end")}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import {
+  actorName,
+  alertOutcomeLabel,
+  alertStatusLabel,
+  formatEventType,
+  historyFiltersFromParams,
+  type AlertWithEvent,
+} from "@/lib/alerts";
+import { signEventFrames } from "@/lib/media";
+import { listResidents, type Resident } from "@/lib/residents";
+import { firstTransitionTo, loadReportAlerts, maxReportAlerts } from "@/lib/reports";
+import { formatCalendarDate, formatInTimeZone } from "@/lib/time";
+
+// Poster frames (or snapshots) for one event, at most a few per incident
+const maxFramesPerAlert = 3;
+
+export default function ReportPage() {
+  return (
+    <Suspense>
+      <IncidentReport />
+    </Suspense>
+  );
+}
+
+function IncidentReport() {
+  const { user } = useAuth();
+  const { locale, t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+  const searchParams = useSearchParams();
+  const filterKey = searchParams.toString();
+  const filters = historyFiltersFromParams(new URLSearchParams(filterKey));
+
+  const [alerts, setAlerts] = useState<AlertWithEvent[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [framesByEventId, setFramesByEventId] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+    setLoading(true);
+    Promise.all([loadReportAlerts(supabase, filters), listResidents(supabase)])
+      .then(async ([report, loadedResidents]) => {
+        if (!isMounted) return;
+        setAlerts(report.alerts);
+        setTruncated(report.truncated);
+        setResidents(loadedResidents);
+
+        // Sign poster frames before marking the report ready, so printing
+        // straight away doesn't leave empty image boxes. Without them the
+        // report still prints.
+        const events = report.alerts.flatMap(alert => (alert.event ? [alert.event] : []));
+        const frames = await signEventFrames(supabase, events, maxFramesPerAlert).catch(() => ({}));
+        if (isMounted) setFramesByEventId(frames);
+      })
+      .catch((err: any) => {
+        if (isMounted) setError(err?.message ?? t("report.failed"));
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [user, supabase, filterKey]);
+
+  const residentById = new Map(residents.map(r => [r.id, r]));
+  const resident = filters.residentId ? residentById.get(filters.residentId) ?? null : null;
+  const countByOutcome = alerts.reduce<Record<string, number>>((counts, alert) => {
+    const key = alert.outcome ?? "unknown";
+    counts[key] = (counts[key] ?? 0) + 1;
+    return counts;
+  }, {});
+  const countByType = alerts.reduce<Record<string, number>>((counts, alert) => {
+    const key = formatEventType(alert.event?.type, locale);
+    counts[key] = (counts[key] ?? 0) + 1;
+    return counts;
+  }, {});
+  const dateRange =
+    filters.from || filters.to
+      ? t("report.dateRange", {
+          from: filters.from ? formatCalendarDate(filters.from, locale) : "…",
+          to: filters.to ? formatCalendarDate(filters.to, locale) : t("report.today"),
+        })
+      : t("report.allDates");
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <div className="print:hidden border-b border-slate-200 bg-slate-50">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+          <Link href={`/history${filterKey ? `?${filterKey}` : ""}`} className="text-sm text-slate-600 hover:underline">
+            {t("report.back")}
+          </Link>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            disabled={loading || !!error}
+            className="px-4 py-2 rounded-lg bg-slate-900 text-white font-medium hover:bg-slate-800 disabled:opacity-50"
+          >
+            {loading ? t("report.preparing") : t("report.print")}
+          </button>
+        </div>
+      </div>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 print:p-0 space-y-6">
+        <header className="space-y-1">
+          <div className="flex items-center gap-3">
+            <img src="/bobo.png" alt="" className="h-10 w-10 object-contain" />
+            <h1 className="text-2xl font-bold">
+              {resident ? t("report.titleFor", { name: resident.name }) : t("report.title")}
+            </h1>
+          </div>
+          <p className="text-sm text-slate-600">
+            {dateRange}
+            {filters.eventType ? ` · ${t("report.only", { filter: formatEventType(filters.eventType, locale) })}` : ""}
+            {filters.outcome
+              ? ` · ${t("report.only", { filter: alertOutcomeLabel(filters.outcome, locale) ?? filters.outcome })}`
+              : ""}
+          </p>
+          {resident?.address ? <p className="text-sm text-slate-600">{resident.address}</p> : null}
+          <p className="text-xs text-slate-500">
+            {t("report.generated", {
+              time: formatInTimeZone(new Date(), { locale, timeZone: resident?.time_zone }),
+            })}
+          </p>
+        </header>
+
+        {!user ? (
+          <p className="text-slate-600">
+            {t("common.please")}{" "}
+            <Link href={`/login?next=${encodeURIComponent(`/history/report?${filterKey}`)}`} className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("report.loginPrompt")}
+          </p>
+        ) : error ? (
+          <p className="text-red-700 font-medium">{error}</p>
+        ) : loading ? (
+          <p className="text-slate-600">{t("report.gathering")}</p>
+        ) : (
+          <>
+            <section className="grid grid-cols-2 gap-4 rounded-xl border border-slate-200 p-4 text-sm break-inside-avoid">
+              <div>
+                <h2 className="font-semibold mb-1">{t("report.incidents", { count: alerts.length })}</h2>
+                <ul className="text-slate-700">
+                  {Object.entries(countByType).map(([type, count]) => (
+                    <li key={type}>
+                      {type}: {count}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <h2 className="font-semibold mb-1">{t("report.outcomes")}</h2>
+                <ul className="text-slate-700">
+                  {Object.entries(countByOutcome).map(([outcome, count]) => (
+                    <li key={outcome}>
+                      {alertOutcomeLabel(outcome === "unknown" ? null : outcome, locale) ?? t("report.notRecorded")}: {count}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </section>
+
+            {truncated ? (
+              <p className="text-sm text-amber-700">
+                {t("report.truncated", { count: maxReportAlerts })}
+              </p>
+            ) : null}
+
+            <ol className="space-y-4">
+              {alerts.map(alert => {
+                const claim = firstTransitionTo(alert, ["acknowledged"]);
+                const close = firstTransitionTo(alert, ["resolved", "false_alarm"]);
+                const frames = alert.event ? (framesByEventId[alert.event.id] ?? []) : [];
+                const alertResident = alert.resident_id ? residentById.get(alert.resident_id) : undefined;
+                // Times where the resident lives, like everywhere else in the app
+                const at = (value: string) => formatInTimeZone(value, { locale, timeZone: alertResident?.time_zone });
+                return (
+                  <li key={alert.id} className="rounded-xl border border-slate-200 p-4 space-y-2 break-inside-avoid">
+                    <div className="flex items-baseline justify-between gap-4">
+                      <h3 className="font-semibold">
+                        {formatEventType(alert.event?.type, locale)}
+                        {!resident && alertResident ? <span className="font-normal text-slate-600"> · {alertResident.name}</span> : null}
+                      </h3>
+                      <span className="text-sm text-slate-600">{at(alert.created_at)}</span>
+                    </div>
+                    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-0.5 text-sm">
+                      <dt className="text-slate-500">{t("report.status")}</dt>
+                      <dd>
+                        {alertStatusLabel(alert.status, locale)}
+                        {alert.outcome ? ` · ${alertOutcomeLabel(alert.outcome, locale)}` : ""}
+                      </dd>
+                      {claim ? (
+                        <>
+                          <dt className="text-slate-500">{t("report.responded")}</dt>
+                          <dd>{t("report.atBy", { time: at(claim.created_at), name: actorName(claim, undefined, locale) })}</dd>
+                        </>
+                      ) : null}
+                      {close ? (
+                        <>
+                          <dt className="text-slate-500">{t("report.closed")}</dt>
+                          <dd>{t("report.atBy", { time: at(close.created_at), name: actorName(close, undefined, locale) })}</dd>
+                        </>
+                      ) : null}
+                      {alert.resolution_notes ? (
+                        <>
+                          <dt className="text-slate-500">{t("report.notes")}</dt>
+                          <dd className="whitespace-pre-wrap">{alert.resolution_notes}</dd>
+                        </>
+                      ) : null}
+                    </dl>
+                    {frames.length > 0 ? (
+                      <div className="flex gap-2">
+                        {frames.map(url => (
+                          <img key={url} src={url} alt="" className="h-28 w-auto rounded-md border border-slate-200 object-cover" />
+                        ))}
+                      </div>
+                    ) : null}
+                  </li>
+                );
+              })}
+            </ol>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import { acceptInvitation } from "@/lib/households";
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onAccept() {
+    setError(null);
+    setAccepting(true);
+    try {
+      await acceptInvitation(supabase, token);
+      router.replace("/");
+    } catch (err: any) {
+      setError(err?.message ?? t("invite.failed"));
+      setAccepting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4 text-center">
+        <img src="/bobo.png" alt="Bobo" className="mx-auto h-12 w-12 rounded-lg object-contain" />
+        <h1 className="text-2xl font-semibold">{t("invite.title")}</h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400">{t("invite.description")}</p>
+        {user ? (
+          <>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {t("auth.signedInAs")} <span className="font-medium">{user.email}</span>
+            </p>
+            {error ? <p className="text-red-600 text-sm">{error}</p> : null}
+            <button
+              type="button"
+              onClick={onAccept}
+              disabled={accepting}
+              className="px-3 py-2 rounded bg-black text-white disabled:opacity-50"
+            >
+              {accepting ? t("invite.joining") : t("invite.accept")}
+            </button>
+          </>
+        ) : (
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/login?next=${encodeURIComponent(`/invite/${token}`)}`}
+              className="inline-block px-3 py-2 rounded bg-black text-white"
+            >
+              {t("invite.signIn")}
+            </Link>
+            <Link href={`/signup?next=${encodeURIComponent(`/invite/${token}`)}`} className="text-sm underline">
+              {t("auth.createAccount")}
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
-import { SupabaseProvider } from "./providers";
+import { cookies, headers } from "next/headers";
+import { LocaleProvider, SupabaseProvider } from "./providers";
+import { getServerUser } from "@/lib/supabaseServer";
+import { isLocale, localeCookie, matchLocale } from "@/lib/i18n";
+import { isDemoMode } from "@/lib/demo";
+import DemoBanner from "@/components/DemoBanner";
+import DemoBackend from "@/components/DemoBackend";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -16,21 +22,36 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Bobo",
   description: "Bobo Dashboard",
+  icons: { apple: "/apple-touch-icon.png" },
+  appleWebApp: { capable: true, title: "Bobo" },
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const user = await getServerUser();
+  const savedLocale = (await cookies()).get(localeCookie)?.value;
+  const locale = isLocale(savedLocale)
+    ? savedLocale
+    : matchLocale(((await headers()).get("accept-language") ?? "").split(","));
+
+  const app = (
+    <SupabaseProvider initialUser={user}>
+      <LocaleProvider initialLocale={locale}>
+        {isDemoMode() && <DemoBanner />}
+        {children}
+      </LocaleProvider>
+    </SupabaseProvider>
+  );
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <SupabaseProvider>
-          {children}
-        </SupabaseProvider>
+        {isDemoMode() ? <DemoBackend>{app}</DemoBackend> : app}
       </body>
     </html>
   );
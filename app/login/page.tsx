@@ -1,81 +1,170 @@
 'use client';
 
-import { FormEvent, useEffect, useState } from 'react';
+import { FormEvent, Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { getBrowserSupabaseClient } from '@/lib/supabaseClient';
-import { useRouter } from 'next/navigation';
-import { useAuth } from '@/app/providers';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth, useTranslation } from '@/app/providers';
+import { authCallbackUrl, safeNextPath, withNext } from '@/lib/auth';
+import OAuthButtons from '@/components/OAuthButtons';
+
+type LoginMode = 'password' | 'magic-link';
 
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
   const { user } = useAuth();
+  const { t } = useTranslation();
   const supabase = getBrowserSupabaseClient();
 
+  const [mode, setMode] = useState<LoginMode>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [needsConfirmation, setNeedsConfirmation] = useState(false);
 
   useEffect(() => {
     if (user) {
-      router.replace('/');
+      router.replace(nextPath);
     }
-  }, [user, router]);
+  }, [user, router, nextPath]);
+
+  function switchMode(next: LoginMode) {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+    setNeedsConfirmation(false);
+  }
 
   async function onSubmit(e: FormEvent) {
     e.preventDefault();
     setError(null);
+    setNotice(null);
+    setNeedsConfirmation(false);
     setLoading(true);
     try {
+      if (mode === 'magic-link') {
+        // Existing accounts only; new family members go through sign-up
+        const { error: otpError } = await supabase.auth.signInWithOtp({
+          email,
+          options: { emailRedirectTo: authCallbackUrl(nextPath), shouldCreateUser: false },
+        });
+        if (otpError) throw otpError;
+        setNotice(t('login.linkSent', { email }));
+        return;
+      }
+
       const { data, error: signInError } = await supabase.auth.signInWithPassword({
         email,
         password,
       });
-      if (signInError) throw signInError;
+      if (signInError) {
+        if (signInError.code === 'email_not_confirmed') setNeedsConfirmation(true);
+        throw signInError;
+      }
       if (data.session) {
-        router.replace('/');
+        router.replace(nextPath);
       }
     } catch (err: any) {
-      setError(err?.message ?? 'Login failed');
+      setError(err?.message ?? t('login.failed'));
     } finally {
       setLoading(false);
     }
   }
 
-  
+  async function resendConfirmation() {
+    setError(null);
+    const { error: resendError } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: authCallbackUrl(nextPath) },
+    });
+    if (resendError) {
+      setError(resendError.message);
+    } else {
+      setNeedsConfirmation(false);
+      setNotice(t('login.confirmationSent', { email }));
+    }
+  }
 
   return (
     <div className="min-h-screen flex items-center justify-center p-6">
-      <form onSubmit={onSubmit} className="w-full max-w-sm space-y-4">
-        <h1 className="text-2xl font-semibold">Login</h1>
-        <input
-          type="email"
-          placeholder="Email"
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-          className="w-full border rounded px-3 py-2"
-          required
-        />
-        <input
-          type="password"
-          placeholder="Password"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-          className="w-full border rounded px-3 py-2"
-          required
-        />
-        {error ? <p className="text-red-600 text-sm">{error}</p> : null}
-        <div className="flex gap-2">
-          <button
-            type="submit"
-            disabled={loading}
-            className="px-3 py-2 rounded bg-black text-white disabled:opacity-50"
-          >
-            {loading ? 'Loading…' : 'Sign In'}
-          </button>
-        </div>
-      </form>
+      <div className="w-full max-w-sm space-y-4">
+        <form onSubmit={onSubmit} className="space-y-4">
+          <h1 className="text-2xl font-semibold">{t('login.title')}</h1>
+          <div className="flex gap-4 text-sm" role="tablist">
+            {(['password', 'magic-link'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                role="tab"
+                aria-selected={mode === option}
+                onClick={() => switchMode(option)}
+                className={mode === option ? 'font-semibold underline' : 'text-slate-500'}
+              >
+                {option === 'password' ? t('auth.password') : t('login.emailLink')}
+              </button>
+            ))}
+          </div>
+          <input
+            type="email"
+            placeholder={t('auth.email')}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full border rounded px-3 py-2"
+            required
+          />
+          {mode === 'password' ? (
+            <input
+              type="password"
+              placeholder={t('auth.password')}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full border rounded px-3 py-2"
+              required
+            />
+          ) : null}
+          {error ? <p className="text-red-600 text-sm">{error}</p> : null}
+          {needsConfirmation ? (
+            <button type="button" onClick={resendConfirmation} className="text-sm underline">
+              {t('login.resendConfirmation')}
+            </button>
+          ) : null}
+          {notice ? <p className="text-green-700 text-sm">{notice}</p> : null}
+          <div className="flex items-center justify-between gap-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-3 py-2 rounded bg-black text-white disabled:opacity-50"
+            >
+              {loading ? t('common.loading') : mode === 'password' ? t('login.signIn') : t('login.sendLink')}
+            </button>
+            {mode === 'password' ? (
+              <Link href={withNext('/forgot-password', nextPath)} className="text-sm underline">
+                {t('login.forgotPassword')}
+              </Link>
+            ) : null}
+          </div>
+        </form>
+        <OAuthButtons next={nextPath} />
+        <p className="text-sm text-slate-600">
+          {t('login.newToBobo')}{' '}
+          <Link href={withNext('/signup', nextPath)} className="underline">
+            {t('auth.createAccount')}
+          </Link>
+        </p>
+      </div>
     </div>
   );
 }
-
-
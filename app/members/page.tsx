@@ -0,0 +1,330 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import Link from "next/link";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import {
+  inviteMember,
+  listMembers,
+  listMemberships,
+  listPendingInvitations,
+  removeMember,
+  revokeInvitation,
+  roleLabel,
+  setHouseholdMfaRequirement,
+  updateMemberRole,
+  type HouseholdInvitation,
+  type HouseholdMember,
+  type HouseholdRole,
+  type Membership,
+} from "@/lib/households";
+import { formatInTimeZone } from "@/lib/time";
+
+const roles: HouseholdRole[] = ["owner", "caregiver", "viewer"];
+
+export default function MembersPage() {
+  const { user } = useAuth();
+  const { locale, t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [householdId, setHouseholdId] = useState<string | null>(null);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [invitations, setInvitations] = useState<HouseholdInvitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>("caregiver");
+  const [inviting, setInviting] = useState(false);
+  const [inviteNotice, setInviteNotice] = useState<string | null>(null);
+
+  const [updatingMfa, setUpdatingMfa] = useState(false);
+
+  const membership = memberships.find(m => m.household.id === householdId) ?? null;
+  const myRole = membership?.role ?? null;
+  const isOwner = myRole === "owner";
+
+  function loadMemberships() {
+    if (!user) return Promise.resolve();
+    return listMemberships(supabase, user.id).then(loaded => {
+      setMemberships(loaded);
+      setHouseholdId(prev => prev ?? loaded[0]?.household.id ?? null);
+    });
+  }
+
+  useEffect(() => {
+    loadMemberships().catch((err: any) => setError(err?.message ?? t("members.loadHouseholdsFailed")));
+  }, [user, supabase]);
+
+  async function onToggleMfa(required: boolean) {
+    if (!householdId) return;
+    setError(null);
+    setUpdatingMfa(true);
+    try {
+      await setHouseholdMfaRequirement(supabase, householdId, required);
+      await loadMemberships();
+    } catch (err: any) {
+      setError(err?.message ?? t("members.mfaFailed"));
+    } finally {
+      setUpdatingMfa(false);
+    }
+  }
+
+  async function refresh(targetHouseholdId: string, includeInvitations: boolean) {
+    setError(null);
+    setLoading(true);
+    try {
+      const [loadedMembers, loadedInvitations] = await Promise.all([
+        listMembers(supabase, targetHouseholdId),
+        includeInvitations ? listPendingInvitations(supabase, targetHouseholdId) : Promise.resolve([]),
+      ]);
+      setMembers(loadedMembers);
+      setInvitations(loadedInvitations);
+    } catch (err: any) {
+      setError(err?.message ?? t("members.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!householdId) return;
+    refresh(householdId, isOwner);
+  }, [householdId, isOwner]);
+
+  async function onInvite(e: FormEvent) {
+    e.preventDefault();
+    if (!householdId) return;
+    setError(null);
+    setInviteNotice(null);
+    setInviting(true);
+    try {
+      await inviteMember(supabase, householdId, inviteEmail.trim(), inviteRole);
+      setInviteNotice(t("members.inviteSent", { email: inviteEmail.trim() }));
+      setInviteEmail("");
+      await refresh(householdId, true);
+    } catch (err: any) {
+      setError(err?.message ?? t("members.inviteFailed"));
+    } finally {
+      setInviting(false);
+    }
+  }
+
+  async function runAction(action: () => Promise<void>, fallbackMessage: string) {
+    if (!householdId) return;
+    setError(null);
+    try {
+      await action();
+      await refresh(householdId, isOwner);
+    } catch (err: any) {
+      setError(err?.message ?? fallbackMessage);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link href="/" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+            {t("common.backToDashboard")}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{t("members.title")}</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">{t("members.description")}</p>
+          <div className="mt-2 flex flex-wrap gap-4">
+            <Link href="/escalation" className="text-sm font-medium text-slate-700 dark:text-slate-300 hover:underline">
+              {t("members.escalationLink")}
+            </Link>
+            <Link href="/security" className="text-sm font-medium text-slate-700 dark:text-slate-300 hover:underline">
+              {t("members.securityLink")}
+            </Link>
+          </div>
+        </div>
+
+        {!user ? (
+          <p className="text-slate-600 dark:text-slate-400">
+            {t("common.please")}{" "}
+            <Link href="/login?next=/members" className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("members.loginPrompt")}
+          </p>
+        ) : (
+          <>
+            {memberships.length > 1 ? (
+              <select
+                value={householdId ?? ""}
+                onChange={e => setHouseholdId(e.target.value)}
+                className="w-full sm:w-auto border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800"
+              >
+                {memberships.map(m => (
+                  <option key={m.household.id} value={m.household.id}>
+                    {m.household.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+
+            {error ? (
+              <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+              </div>
+            ) : null}
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("members.members")}</h2>
+              {loading && members.length === 0 ? (
+                <div className="h-16 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+              ) : (
+                <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                  {members.map(member => {
+                    const isSelf = member.user_id === user.id;
+                    return (
+                      <li key={member.user_id} className="p-4 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                            {member.profile?.display_name ?? member.profile?.email ?? t("members.unknown")}
+                            {isSelf ? <span className="text-slate-500 dark:text-slate-400"> {t("members.you")}</span> : null}
+                          </p>
+                          {member.profile?.display_name ? (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{member.profile.email}</p>
+                          ) : null}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {isOwner && !isSelf ? (
+                            <>
+                              <select
+                                value={member.role}
+                                onChange={e =>
+                                  runAction(
+                                    () => updateMemberRole(supabase, member.household_id, member.user_id, e.target.value as HouseholdRole),
+                                    t("members.roleFailed")
+                                  )
+                                }
+                                className="border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm bg-white dark:bg-slate-800"
+                              >
+                                {roles.map(role => (
+                                  <option key={role} value={role}>
+                                    {roleLabel(role, locale)}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  runAction(() => removeMember(supabase, member.household_id, member.user_id), t("members.removeFailed"))
+                                }
+                                className="px-3 py-1 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm font-medium hover:bg-red-50 dark:hover:bg-red-900/30"
+                              >
+                                {t("members.revokeAccess")}
+                              </button>
+                            </>
+                          ) : (
+                            <span className="px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-700 text-xs font-medium text-slate-700 dark:text-slate-300">
+                              {roleLabel(member.role, locale)}
+                            </span>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+
+            {isOwner ? (
+              <>
+                <section className="space-y-3">
+                  <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("members.pending")}</h2>
+                  {invitations.length === 0 ? (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t("members.noPending")}</p>
+                  ) : (
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                      {invitations.map(invitation => (
+                        <li key={invitation.id} className="p-4 flex items-center justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{invitation.email}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                              {roleLabel(invitation.role, locale)} ·{" "}
+                              {t("members.expires", { date: formatInTimeZone(invitation.expires_at, { locale, style: "date" }) })}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => runAction(() => revokeInvitation(supabase, invitation.id), t("members.revokeFailed"))}
+                            className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+                          >
+                            {t("members.revoke")}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+
+                <section className="space-y-3">
+                  <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("members.security")}</h2>
+                  <label className="flex items-start gap-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+                    <input
+                      type="checkbox"
+                      checked={membership?.household.require_mfa ?? false}
+                      onChange={e => onToggleMfa(e.target.checked)}
+                      disabled={updatingMfa}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-slate-900 dark:text-white">
+                        {t("members.requireMfa")}
+                      </span>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">
+                        {t("members.requireMfaNote")}{" "}
+                        <Link href="/security" className="underline">
+                          {t("members.securityPage")}
+                        </Link>
+                        .
+                      </span>
+                    </span>
+                  </label>
+                </section>
+
+                <section className="space-y-3">
+                  <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("members.invite")}</h2>
+                  <form onSubmit={onInvite} className="flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="email"
+                      placeholder={t("members.email")}
+                      value={inviteEmail}
+                      onChange={e => setInviteEmail(e.target.value)}
+                      className="flex-1 border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800"
+                      required
+                    />
+                    <select
+                      value={inviteRole}
+                      onChange={e => setInviteRole(e.target.value as HouseholdRole)}
+                      className="border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800"
+                    >
+                      {roles.map(role => (
+                        <option key={role} value={role}>
+                          {roleLabel(role, locale)}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={inviting || !householdId}
+                      className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium disabled:opacity-50"
+                    >
+                      {inviting ? t("members.sending") : t("members.sendInvite")}
+                    </button>
+                  </form>
+                  {inviteNotice ? <p className="text-sm text-green-700 dark:text-green-300">{inviteNotice}</p> : null}
+                </section>
+              </>
+            ) : null}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { FormEvent, Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import type { Factor } from '@supabase/supabase-js';
+import { getBrowserSupabaseClient } from '@/lib/supabaseClient';
+import { useAuth, useTranslation } from '@/app/providers';
+import { mfaEnrollPath, safeNextPath, signOutUser, withNext } from '@/lib/auth';
+import { listTotpFactors, needsChallenge, recoverWithCode, verifyTotp } from '@/lib/mfa';
+
+type ChallengeMode = 'totp' | 'recovery';
+
+export default function MfaChallengePage() {
+  return (
+    <Suspense>
+      <MfaChallenge />
+    </Suspense>
+  );
+}
+
+// The second step of signing in for accounts with an authenticator app. The
+// middleware sends aal1 sessions here whenever they could reach aal2.
+function MfaChallenge() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+  const { user, assurance } = useAuth();
+  const { t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [mode, setMode] = useState<ChallengeMode>('totp');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    listTotpFactors(supabase)
+      .then(loaded => {
+        setFactors(loaded);
+        setFactorId(prev => prev ?? loaded[0]?.id ?? null);
+      })
+      .catch((err: any) => setError(err?.message ?? t('mfa.loadFailed')));
+  }, [user, supabase]);
+
+  // Nothing to verify: already at aal2, or no factor to challenge
+  useEffect(() => {
+    if (assurance && !needsChallenge(assurance) && !loading) router.replace(nextPath);
+  }, [assurance, loading, router, nextPath]);
+
+  function switchMode(next: ChallengeMode) {
+    setMode(next);
+    setCode('');
+    setError(null);
+  }
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      if (mode === 'recovery') {
+        await recoverWithCode(supabase, code);
+        // The old authenticator is gone; set up a new one
+        router.replace(withNext(mfaEnrollPath, nextPath));
+        return;
+      }
+      if (!factorId) throw new Error(t('mfa.noFactor'));
+      await verifyTotp(supabase, factorId, code);
+      router.replace(nextPath);
+    } catch (err: any) {
+      setError(err?.message ?? t('mfa.failed'));
+      setLoading(false);
+    }
+  }
+
+  async function signOut() {
+    await signOutUser(supabase);
+    router.replace('/login');
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4">
+        <form onSubmit={onSubmit} className="space-y-4">
+          <h1 className="text-2xl font-semibold">{t('mfa.title')}</h1>
+          {mode === 'totp' ? (
+            <>
+              <p className="text-sm text-slate-600">{t('mfa.enterCode')}</p>
+              {factors.length > 1 ? (
+                <select
+                  value={factorId ?? ''}
+                  onChange={(e) => setFactorId(e.target.value)}
+                  className="w-full border rounded px-3 py-2"
+                >
+                  {factors.map(factor => (
+                    <option key={factor.id} value={factor.id}>
+                      {factor.friendly_name ?? t('mfa.authenticatorApp')}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full border rounded px-3 py-2 tracking-widest"
+                autoFocus
+                required
+              />
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-slate-600">{t('mfa.enterRecoveryCode')}</p>
+              <input
+                type="text"
+                autoComplete="off"
+                placeholder="xxxxx-xxxxx"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full border rounded px-3 py-2 font-mono"
+                autoFocus
+                required
+              />
+            </>
+          )}
+          {error ? <p className="text-red-600 text-sm">{error}</p> : null}
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-3 py-2 rounded bg-black text-white disabled:opacity-50"
+          >
+            {loading ? t('mfa.verifying') : t('mfa.verify')}
+          </button>
+        </form>
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => switchMode(mode === 'totp' ? 'recovery' : 'totp')}
+            className="underline"
+          >
+            {mode === 'totp' ? t('mfa.useRecoveryCode') : t('mfa.useAuthenticator')}
+          </button>
+          <button type="button" onClick={signOut} className="text-slate-500 underline">
+            {t('menu.signOut')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,37 @@
 'use client';
 
-import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import type { Session, User } from '@supabase/supabase-js';
 import { getBrowserSupabaseClient } from '@/lib/supabaseClient';
+import { getAssurance, type Assurance } from '@/lib/mfa';
+import { defaultLocale, isLocale, localeCookie, translator, type Locale, type Translate } from '@/lib/i18n';
+import { getUserSettings, saveUserSettings } from '@/lib/settings';
 
 type AuthContextValue = {
   session: Session | null;
   user: User | null;
+  // Null until the session has loaded. Pages that show footage can require
+  // `assurance.current === 'aal2'`.
+  assurance: Assurance | null;
 };
 
-const AuthContext = createContext<AuthContextValue>({ session: null, user: null });
+const AuthContext = createContext<AuthContextValue>({ session: null, user: null, assurance: null });
 
-export function SupabaseProvider({ children }: { children: React.ReactNode }) {
+// `initialUser` comes from the server render so signed-in pages don't flash
+// their logged-out state while the client session loads.
+export function SupabaseProvider({
+  initialUser,
+  children,
+}: {
+  initialUser: User | null;
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
   const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [assurance, setAssurance] = useState<Assurance | null>(null);
+  const userIdRef = useRef(initialUser?.id ?? null);
 
   const supabase = useMemo(() => getBrowserSupabaseClient(), []);
 
@@ -22,21 +41,48 @@ export function SupabaseProvider({ children }: { children: React.ReactNode }) {
     supabase.auth.getSession().then(({ data }) => {
       if (!isMounted) return;
       setSession(data.session ?? null);
+      setSessionLoaded(true);
     });
 
     const { data: subscription } = supabase.auth.onAuthStateChange((_event, newSession) => {
       setSession(newSession);
+      setSessionLoaded(true);
+      // Re-render server components (and rerun the middleware) whenever the
+      // signed-in user changes, e.g. after signing out in this or another tab
+      const userId = newSession?.user.id ?? null;
+      if (userId !== userIdRef.current) {
+        userIdRef.current = userId;
+        router.refresh();
+      }
     });
 
     return () => {
       isMounted = false;
       subscription.subscription.unsubscribe();
     };
-  }, [supabase]);
+  }, [supabase, router]);
+
+  // Recomputed on every session change, which includes passing a challenge
+  // (MFA_CHALLENGE_VERIFIED) and token refreshes
+  useEffect(() => {
+    if (!session) {
+      setAssurance(null);
+      return;
+    }
+    let isMounted = true;
+    getAssurance(supabase)
+      .then(next => {
+        if (isMounted) setAssurance(next);
+      })
+      .catch(() => {});
+    return () => {
+      isMounted = false;
+    };
+  }, [session, supabase]);
 
   const value = useMemo<AuthContextValue>(
-    () => ({ session, user: session?.user ?? null }),
-    [session]
+    () => ({ session, user: sessionLoaded ? session?.user ?? null : initialUser, assurance }),
+    [session, sessionLoaded, initialUser, assurance]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -46,4 +92,61 @@ export function useAuth() {
   return useContext(AuthContext);
 }
 
+type LocaleContextValue = {
+  locale: Locale;
+  t: Translate;
+  setLocale: (locale: Locale) => Promise<void>;
+};
+
+const LocaleContext = createContext<LocaleContextValue>({
+  locale: defaultLocale,
+  t: translator(defaultLocale),
+  setLocale: async () => {},
+});
+
+function rememberLocale(locale: Locale) {
+  document.cookie = `${localeCookie}=${locale}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+  document.documentElement.lang = locale;
+}
+
+// `initialLocale` is read from the cookie (or Accept-Language) on the server.
+// Once signed in, the language saved in the user's settings wins, so it
+// follows them to new devices.
+export function LocaleProvider({ initialLocale, children }: { initialLocale: Locale; children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+  const supabase = useMemo(() => getBrowserSupabaseClient(), []);
+
+  useEffect(() => {
+    if (!userId) return;
+    let isMounted = true;
+    getUserSettings(supabase, userId)
+      .then(settings => {
+        if (!isMounted || !isLocale(settings.locale)) return;
+        setLocaleState(settings.locale);
+        rememberLocale(settings.locale);
+      })
+      .catch(() => {});
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, supabase]);
+
+  const setLocale = useCallback(
+    async (next: Locale) => {
+      setLocaleState(next);
+      rememberLocale(next);
+      if (userId) await saveUserSettings(supabase, userId, { locale: next });
+    },
+    [userId, supabase]
+  );
+
+  const value = useMemo<LocaleContextValue>(() => ({ locale, t: translator(locale), setLocale }), [locale, setLocale]);
 
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export function useTranslation() {
+  return useContext(LocaleContext);
+}
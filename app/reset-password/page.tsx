@@ -0,0 +1,103 @@
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { getBrowserSupabaseClient } from '@/lib/supabaseClient';
+import { useAuth, useTranslation } from '@/app/providers';
+import { minPasswordLength, safeNextPath } from '@/lib/auth';
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
+
+// Reached from the reset email (through /auth/callback, which signs the user
+// in with the recovery link), or by a signed-in user changing their password.
+function ResetPasswordForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (password.length < minPasswordLength) {
+      setError(t('auth.passwordTooShort', { count: minPasswordLength }));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t('auth.passwordMismatch'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error: updateError } = await supabase.auth.updateUser({ password });
+      if (updateError) throw updateError;
+      router.replace(nextPath);
+    } catch (err: any) {
+      setError(err?.message ?? t('resetPassword.failed'));
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4">
+        <h1 className="text-2xl font-semibold">{t('resetPassword.title')}</h1>
+        {!user ? (
+          <>
+            <p className="text-sm text-slate-600">{t('resetPassword.openLink')}</p>
+            <Link href="/forgot-password" className="text-sm underline">
+              {t('resetPassword.requestLink')}
+            </Link>
+          </>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            <p className="text-sm text-slate-600">
+              {t('auth.signedInAs')} <span className="font-medium">{user.email}</span>
+            </p>
+            <input
+              type="password"
+              placeholder={t('resetPassword.newPassword')}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full border rounded px-3 py-2"
+              autoComplete="new-password"
+              required
+            />
+            <input
+              type="password"
+              placeholder={t('resetPassword.confirmPassword')}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="w-full border rounded px-3 py-2"
+              autoComplete="new-password"
+              required
+            />
+            {error ? <p className="text-red-600 text-sm">{error}</p> : null}
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-3 py-2 rounded bg-black text-white disabled:opacity-50"
+            >
+              {loading ? t('common.saving') : t('resetPassword.submit')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
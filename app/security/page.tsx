@@ -0,0 +1,335 @@
+"use client";
+
+import { FormEvent, Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import type { Factor } from "@supabase/supabase-js";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import { mfaChallengePath, safeNextPath, withNext } from "@/lib/auth";
+import {
+  countRecoveryCodes,
+  generateRecoveryCodes,
+  isMfaRequired,
+  listTotpFactors,
+  needsChallenge,
+  removeTotpFactor,
+  startTotpEnrollment,
+  verifyTotp,
+  type TotpEnrollment,
+} from "@/lib/mfa";
+import { downloadFile } from "@/lib/reports";
+import { formatInTimeZone } from "@/lib/time";
+
+export default function SecurityPage() {
+  return (
+    <Suspense>
+      <SecuritySettings />
+    </Suspense>
+  );
+}
+
+// Two-factor setup and recovery codes. Members of a household that requires
+// MFA are sent here by the middleware until they have enrolled.
+function SecuritySettings() {
+  const searchParams = useSearchParams();
+  const nextParam = searchParams.get("next");
+  const nextPath = safeNextPath(nextParam);
+  const { user, assurance } = useAuth();
+  const { locale, t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [factors, setFactors] = useState<Factor[] | null>(null);
+  const [required, setRequired] = useState(false);
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [enrollCode, setEnrollCode] = useState("");
+  const [enrolling, setEnrolling] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [generatingCodes, setGeneratingCodes] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const isVerified = assurance?.current === "aal2";
+
+  async function refresh() {
+    const [loadedFactors, isRequired] = await Promise.all([listTotpFactors(supabase), isMfaRequired(supabase)]);
+    setFactors(loadedFactors);
+    setRequired(isRequired);
+    setRemainingCodes(loadedFactors.length > 0 ? await countRecoveryCodes(supabase) : null);
+  }
+
+  useEffect(() => {
+    if (!user) return;
+    refresh().catch((err: any) => setError(err?.message ?? t("security.loadFailed")));
+  }, [user, supabase]);
+
+  async function beginEnrollment() {
+    setError(null);
+    setEnrolling(true);
+    try {
+      setEnrollment(
+        await startTotpEnrollment(
+          supabase,
+          t("security.factorName", { date: formatInTimeZone(new Date(), { locale, style: "date" }) })
+        )
+      );
+      setEnrollCode("");
+    } catch (err: any) {
+      setError(err?.message ?? t("security.startFailed"));
+    } finally {
+      setEnrolling(false);
+    }
+  }
+
+  async function onVerifyEnrollment(e: FormEvent) {
+    e.preventDefault();
+    if (!enrollment) return;
+    setError(null);
+    setEnrolling(true);
+    try {
+      await verifyTotp(supabase, enrollment.factorId, enrollCode);
+      setEnrollment(null);
+      // The session is now aal2, so codes can be issued right away
+      setRecoveryCodes(await generateRecoveryCodes(supabase));
+      await refresh();
+    } catch (err: any) {
+      setError(err?.message ?? t("security.codeMismatch"));
+    } finally {
+      setEnrolling(false);
+    }
+  }
+
+  async function onRemove(factor: Factor) {
+    if (!window.confirm(t("security.confirmRemove"))) return;
+    setError(null);
+    setRemovingId(factor.id);
+    try {
+      await removeTotpFactor(supabase, factor.id);
+      setRecoveryCodes(null);
+      await refresh();
+    } catch (err: any) {
+      setError(err?.message ?? t("security.removeFailed"));
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  async function onGenerateCodes() {
+    setError(null);
+    setGeneratingCodes(true);
+    try {
+      setRecoveryCodes(await generateRecoveryCodes(supabase));
+      setRemainingCodes(await countRecoveryCodes(supabase));
+    } catch (err: any) {
+      setError(err?.message ?? t("security.generateFailed"));
+    } finally {
+      setGeneratingCodes(false);
+    }
+  }
+
+  const hasFactor = !!factors && factors.length > 0;
+  // A required second factor can be replaced but not dropped
+  const canRemove = isVerified && !(required && factors?.length === 1);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link href="/" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+            {t("common.backToDashboard")}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{t("security.title")}</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">{t("security.description")}</p>
+        </div>
+
+        {!user ? (
+          <p className="text-slate-600 dark:text-slate-400">
+            {t("common.please")}{" "}
+            <Link href="/login?next=/security" className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("security.loginPrompt")}
+          </p>
+        ) : (
+          <>
+            {required && factors !== null && !hasFactor ? (
+              <div className="rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 p-4">
+                <p className="text-amber-800 dark:text-amber-200 font-medium">{t("security.required")}</p>
+              </div>
+            ) : null}
+
+            {needsChallenge(assurance) ? (
+              <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+                <p className="text-sm text-slate-700 dark:text-slate-300">
+                  {t("security.verifyToChange")}{" "}
+                  <Link href={withNext(mfaChallengePath, "/security")} className="underline">
+                    {t("security.verifyNow")}
+                  </Link>
+                </p>
+              </div>
+            ) : null}
+
+            {error ? (
+              <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+              </div>
+            ) : null}
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("security.authenticatorApp")}</h2>
+              {factors === null ? (
+                <div className="h-16 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+              ) : (
+                <>
+                  {hasFactor ? (
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                      {factors.map(factor => (
+                        <li key={factor.id} className="p-4 flex items-center justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                              {factor.friendly_name ?? t("security.authenticatorApp")}
+                            </p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                              {t("security.added", { date: formatInTimeZone(factor.created_at, { locale, style: "date" }) })}
+                            </p>
+                          </div>
+                          {canRemove ? (
+                            <button
+                              type="button"
+                              onClick={() => onRemove(factor)}
+                              disabled={removingId !== null}
+                              className="px-3 py-1 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm font-medium hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                            >
+                              {removingId === factor.id ? t("security.removing") : t("security.remove")}
+                            </button>
+                          ) : null}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">{t("security.off")}</p>
+                  )}
+
+                  {enrollment ? (
+                    <form
+                      onSubmit={onVerifyEnrollment}
+                      className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-3"
+                    >
+                      <p className="text-sm text-slate-700 dark:text-slate-300">{t("security.scan")}</p>
+                      <img src={enrollment.qrCode} alt={t("security.qrAlt")} className="h-44 w-44 bg-white p-2 rounded-lg" />
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {t("security.enterKey")}{" "}
+                        <code className="font-mono break-all text-slate-700 dark:text-slate-300">{enrollment.secret}</code>
+                      </p>
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          autoComplete="one-time-code"
+                          placeholder="123456"
+                          maxLength={6}
+                          value={enrollCode}
+                          onChange={e => setEnrollCode(e.target.value)}
+                          className="flex-1 border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 tracking-widest"
+                          required
+                        />
+                        <button
+                          type="submit"
+                          disabled={enrolling}
+                          className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium disabled:opacity-50"
+                        >
+                          {enrolling ? t("security.verifying") : t("security.verifyAndEnable")}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEnrollment(null)}
+                          className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+                        >
+                          {t("common.cancel")}
+                        </button>
+                      </div>
+                    </form>
+                  ) : !needsChallenge(assurance) ? (
+                    <button
+                      type="button"
+                      onClick={beginEnrollment}
+                      disabled={enrolling}
+                      className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium disabled:opacity-50"
+                    >
+                      {enrolling ? t("security.starting") : hasFactor ? t("security.addAnother") : t("security.setUp")}
+                    </button>
+                  ) : null}
+                </>
+              )}
+            </section>
+
+            {hasFactor ? (
+              <section className="space-y-3">
+                <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("security.recoveryCodes")}</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {t("security.recoveryCodesNote")}
+                  {remainingCodes !== null ? ` ${t("security.codesRemaining", { count: remainingCodes })}` : null}
+                </p>
+                {recoveryCodes ? (
+                  <div className="rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 p-4 space-y-3">
+                    <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                      {t("security.saveCodes")}
+                    </p>
+                    <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-slate-900 dark:text-white">
+                      {recoveryCodes.map(code => (
+                        <li key={code}>{code}</li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => downloadFile("bobo-recovery-codes.txt", recoveryCodes.join("\n") + "\n", "text/plain")}
+                        className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+                      >
+                        {t("security.download")}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setRecoveryCodes(null)}
+                        className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+                      >
+                        {t("security.savedCodes")}
+                      </button>
+                    </div>
+                  </div>
+                ) : isVerified ? (
+                  <button
+                    type="button"
+                    onClick={onGenerateCodes}
+                    disabled={generatingCodes}
+                    className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    {generatingCodes ? t("security.generating") : t("security.generate")}
+                  </button>
+                ) : null}
+              </section>
+            ) : null}
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("security.password")}</h2>
+              <Link href="/reset-password" className="text-sm font-medium text-slate-700 dark:text-slate-300 hover:underline">
+                {t("security.changePassword")}
+              </Link>
+            </section>
+
+            {nextParam && hasFactor && isVerified ? (
+              <Link
+                href={nextPath}
+                className="inline-block px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium"
+              >
+                {t("security.continue")}
+              </Link>
+            ) : null}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
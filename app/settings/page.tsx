@@ -0,0 +1,489 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import Link from "next/link";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { signOutUser } from "@/lib/auth";
+import { useAuth, useTranslation } from "@/app/providers";
+import {
+  alertTypeOptions,
+  browserTimeZone,
+  getProfile,
+  getUserSettings,
+  saveUserSettings,
+  updateDisplayName,
+  type Profile,
+  type UserSettings,
+} from "@/lib/settings";
+import { severityLabel } from "@/lib/eventTypes";
+import { formatEventType } from "@/lib/alerts";
+import { isLocale, localeNames, locales, type MessageKey } from "@/lib/i18n";
+import { listResidents, updateResident, type Resident } from "@/lib/residents";
+import { listMemberships, type HouseholdRole } from "@/lib/households";
+import { listRobots, robotConnection, type RobotConnection, type RobotStatus } from "@/lib/robots";
+import PushNotificationsToggle from "@/components/PushNotificationsToggle";
+
+const inputClass = "border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-800";
+const saveButtonClass =
+  "px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium disabled:opacity-50";
+const connectionLabels: Record<RobotConnection, MessageKey> = {
+  online: "robot.online",
+  offline: "robot.offline",
+  never: "robot.notConnected",
+};
+
+// "22:00:00" from Postgres as the "22:00" a time input expects
+function toTimeInput(value: string | null): string {
+  return value ? value.slice(0, 5) : "";
+}
+
+function ResidentDetails({
+  resident,
+  robots,
+  canEdit,
+  onSaved,
+}: {
+  resident: Resident;
+  robots: RobotStatus[];
+  canEdit: boolean;
+  onSaved: (resident: Resident) => void;
+}) {
+  const supabase = getBrowserSupabaseClient();
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(resident.name);
+  const [address, setAddress] = useState(resident.address ?? "");
+  const [timeZone, setTimeZone] = useState(resident.time_zone);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      onSaved(
+        await updateResident(supabase, resident.id, {
+          name: name.trim(),
+          address: address.trim() || null,
+          time_zone: timeZone.trim(),
+        })
+      );
+      setEditing(false);
+    } catch (err: any) {
+      setError(err?.message ?? t("settings.saveResidentFailed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <li className="p-4 space-y-3">
+      {editing ? (
+        <form onSubmit={onSubmit} className="grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col gap-1 text-sm text-slate-700 dark:text-slate-300">
+            {t("settings.name")}
+            <input value={name} onChange={e => setName(e.target.value)} className={inputClass} required />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-700 dark:text-slate-300">
+            {t("settings.timeZone")}
+            <input
+              value={timeZone}
+              onChange={e => setTimeZone(e.target.value)}
+              list="time-zones"
+              className={inputClass}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-slate-700 dark:text-slate-300 sm:col-span-2">
+            {t("settings.address")}
+            <input value={address} onChange={e => setAddress(e.target.value)} className={inputClass} />
+          </label>
+          {error ? <p className="text-sm text-red-700 dark:text-red-300 sm:col-span-2">{error}</p> : null}
+          <div className="flex gap-2 sm:col-span-2">
+            <button type="submit" disabled={saving} className={saveButtonClass}>
+              {saving ? t("common.saving") : t("common.save")}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+            >
+              {t("common.cancel")}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-slate-900 dark:text-white">{resident.name}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {resident.household?.name ?? t("settings.household")} · {resident.time_zone}
+              {resident.address ? ` · ${resident.address}` : ""}
+            </p>
+          </div>
+          {canEdit ? (
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              className="px-3 py-1 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+            >
+              {t("settings.edit")}
+            </button>
+          ) : null}
+        </div>
+      )}
+      {robots.length > 0 ? (
+        <ul className="space-y-1">
+          {robots.map(robot => (
+            <li key={robot.id} className="text-xs text-slate-600 dark:text-slate-400">
+              <span className="font-medium text-slate-700 dark:text-slate-300">{robot.name}</span>
+              {" · "}
+              {t(connectionLabels[robotConnection(robot, Date.now())])}
+              {robot.battery_percent !== null
+                ? ` · ${t("settings.robotBattery", { percent: robot.battery_percent })}${robot.charging ? t("settings.robotCharging") : ""}`
+                : ""}
+              {robot.firmware_version ? ` · ${t("settings.robotFirmware", { version: robot.firmware_version })}` : ""}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-500 dark:text-slate-400">{t("settings.noRobot")}</p>
+      )}
+      <Link
+        href={`/check-ins?resident=${resident.id}`}
+        className="inline-block text-xs font-medium text-slate-600 dark:text-slate-400 hover:underline"
+      >
+        {t("settings.checkIns")}
+      </Link>
+    </li>
+  );
+}
+
+// Everything behind the header's "Menu": the user's profile and language, how
+// and when they're notified, which event types they see, and the people and
+// robots they look after.
+export default function SettingsPage() {
+  const { user } = useAuth();
+  const { locale, t, setLocale } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [displayName, setDisplayName] = useState("");
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [quietHoursOn, setQuietHoursOn] = useState(false);
+  const [quietStart, setQuietStart] = useState("22:00");
+  const [quietEnd, setQuietEnd] = useState("07:00");
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [robots, setRobots] = useState<RobotStatus[]>([]);
+  const [roleByHouseholdId, setRoleByHouseholdId] = useState<Record<string, HouseholdRole>>({});
+  const [timeZones, setTimeZones] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState<"profile" | "language" | "notifications" | "alert-types" | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+    Promise.all([
+      getProfile(supabase, user.id),
+      getUserSettings(supabase, user.id),
+      listResidents(supabase),
+      listRobots(supabase),
+      listMemberships(supabase, user.id),
+    ])
+      .then(([loadedProfile, loadedSettings, loadedResidents, loadedRobots, memberships]) => {
+        if (!isMounted) return;
+        setProfile(loadedProfile);
+        setDisplayName(loadedProfile?.display_name ?? "");
+        setSettings(loadedSettings);
+        setQuietHoursOn(loadedSettings.quiet_hours_start !== null);
+        if (loadedSettings.quiet_hours_start) setQuietStart(toTimeInput(loadedSettings.quiet_hours_start));
+        if (loadedSettings.quiet_hours_end) setQuietEnd(toTimeInput(loadedSettings.quiet_hours_end));
+        setResidents(loadedResidents);
+        setRobots(loadedRobots);
+        setRoleByHouseholdId(Object.fromEntries(memberships.map(m => [m.household.id, m.role])));
+      })
+      .catch((err: any) => {
+        if (isMounted) setError(err?.message ?? t("settings.loadFailed"));
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [user, supabase]);
+
+  useEffect(() => {
+    setTimeZones(Intl.supportedValuesOf?.("timeZone") ?? []);
+  }, []);
+
+  useEffect(() => {
+    if (!savedMessage) return;
+    const timeoutId = setTimeout(() => setSavedMessage(null), 3000);
+    return () => clearTimeout(timeoutId);
+  }, [savedMessage]);
+
+  async function save(section: "profile" | "language" | "notifications" | "alert-types", action: () => Promise<void>) {
+    setError(null);
+    setSaving(section);
+    try {
+      await action();
+      setSavedMessage(t("settings.saved"));
+    } catch (err: any) {
+      setError(err?.message ?? t("settings.saveFailed"));
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  function onSaveProfile(e: FormEvent) {
+    e.preventDefault();
+    if (!user) return;
+    save("profile", async () => setProfile(await updateDisplayName(supabase, user.id, displayName)));
+  }
+
+  function changeLanguage(value: string) {
+    if (isLocale(value)) save("language", () => setLocale(value));
+  }
+
+  function onSaveNotifications(e: FormEvent) {
+    e.preventDefault();
+    if (!user || !settings) return;
+    save("notifications", async () =>
+      setSettings(
+        await saveUserSettings(supabase, user.id, {
+          push_enabled: settings.push_enabled,
+          email_enabled: settings.email_enabled,
+          quiet_hours_start: quietHoursOn ? quietStart : null,
+          quiet_hours_end: quietHoursOn ? quietEnd : null,
+          // Quiet hours follow wherever the user last saved them from
+          time_zone: browserTimeZone(),
+        })
+      )
+    );
+  }
+
+  function toggleAlertType(types: string[], muted: boolean) {
+    if (!user || !settings) return;
+    const muted_event_types = muted
+      ? [...new Set([...settings.muted_event_types, ...types])]
+      : settings.muted_event_types.filter(type => !types.includes(type));
+    setSettings({ ...settings, muted_event_types });
+    save("alert-types", async () => setSettings(await saveUserSettings(supabase, user.id, { muted_event_types })));
+  }
+
+  async function signOut() {
+    await signOutUser(supabase);
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link href="/" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+            {t("common.backToDashboard")}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{t("settings.title")}</h1>
+        </div>
+
+        {!user ? (
+          <p className="text-slate-600 dark:text-slate-400">
+            {t("common.please")}{" "}
+            <Link href="/login?next=/settings" className="underline">
+              {t("common.logIn")}
+            </Link>{" "}
+            {t("settings.loginPrompt")}
+          </p>
+        ) : (
+          <>
+            {error ? (
+              <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+              </div>
+            ) : null}
+            {savedMessage ? (
+              <div
+                role="status"
+                className="fixed bottom-4 right-4 rounded-lg bg-slate-900 dark:bg-white px-4 py-2 text-sm font-medium text-white dark:text-slate-900 shadow-lg"
+              >
+                {savedMessage}
+              </div>
+            ) : null}
+
+            <section id="profile" className="space-y-3 scroll-mt-8">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("settings.profile")}</h2>
+              <form
+                onSubmit={onSaveProfile}
+                className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-3"
+              >
+                <label className="flex flex-col gap-1 text-sm text-slate-700 dark:text-slate-300">
+                  {t("settings.displayName")}
+                  <input
+                    value={displayName}
+                    onChange={e => setDisplayName(e.target.value)}
+                    placeholder={profile?.email ?? user.email ?? ""}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-slate-700 dark:text-slate-300">
+                  {t("settings.language")}
+                  <select
+                    value={locale}
+                    onChange={e => changeLanguage(e.target.value)}
+                    disabled={saving === "language"}
+                    className={inputClass}
+                  >
+                    {locales.map(option => (
+                      <option key={option} value={option}>
+                        {localeNames[option]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {t("settings.email", { email: profile?.email ?? user.email ?? "" })}
+                </p>
+                <div className="flex flex-wrap items-center gap-4">
+                  <button type="submit" disabled={saving === "profile" || profile === null} className={saveButtonClass}>
+                    {saving === "profile" ? t("common.saving") : t("settings.saveProfile")}
+                  </button>
+                  <Link href="/security" className="text-sm font-medium text-slate-700 dark:text-slate-300 hover:underline">
+                    {t("settings.security")}
+                  </Link>
+                </div>
+              </form>
+            </section>
+
+            <section id="notifications" className="space-y-3 scroll-mt-8">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("settings.notifications")}</h2>
+              <PushNotificationsToggle />
+              {settings === null ? (
+                <div className="h-32 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+              ) : (
+                <form
+                  onSubmit={onSaveNotifications}
+                  className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 space-y-4"
+                >
+                  <fieldset className="space-y-2">
+                    <legend className="text-sm font-semibold text-slate-900 dark:text-white">{t("settings.channels")}</legend>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={settings.push_enabled}
+                        onChange={e => setSettings({ ...settings, push_enabled: e.target.checked })}
+                      />
+                      {t("settings.pushChannel")}
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={settings.email_enabled}
+                        onChange={e => setSettings({ ...settings, email_enabled: e.target.checked })}
+                      />
+                      {t("settings.emailChannel", { email: profile?.email ?? user.email ?? "" })}
+                    </label>
+                  </fieldset>
+                  <fieldset className="space-y-2">
+                    <legend className="text-sm font-semibold text-slate-900 dark:text-white">{t("settings.quietHours")}</legend>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input type="checkbox" checked={quietHoursOn} onChange={e => setQuietHoursOn(e.target.checked)} />
+                      {t("settings.quietHoursToggle")}
+                    </label>
+                    {quietHoursOn ? (
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        {t("settings.quietFrom")}
+                        <input type="time" value={quietStart} onChange={e => setQuietStart(e.target.value)} className={inputClass} required />
+                        {t("settings.quietTo")}
+                        <input type="time" value={quietEnd} onChange={e => setQuietEnd(e.target.value)} className={inputClass} required />
+                        <span className="text-xs text-slate-500 dark:text-slate-400">({browserTimeZone()})</span>
+                      </div>
+                    ) : null}
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {t("settings.quietHoursNote")}
+                    </p>
+                  </fieldset>
+                  <button type="submit" disabled={saving === "notifications"} className={saveButtonClass}>
+                    {saving === "notifications" ? t("common.saving") : t("settings.saveNotifications")}
+                  </button>
+                </form>
+              )}
+            </section>
+
+            <section id="alert-types" className="space-y-3 scroll-mt-8">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("settings.alertTypes")}</h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {t("settings.alertTypesNote")}
+              </p>
+              {settings === null ? (
+                <div className="h-32 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+              ) : (
+                <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                  {alertTypeOptions.map(option => {
+                    const muted = option.types.every(type => settings.muted_event_types.includes(type));
+                    return (
+                      <li key={option.label} className="p-4">
+                        <label className="flex items-center justify-between gap-4 text-sm text-slate-700 dark:text-slate-300">
+                          <span>
+                            <span className="font-medium text-slate-900 dark:text-white">
+                              {formatEventType(option.types[0], locale)}
+                            </span>
+                            <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                              {severityLabel(option.severity, locale)}
+                            </span>
+                          </span>
+                          <input
+                            type="checkbox"
+                            checked={!muted}
+                            disabled={saving === "alert-types"}
+                            onChange={e => toggleAlertType(option.types, !e.target.checked)}
+                          />
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+
+            <section id="residents" className="space-y-3 scroll-mt-8">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("settings.residents")}</h2>
+              {residents.length === 0 ? (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("settings.noResidents")}</p>
+              ) : (
+                <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                  {residents.map(resident => (
+                    <ResidentDetails
+                      key={resident.id}
+                      resident={resident}
+                      robots={robots.filter(robot => robot.resident_id === resident.id)}
+                      canEdit={roleByHouseholdId[resident.household_id] === "owner"}
+                      onSaved={saved => setResidents(prev => prev.map(r => (r.id === saved.id ? saved : r)))}
+                    />
+                  ))}
+                </ul>
+              )}
+              <datalist id="time-zones">
+                {timeZones.map(zone => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+              <Link href="/members" className="inline-block text-sm font-medium text-slate-700 dark:text-slate-300 hover:underline">
+                {t("settings.manageCaregivers")}
+              </Link>
+            </section>
+
+            <section id="sign-out" className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("settings.signOut")}</h2>
+              <button
+                type="button"
+                onClick={signOut}
+                className="px-4 py-2 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 font-medium hover:bg-red-50 dark:hover:bg-red-900/30"
+              >
+                {t("settings.signOutButton")}
+              </button>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { FormEvent, Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getBrowserSupabaseClient } from '@/lib/supabaseClient';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth, useTranslation } from '@/app/providers';
+import { authCallbackUrl, minPasswordLength, safeNextPath, withNext } from '@/lib/auth';
+import OAuthButtons from '@/components/OAuthButtons';
+
+export default function SignUpPage() {
+  return (
+    <Suspense>
+      <SignUpForm />
+    </Suspense>
+  );
+}
+
+function SignUpForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const supabase = getBrowserSupabaseClient();
+
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      router.replace(nextPath);
+    }
+  }, [user, router, nextPath]);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (password.length < minPasswordLength) {
+      setError(t('auth.passwordTooShort', { count: minPasswordLength }));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t('auth.passwordMismatch'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error: signUpError } = await supabase.auth.signUp({
+        email,
+        password,
+        options: {
+          emailRedirectTo: authCallbackUrl(nextPath),
+          data: { display_name: displayName.trim() || null },
+        },
+      });
+      if (signUpError) throw signUpError;
+      // With email confirmation enabled there is no session until the link is opened
+      if (data.session) {
+        router.replace(nextPath);
+      } else {
+        setSentTo(email);
+      }
+    } catch (err: any) {
+      setError(err?.message ?? t('signup.failed'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="w-full max-w-sm space-y-4">
+          <h1 className="text-2xl font-semibold">{t('signup.checkEmail')}</h1>
+          <p className="text-sm text-slate-600">{t('signup.confirmationSent', { email: sentTo })}</p>
+          <Link href={withNext('/login', nextPath)} className="text-sm underline">
+            {t('auth.backToLogin')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4">
+        <form onSubmit={onSubmit} className="space-y-4">
+          <h1 className="text-2xl font-semibold">{t('auth.createAccount')}</h1>
+          <input
+            type="text"
+            placeholder={t('signup.name')}
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className="w-full border rounded px-3 py-2"
+            autoComplete="name"
+          />
+          <input
+            type="email"
+            placeholder={t('auth.email')}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full border rounded px-3 py-2"
+            autoComplete="email"
+            required
+          />
+          <input
+            type="password"
+            placeholder={t('auth.password')}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full border rounded px-3 py-2"
+            autoComplete="new-password"
+            required
+          />
+          <input
+            type="password"
+            placeholder={t('auth.confirmPassword')}
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="w-full border rounded px-3 py-2"
+            autoComplete="new-password"
+            required
+          />
+          {error ? <p className="text-red-600 text-sm">{error}</p> : null}
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-3 py-2 rounded bg-black text-white disabled:opacity-50"
+          >
+            {loading ? t('signup.creating') : t('signup.submit')}
+          </button>
+        </form>
+        <OAuthButtons next={nextPath} />
+        <p className="text-sm text-slate-600">
+          {t('signup.haveAccount')}{' '}
+          <Link href={withNext('/login', nextPath)} className="underline">
+            {t('signup.logIn')}
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
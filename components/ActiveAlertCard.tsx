@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  actorName,
+  alertPath,
+  alertStatusLabel,
+  currentClaim,
+  formatEventType,
+  statusForOutcome,
+  type AlertOutcome,
+  type AlertResolution,
+  type AlertStatus,
+  type AlertWithEvent,
+} from "@/lib/alerts";
+import type { EventMediaState } from "@/lib/media";
+import type { EscalationProgress } from "@/lib/escalations";
+import type { RobotStatus } from "@/lib/robots";
+import { eventTypeInfo, severityLabel } from "@/lib/eventTypes";
+import type { MessageKey } from "@/lib/i18n";
+import { useTranslation } from "@/app/providers";
+import EventMediaGallery from "@/components/EventMediaGallery";
+import AlertTimeline from "@/components/AlertTimeline";
+import CloseAlertForm from "@/components/CloseAlertForm";
+import EscalationStatus from "@/components/EscalationStatus";
+import EventTypeIcon, { eventTypeColorClasses } from "@/components/EventTypeIcon";
+import RobotCommands from "@/components/RobotCommands";
+import Timestamp from "@/components/Timestamp";
+
+const pendingLabels: Partial<Record<AlertStatus, MessageKey>> = {
+  acknowledged: "alert.claiming",
+  resolved: "alert.resolving",
+  false_alarm: "alert.savingFalseAlarm",
+};
+
+function ActionButton({
+  label,
+  status,
+  pendingStatus,
+  primary = false,
+  focused = false,
+  onClick,
+}: {
+  label: string;
+  status: AlertStatus;
+  pendingStatus: AlertStatus | null;
+  primary?: boolean;
+  focused?: boolean;
+  onClick: (status: AlertStatus) => void;
+}) {
+  const { t } = useTranslation();
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (focused) buttonRef.current?.focus();
+  }, [focused]);
+
+  const isPending = pendingStatus === status;
+  const pendingLabel = pendingLabels[status];
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={() => onClick(status)}
+      disabled={pendingStatus !== null}
+      className={
+        primary
+          ? "px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium hover:bg-slate-800 dark:hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          : "px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+      }
+    >
+      {isPending ? (
+        <div className="flex items-center gap-2">
+          <div className="h-4 w-4 border-2 border-slate-300 border-t-slate-600 rounded-full animate-spin"></div>
+          <span>{pendingLabel ? t(pendingLabel) : label}</span>
+        </div>
+      ) : (
+        label
+      )}
+    </button>
+  );
+}
+
+export default function ActiveAlertCard({
+  alert: a,
+  mediaState,
+  currentUserId,
+  pendingStatus,
+  canRespond,
+  escalation = null,
+  robot = null,
+  timeZone = null,
+  highlighted = false,
+  focusClaim = false,
+  onChangeStatus,
+}: {
+  alert: AlertWithEvent;
+  mediaState: EventMediaState | undefined;
+  currentUserId: string;
+  pendingStatus: AlertStatus | null;
+  canRespond: boolean;
+  escalation?: EscalationProgress | null;
+  robot?: RobotStatus | null;
+  // The resident's, so times read the way the family talks about them
+  timeZone?: string | null;
+  highlighted?: boolean;
+  // Focuses "I'm on it" for a notification's Acknowledge action; claiming
+  // still takes a click
+  focusClaim?: boolean;
+  onChangeStatus: (alertId: string, status: AlertStatus, resolution?: AlertResolution) => Promise<void>;
+}) {
+  const { locale, t } = useTranslation();
+  const [showTimeline, setShowTimeline] = useState(false);
+  // undefined: form hidden; null: form open without a preselected outcome
+  const [closingOutcome, setClosingOutcome] = useState<AlertOutcome | null | undefined>(undefined);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const claim = currentClaim(a);
+  const eventType = eventTypeInfo(a.event?.type);
+  const colors = eventTypeColorClasses[eventType.color];
+  const claimedBySomeoneElse = !!claim && claim.actor_id !== currentUserId;
+
+  async function onAction(status: AlertStatus) {
+    if (status === "resolved" || status === "false_alarm") {
+      setClosingOutcome(status === "false_alarm" ? "false_alarm" : null);
+      return;
+    }
+    setActionError(null);
+    try {
+      await onChangeStatus(a.id, status);
+    } catch (err: any) {
+      setActionError(err?.message ?? t("alert.updateFailed"));
+    }
+  }
+
+  async function onClose(resolution: AlertResolution) {
+    await onChangeStatus(a.id, statusForOutcome(resolution.outcome), resolution);
+    setClosingOutcome(undefined);
+  }
+
+  return (
+    <div
+      id={`alert-${a.id}`}
+      className={`group rounded-2xl border ${colors.border} bg-white dark:bg-slate-800 shadow-sm hover:shadow-lg transition-all duration-300 scroll-mt-24 ${
+        highlighted ? "ring-4 ring-red-300 dark:ring-red-700" : ""
+      }`}
+    >
+      <div className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-2">
+              <div className={`h-2 w-2 rounded-full ${colors.dot} ${eventType.severity === "critical" ? "animate-pulse" : ""}`}></div>
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-white">{formatEventType(a.event?.type, locale)}</h3>
+            </div>
+            <div className="flex items-center gap-4 mb-3">
+              <div className="flex items-center gap-1 text-slate-600 dark:text-slate-400">
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <Timestamp value={a.created_at} timeZone={timeZone} relative className="text-sm" />
+              </div>
+            </div>
+            <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border ${colors.badge}`}>
+              <EventTypeIcon icon={eventType.icon} className="h-3.5 w-3.5" />
+              <span className="text-sm font-medium">{severityLabel(eventType.severity, locale)}</span>
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <span
+              className={`px-3 py-1 rounded-lg border text-sm font-medium ${
+                a.status === "acknowledged"
+                  ? "border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                  : "border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-400"
+              }`}
+            >
+              {alertStatusLabel(a.status, locale)}
+            </span>
+            {canRespond ? (
+              <div className="flex flex-wrap justify-end gap-2">
+                {a.status === "new" ? (
+                  <ActionButton
+                    label={t("alert.imOnIt")}
+                    status="acknowledged"
+                    pendingStatus={pendingStatus}
+                    primary
+                    focused={focusClaim}
+                    onClick={onAction}
+                  />
+                ) : null}
+                <ActionButton label={t("alert.resolve")} status="resolved" pendingStatus={pendingStatus} onClick={onAction} />
+                <ActionButton label={t("alert.falseAlarm")} status="false_alarm" pendingStatus={pendingStatus} onClick={onAction} />
+              </div>
+            ) : null}
+          </div>
+        </div>
+
+        {actionError ? <p className="mb-4 text-sm text-red-600 dark:text-red-400">{actionError}</p> : null}
+
+        {closingOutcome !== undefined ? (
+          <div className="mb-4">
+            <CloseAlertForm
+              alertId={a.id}
+              initialOutcome={closingOutcome}
+              onSubmit={onClose}
+              onCancel={() => setClosingOutcome(undefined)}
+            />
+          </div>
+        ) : null}
+
+        {claim ? (
+          <div
+            className={`mb-4 rounded-xl border p-3 flex items-center gap-2 ${
+              claimedBySomeoneElse
+                ? "border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30"
+                : "border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/30"
+            }`}
+          >
+            <div className={`h-2 w-2 rounded-full ${claimedBySomeoneElse ? "bg-amber-500" : "bg-green-500"}`}></div>
+            <p className="text-sm text-slate-700 dark:text-slate-200">
+              <span className="font-semibold">{actorName(claim, currentUserId, locale)}</span>
+              {claimedBySomeoneElse ? t("alert.isOnIt") : t("alert.claimedIt")}
+              <span className="text-slate-500 dark:text-slate-400">
+                {" · "}
+                <Timestamp value={claim.created_at} timeZone={timeZone} style="time" />
+              </span>
+            </p>
+          </div>
+        ) : null}
+
+        {escalation && a.status === "new" ? <EscalationStatus progress={escalation} timeZone={timeZone} /> : null}
+
+        {canRespond && robot ? (
+          <div className="mb-4 rounded-xl border border-slate-200 dark:border-slate-700 p-3">
+            <p className="mb-2 text-sm font-semibold text-slate-800 dark:text-slate-100">{t("alert.reachThrough", { robot: robot.name })}</p>
+            <RobotCommands robot={robot} alertId={a.id} timeZone={timeZone} />
+          </div>
+        ) : null}
+
+        {mediaState ? <EventMediaGallery eventId={a.trigger_event} state={mediaState} detectedAt={a.event?.created_at} timeZone={timeZone} /> : null}
+
+        <div className="mt-4">
+          <div className="flex items-center gap-4">
+            <button
+              type="button"
+              onClick={() => setShowTimeline(prev => !prev)}
+              className="text-sm font-medium text-slate-600 dark:text-slate-400 hover:underline"
+            >
+              {showTimeline
+                ? t("alert.hideTimeline")
+                : t("alert.showTimeline", { count: a.transitions.length + a.escalations.length + 1 })}
+            </button>
+            <Link href={alertPath(a.id)} className="text-sm font-medium text-slate-600 dark:text-slate-400 hover:underline">
+              {t("alert.openPage")}
+            </Link>
+          </div>
+          {showTimeline ? (
+            <div className="mt-3">
+              <AlertTimeline alert={a} currentUserId={currentUserId} timeZone={timeZone} />
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
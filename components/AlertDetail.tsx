@@ -0,0 +1,408 @@
+"use client";
+
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import Link from "next/link";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useAuth, useTranslation } from "@/app/providers";
+import {
+  actorName,
+  alertStatusLabel,
+  currentClaim,
+  formatEventType,
+  getAlert,
+  isPastAlert,
+  statusForOutcome,
+  updateAlertStatus,
+  type AlertOutcome,
+  type AlertResolution,
+  type AlertStatus,
+  type AlertWithEvent,
+} from "@/lib/alerts";
+import { needsRefresh, signedUrlRefreshMarginMs, signEventMedia, type EventMediaState } from "@/lib/media";
+import { canRespond, listMemberships, type HouseholdRole } from "@/lib/households";
+import { listResidents, type Resident } from "@/lib/residents";
+import { listRobots, type RobotStatus } from "@/lib/robots";
+import { escalationProgress, listEscalationSteps, type EscalationStep } from "@/lib/escalations";
+import { eventTypeInfo, severityLabel } from "@/lib/eventTypes";
+import EventMediaGallery from "@/components/EventMediaGallery";
+import AlertTimeline from "@/components/AlertTimeline";
+import AlertResolutionDetails from "@/components/AlertResolutionDetails";
+import CloseAlertForm from "@/components/CloseAlertForm";
+import EscalationStatus from "@/components/EscalationStatus";
+import RobotCommands from "@/components/RobotCommands";
+import AlertUnavailable from "@/components/AlertUnavailable";
+import EventTypeIcon, { eventTypeColorClasses } from "@/components/EventTypeIcon";
+import Timestamp from "@/components/Timestamp";
+
+function Detail({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs text-slate-500 dark:text-slate-400">{label}</dt>
+      <dd className="text-sm text-slate-800 dark:text-slate-100">{children}</dd>
+    </div>
+  );
+}
+
+// One alert on its own page: everything the dashboard card shows, plus the
+// full metadata and timeline. Kept live over Realtime like the dashboard.
+export default function AlertDetail({
+  alertId,
+  initialAlert,
+}: {
+  alertId: string;
+  initialAlert: AlertWithEvent | null;
+}) {
+  const { user } = useAuth();
+  const { locale, t } = useTranslation();
+  const userId = user?.id;
+  const supabase = getBrowserSupabaseClient();
+
+  const [alert, setAlert] = useState<AlertWithEvent | null>(initialAlert);
+  const [loading, setLoading] = useState(initialAlert === null);
+  const [missing, setMissing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resident, setResident] = useState<Resident | null>(null);
+  const [role, setRole] = useState<HouseholdRole | null>(null);
+  const [robots, setRobots] = useState<RobotStatus[]>([]);
+  const [escalationSteps, setEscalationSteps] = useState<EscalationStep[]>([]);
+  const [mediaState, setMediaState] = useState<EventMediaState | undefined>(undefined);
+  const [pendingStatus, setPendingStatus] = useState<AlertStatus | null>(null);
+  // undefined: form hidden; null: form open without a preselected outcome
+  const [closingOutcome, setClosingOutcome] = useState<AlertOutcome | null | undefined>(undefined);
+  const focusClaimRef = useRef(false);
+  const claimButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let isMounted = true;
+
+    function refresh() {
+      getAlert(supabase, alertId)
+        .then(loaded => {
+          if (!isMounted) return;
+          if (loaded) setAlert(loaded);
+          setMissing(!loaded);
+          setError(null);
+        })
+        .catch((err: any) => {
+          if (isMounted) setError(err?.message ?? t("alertPage.loadFailed"));
+        })
+        .finally(() => {
+          if (isMounted) setLoading(false);
+        });
+    }
+
+    const channel = supabase
+      .channel(`alert:${alertId}`)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "alerts", filter: `id=eq.${alertId}` }, refresh)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "alert_transitions", filter: `alert_id=eq.${alertId}` },
+        refresh
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "alert_escalations", filter: `alert_id=eq.${alertId}` },
+        refresh
+      )
+      .subscribe(status => {
+        // Catch up on anything that changed before the channel was ready
+        if (status === "SUBSCRIBED") refresh();
+      });
+
+    return () => {
+      isMounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [alertId, userId, supabase]);
+
+  // Notification taps with the "Acknowledge" action arrive with
+  // ?action=acknowledge, which focuses "I'm on it". Opening a link never
+  // claims the alert by itself, since link previews open them too. Read once,
+  // then drop it from the address bar.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("action") !== "acknowledge") return;
+    focusClaimRef.current = true;
+    window.history.replaceState(null, "", window.location.pathname);
+  }, []);
+
+  const residentId = alert?.resident_id ?? null;
+
+  useEffect(() => {
+    if (!userId || !residentId) return;
+    let isMounted = true;
+    Promise.all([listResidents(supabase), listMemberships(supabase, userId), listRobots(supabase)])
+      .then(async ([residents, memberships, loadedRobots]) => {
+        const found = residents.find(r => r.id === residentId) ?? null;
+        const steps = found ? await listEscalationSteps(supabase, found.household_id) : [];
+        if (!isMounted) return;
+        setResident(found);
+        setRole(found ? (memberships.find(m => m.household.id === found.household_id)?.role ?? null) : null);
+        setRobots(loadedRobots.filter(r => r.resident_id === residentId));
+        setEscalationSteps(steps);
+      })
+      .catch(() => {
+        // The alert itself is still shown without its resident's details
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [residentId, userId, supabase]);
+
+  // Signed again when more footage arrives and shortly before the URLs expire
+  const event = alert?.event ?? null;
+  const mediaKey = event ? `${event.id}:${event.media.length}` : null;
+
+  useEffect(() => {
+    if (!event) return;
+    let isMounted = true;
+    signEventMedia(supabase, event.media)
+      .then(result => {
+        if (isMounted) setMediaState(result);
+      })
+      .catch((err: any) => {
+        if (isMounted) setMediaState({ status: "error", message: err?.message ?? t("dashboard.loadMediaFailed") });
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [mediaKey, supabase]);
+
+  useEffect(() => {
+    if (!event || mediaState?.status !== "ready" || mediaState.items.length === 0) return;
+    const media = event.media;
+    function resign() {
+      signEventMedia(supabase, media).then(setMediaState).catch(() => {});
+    }
+    const delay = Math.max(0, mediaState.expiresAt - signedUrlRefreshMarginMs - Date.now());
+    const timeoutId = setTimeout(resign, delay);
+    function onVisibilityChange() {
+      if (document.visibilityState === "visible" && needsRefresh(mediaState)) resign();
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      clearTimeout(timeoutId);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [mediaState, supabase]);
+
+  const canAct = !!alert && (alert.resident_id ? !!resident && canRespond(role) : alert.user_id === userId);
+
+  async function changeStatus(status: AlertStatus, resolution?: AlertResolution) {
+    if (!alert) return;
+    setError(null);
+    setPendingStatus(status);
+    try {
+      await updateAlertStatus(supabase, alert.id, status, resolution);
+      // Optimistically apply the change; the realtime update fills in the timeline
+      setAlert(prev => (prev ? { ...prev, status } : prev));
+    } finally {
+      setPendingStatus(null);
+    }
+  }
+
+  useEffect(() => {
+    if (!focusClaimRef.current || !alert || !canAct) return;
+    focusClaimRef.current = false;
+    claimButtonRef.current?.focus();
+  }, [alert, canAct]);
+
+  function onAction(status: AlertStatus) {
+    if (status === "resolved" || status === "false_alarm") {
+      setClosingOutcome(status === "false_alarm" ? "false_alarm" : null);
+      return;
+    }
+    changeStatus(status).catch((err: any) => setError(err?.message ?? t("alert.updateFailed")));
+  }
+
+  async function onClose(resolution: AlertResolution) {
+    await changeStatus(statusForOutcome(resolution.outcome), resolution);
+    setClosingOutcome(undefined);
+  }
+
+  const eventType = eventTypeInfo(event?.type);
+  const eventTypeLabel = formatEventType(event?.type, locale);
+  const colors = eventTypeColorClasses[eventType.color];
+  const timeZone = resident?.time_zone ?? null;
+  const closed = alert ? isPastAlert(alert) : false;
+  const claim = alert ? currentClaim(alert) : null;
+  const escalation = alert && escalationSteps.length > 0 ? escalationProgress(alert, escalationSteps) : null;
+  const robot = (event?.robot_id ? robots.find(r => r.id === event.robot_id) : undefined) ?? robots[0] ?? null;
+  const buttonClass =
+    "px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+  const primaryButtonClass =
+    "px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium hover:bg-slate-800 dark:hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link href="/" className="text-sm text-slate-600 dark:text-slate-400 hover:underline">
+          {t("common.backToDashboard")}
+        </Link>
+
+        {error ? (
+          <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+            <p className="text-red-700 dark:text-red-300 font-medium">{error}</p>
+          </div>
+        ) : null}
+
+        {loading ? (
+          <div className="h-40 rounded-2xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+        ) : missing || !alert ? (
+          error ? null : <AlertUnavailable />
+        ) : (
+          <>
+            <section className={`rounded-2xl border ${colors.border} bg-white dark:bg-slate-800 shadow-sm p-6 space-y-4`}>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border text-sm font-medium ${colors.badge}`}>
+                    <EventTypeIcon icon={eventType.icon} className="h-3.5 w-3.5" />
+                    {severityLabel(eventType.severity, locale)}
+                  </div>
+                  <h1 className="mt-2 text-3xl font-bold text-slate-900 dark:text-white">{eventTypeLabel}</h1>
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    {resident ? `${resident.name} · ` : ""}
+                    <Timestamp value={alert.created_at} timeZone={timeZone} relative />
+                  </p>
+                </div>
+                <span
+                  className={`px-3 py-1 rounded-lg border text-sm font-medium ${
+                    alert.status === "acknowledged"
+                      ? "border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                      : "border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-400"
+                  }`}
+                >
+                  {alertStatusLabel(alert.status, locale)}
+                </span>
+              </div>
+
+              {claim ? (
+                <p className="text-sm text-slate-700 dark:text-slate-200">
+                  <span className="font-semibold">{actorName(claim, userId, locale)}</span>
+                  {claim.actor_id === userId ? t("alert.claimedIt") : t("alert.isOnIt")}
+                  <span className="text-slate-500 dark:text-slate-400">
+                    {" · "}
+                    <Timestamp value={claim.created_at} timeZone={timeZone} style="time" />
+                  </span>
+                </p>
+              ) : null}
+
+              {canAct && !closed ? (
+                <div className="flex flex-wrap gap-2">
+                  {alert.status === "new" ? (
+                    <button
+                      ref={claimButtonRef}
+                      type="button"
+                      onClick={() => onAction("acknowledged")}
+                      disabled={pendingStatus !== null}
+                      className={primaryButtonClass}
+                    >
+                      {pendingStatus === "acknowledged" ? t("alert.claiming") : t("alert.imOnIt")}
+                    </button>
+                  ) : null}
+                  <button type="button" onClick={() => onAction("resolved")} disabled={pendingStatus !== null} className={buttonClass}>
+                    {t("alert.resolve")}
+                  </button>
+                  <button type="button" onClick={() => onAction("false_alarm")} disabled={pendingStatus !== null} className={buttonClass}>
+                    {t("alert.falseAlarm")}
+                  </button>
+                </div>
+              ) : !canAct && !closed ? (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("alert.cannotRespond")}</p>
+              ) : null}
+
+              {closingOutcome !== undefined ? (
+                <CloseAlertForm
+                  alertId={alert.id}
+                  initialOutcome={closingOutcome}
+                  onSubmit={onClose}
+                  onCancel={() => setClosingOutcome(undefined)}
+                />
+              ) : null}
+
+              {escalation && alert.status === "new" ? <EscalationStatus progress={escalation} timeZone={timeZone} /> : null}
+            </section>
+
+            {canAct && !closed && robot ? (
+              <section className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-6 space-y-3">
+                <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("alert.reachThrough", { robot: robot.name })}</h2>
+                <RobotCommands robot={robot} alertId={alert.id} timeZone={timeZone} />
+              </section>
+            ) : null}
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("alertPage.media")}</h2>
+              {!event || event.media.length === 0 ? (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t("alertPage.noFootage")}</p>
+              ) : mediaState ? (
+                <EventMediaGallery eventId={alert.trigger_event} state={mediaState} detectedAt={alert.event?.created_at} timeZone={timeZone} />
+              ) : (
+                <div className="h-48 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" aria-hidden></div>
+              )}
+            </section>
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("alertPage.details")}</h2>
+              <dl className="grid gap-4 sm:grid-cols-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+                <Detail label={t("alertPage.event")}>
+                  {eventTypeLabel} <span className="font-mono text-xs text-slate-500 dark:text-slate-400">({event?.type ?? "unknown"})</span>
+                </Detail>
+                <Detail label={t("alertPage.raised")}>
+                  <Timestamp value={alert.created_at} timeZone={timeZone} />
+                </Detail>
+                <Detail label={t("alertPage.resident")}>
+                  {resident ? (
+                    <>
+                      {resident.name}
+                      {resident.address ? (
+                        <span className="block text-xs text-slate-500 dark:text-slate-400">{resident.address}</span>
+                      ) : null}
+                    </>
+                  ) : (
+                    t("dashboard.unassigned")
+                  )}
+                </Detail>
+                <Detail label={t("alertPage.household")}>{resident?.household?.name ?? "—"}</Detail>
+                <Detail label={t("alertPage.robot")}>{robot?.name ?? "—"}</Detail>
+                <Detail label={t("alertPage.footage")}>
+                  {event ? t("alertPage.footageCount", { count: event.media.length }) : "—"}
+                </Detail>
+                <Detail label={t("alertPage.escalation")}>
+                  {escalation
+                    ? t("alertPage.escalationStep", { fired: escalation.fired, total: escalation.total })
+                    : eventType.escalates
+                      ? t("alertPage.noPolicy")
+                      : t("alertPage.doesntEscalate")}
+                </Detail>
+                <Detail label={t("alertPage.alertId")}>
+                  <span className="font-mono text-xs break-all">{alert.id}</span>
+                </Detail>
+              </dl>
+            </section>
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("alertPage.notes")}</h2>
+              {alert.outcome || alert.resolution_notes || alert.attachments.length > 0 ? (
+                <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+                  <AlertResolutionDetails alert={alert} />
+                </div>
+              ) : (
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {closed ? t("alertPage.noNotes") : t("alertPage.notesLater")}
+                </p>
+              )}
+            </section>
+
+            <section className="space-y-3">
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("alertPage.timeline")}</h2>
+              <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+                <AlertTimeline alert={alert} currentUserId={userId} timeZone={timeZone} />
+              </div>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { alertOutcomeLabel, type AlertWithEvent } from "@/lib/alerts";
+import { signAttachmentUrls } from "@/lib/attachments";
+import { useTranslation } from "@/app/providers";
+
+export default function AlertResolutionDetails({ alert }: { alert: AlertWithEvent }) {
+  const supabase = getBrowserSupabaseClient();
+  const { locale, t } = useTranslation();
+  const [urlByPath, setUrlByPath] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (alert.attachments.length === 0) return;
+    let isMounted = true;
+    signAttachmentUrls(supabase, alert.attachments)
+      .then(urls => {
+        if (isMounted) setUrlByPath(urls);
+      })
+      .catch(() => {});
+    return () => {
+      isMounted = false;
+    };
+  }, [alert.attachments, supabase]);
+
+  const outcome = alertOutcomeLabel(alert.outcome, locale);
+  if (!outcome && !alert.resolution_notes && alert.attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {outcome ? (
+        <p className="text-sm text-slate-700 dark:text-slate-300">
+          <span className="font-semibold">{t("resolution.outcome")}</span> {outcome}
+        </p>
+      ) : null}
+      {alert.resolution_notes ? (
+        <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{alert.resolution_notes}</p>
+      ) : null}
+      {alert.attachments.length > 0 ? (
+        <ul className="flex flex-wrap gap-2">
+          {alert.attachments.map(attachment => (
+            <li key={attachment.id}>
+              <a
+                href={urlByPath[attachment.path]}
+                target="_blank"
+                rel="noreferrer"
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded-md border border-slate-200 dark:border-slate-700 text-xs font-medium text-slate-700 dark:text-slate-300 ${
+                  urlByPath[attachment.path] ? "hover:bg-slate-50 dark:hover:bg-slate-700" : "pointer-events-none opacity-60"
+                }`}
+              >
+                <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+                </svg>
+                {attachment.file_name}
+              </a>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
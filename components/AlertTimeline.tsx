@@ -0,0 +1,50 @@
+"use client";
+
+import { actorName, alertStatusLabel, sortTransitions, type AlertWithEvent } from "@/lib/alerts";
+import type { MessageKey } from "@/lib/i18n";
+import { useTranslation } from "@/app/providers";
+import Timestamp from "@/components/Timestamp";
+
+const transitionMessages: Record<string, MessageKey> = {
+  acknowledged: "timeline.claimed",
+  resolved: "timeline.resolved",
+  false_alarm: "timeline.falseAlarm",
+};
+
+export default function AlertTimeline({
+  alert,
+  currentUserId,
+  timeZone = null,
+}: {
+  alert: AlertWithEvent;
+  currentUserId?: string;
+  timeZone?: string | null;
+}) {
+  const { locale, t } = useTranslation();
+  const entries = [
+    { key: "created", label: t("timeline.raised"), at: alert.created_at },
+    ...[
+      ...sortTransitions(alert.transitions).map(transition => {
+        const actor = actorName(transition, currentUserId, locale);
+        const label = t(transitionMessages[transition.to_status] ?? "timeline.changed", {
+          actor,
+          status: alertStatusLabel(transition.to_status, locale),
+        });
+        return { key: transition.id, label, at: transition.created_at };
+      }),
+      ...alert.escalations.map(e => ({ key: e.id, label: t("timeline.escalated", { recipient: e.recipient }), at: e.created_at })),
+    ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime()),
+  ];
+
+  return (
+    <ol className="relative border-l border-slate-200 dark:border-slate-700 ml-1 space-y-2">
+      {entries.map(entry => (
+        <li key={entry.key} className="ml-3">
+          <div className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-slate-300 dark:bg-slate-600 border-2 border-white dark:border-slate-800"></div>
+          <p className="text-sm text-slate-700 dark:text-slate-300">{entry.label}</p>
+          <Timestamp value={entry.at} timeZone={timeZone} className="block text-xs text-slate-500 dark:text-slate-400" />
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import Link from "next/link";
+import { useTranslation } from "@/app/providers";
+
+// Row level security hides alerts from other households, so a missing alert
+// and one the user can't see look the same; the message covers both.
+export default function AlertUnavailable() {
+  const { t } = useTranslation();
+  return (
+    <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-8 text-center space-y-3">
+      <h1 className="text-2xl font-bold text-slate-900 dark:text-white">{t("unavailable.title")}</h1>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        {t("unavailable.body")}
+      </p>
+      <div className="flex justify-center gap-3">
+        <Link
+          href="/"
+          className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium"
+        >
+          {t("unavailable.dashboard")}
+        </Link>
+        <Link
+          href="/history"
+          className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium"
+        >
+          {t("unavailable.history")}
+        </Link>
+      </div>
+    </div>
+  );
+}
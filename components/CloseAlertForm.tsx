@@ -0,0 +1,125 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import {
+  alertOutcomeLabel,
+  alertOutcomes,
+  type AlertOutcome,
+  type AlertResolution,
+} from "@/lib/alerts";
+import { attachmentAccept, uploadAlertAttachment } from "@/lib/attachments";
+import { useTranslation } from "@/app/providers";
+
+export default function CloseAlertForm({
+  alertId,
+  initialOutcome,
+  onSubmit,
+  onCancel,
+}: {
+  alertId: string;
+  initialOutcome: AlertOutcome | null;
+  onSubmit: (resolution: AlertResolution) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const supabase = getBrowserSupabaseClient();
+  const { locale, t } = useTranslation();
+
+  const [outcome, setOutcome] = useState<AlertOutcome | null>(initialOutcome);
+  const [notes, setNotes] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!outcome) {
+      setError(t("close.chooseOutcome"));
+      return;
+    }
+    setError(null);
+    setSubmitting(true);
+    try {
+      const attachments = await Promise.all(files.map(file => uploadAlertAttachment(supabase, alertId, file)));
+      await onSubmit({ outcome, notes, attachments });
+    } catch (err: any) {
+      setError(err?.message ?? t("close.failed"));
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/40 p-4 space-y-4"
+    >
+      <fieldset>
+        <legend className="text-sm font-semibold text-slate-900 dark:text-white mb-2">{t("close.whatHappened")}</legend>
+        <div className="flex flex-wrap gap-2">
+          {alertOutcomes.map(option => (
+            <label
+              key={option}
+              className={`px-3 py-1.5 rounded-full border text-sm font-medium cursor-pointer transition-colors duration-200 ${
+                outcome === option
+                  ? "bg-slate-900 dark:bg-white border-slate-900 dark:border-white text-white dark:text-slate-900"
+                  : "bg-white dark:bg-slate-800 border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+              }`}
+            >
+              <input
+                type="radio"
+                name={`outcome-${alertId}`}
+                value={option}
+                checked={outcome === option}
+                onChange={() => setOutcome(option)}
+                className="sr-only"
+              />
+              {alertOutcomeLabel(option, locale)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="block">
+        <span className="text-sm font-semibold text-slate-900 dark:text-white">{t("close.notes")}</span>
+        <textarea
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          rows={3}
+          placeholder={t("close.notesPlaceholder")}
+          className="mt-1 w-full border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-800"
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-sm font-semibold text-slate-900 dark:text-white">{t("close.attachments")}</span>
+        <input
+          type="file"
+          multiple
+          accept={attachmentAccept}
+          onChange={e => setFiles(Array.from(e.target.files ?? []))}
+          className="mt-1 block w-full text-sm text-slate-600 dark:text-slate-400"
+        />
+      </label>
+
+      {error ? <p className="text-red-600 dark:text-red-400 text-sm">{error}</p> : null}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={submitting}
+          className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-white dark:hover:bg-slate-700 disabled:opacity-50"
+        >
+          {t("common.cancel")}
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium hover:bg-slate-800 dark:hover:bg-slate-100 disabled:opacity-50"
+        >
+          {submitting ? t("close.closing") : t("close.submit")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,982 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import type { Tables } from "@/lib/database.types";
+import { useAuth, useTranslation } from "@/app/providers";
+import {
+  alertOutcomeLabel,
+  alertOutcomes,
+  getAlert,
+  isPastAlert,
+  listActiveAlerts,
+  listPastAlerts,
+  recentPastAlertsLimit,
+  updateAlertStatus,
+  type AlertOutcome,
+  type AlertRow,
+  type AlertResolution,
+  type AlertStatus,
+  type AlertWithEvent,
+} from "@/lib/alerts";
+import {
+  needsRefresh,
+  signEventMedia,
+  signThumbnails,
+  signedUrlRefreshMarginMs,
+  thumbnailNeedsSigning,
+  type EventMediaState,
+  type MediaThumbnail,
+} from "@/lib/media";
+import { listResidents, signResidentPhotos, type Resident } from "@/lib/residents";
+import { canRespond, listMemberships, type HouseholdRole } from "@/lib/households";
+import { escalationProgress, listEscalationSteps, type EscalationStep } from "@/lib/escalations";
+import { listRobots, robotsHealth, type RobotStatus } from "@/lib/robots";
+import { compareBySeverity } from "@/lib/eventTypes";
+import { defaultUserSettings, getUserSettings, isEventTypeMuted, type UserSettings } from "@/lib/settings";
+import ActiveAlertCard from "@/components/ActiveAlertCard";
+import PastAlertRow from "@/components/PastAlertRow";
+import ResidentAvatar from "@/components/ResidentAvatar";
+import ResidentSwitcher, { allResidents } from "@/components/ResidentSwitcher";
+import PushNotificationsToggle from "@/components/PushNotificationsToggle";
+import DevicePanel from "@/components/DevicePanel";
+import UserMenu from "@/components/UserMenu";
+
+const pollInterval = 3.5 * 1000;
+const maxPollInterval = 60 * 1000;
+const selectedResidentStorageKey = "bobo:selectedResident";
+const unassignedResident = "unassigned";
+const highlightDuration = 4 * 1000;
+const robotStatusTickInterval = 15 * 1000;
+
+type LiveStatus = "connecting" | "live" | "degraded";
+type AlertDeepLink = { alertId: string; focusClaim: boolean };
+
+// Insert or replace an item by id, keeping the list newest first
+function upsertByCreatedAt<T extends { id: string; created_at: string }>(list: T[], item: T): T[] {
+  return [...list.filter(existing => existing.id !== item.id), item].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+// Alerts rendered on the server, or null when they couldn't be loaded there
+// and the client should fetch them itself
+type DashboardProps = {
+  initialAlerts: AlertWithEvent[] | null;
+  initialPastAlerts: AlertWithEvent[] | null;
+};
+
+export default function Dashboard({ initialAlerts, initialPastAlerts }: DashboardProps) {
+  const { user } = useAuth();
+  const { locale, t } = useTranslation();
+  const userId = user?.id;
+  const supabase = getBrowserSupabaseClient();
+  const hasInitialData = initialAlerts !== null && initialPastAlerts !== null;
+
+  const [alerts, setAlerts] = useState<AlertWithEvent[]>(initialAlerts ?? []);
+  const [loadingAlerts, setLoadingAlerts] = useState(false);
+  const [alertsError, setAlertsError] = useState<string | null>(null);
+  const [updatingById, setUpdatingById] = useState<Record<string, AlertStatus>>({});
+  const [eventMediaById, setEventMediaById] = useState<Record<string, EventMediaState>>({});
+  const [thumbnailByEventId, setThumbnailByEventId] = useState<Record<string, MediaThumbnail>>({});
+  const [pastAlerts, setPastAlerts] = useState<AlertWithEvent[]>(initialPastAlerts ?? []);
+  const [loadingPastAlerts, setLoadingPastAlerts] = useState(false);
+  const [pastAlertsError, setPastAlertsError] = useState<string | null>(null);
+  const [expandedPastById, setExpandedPastById] = useState<Record<string, boolean>>({});
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>("connecting");
+  const [residents, setResidents] = useState<Resident[]>([]);
+  const [residentPhotoUrlById, setResidentPhotoUrlById] = useState<Record<string, string>>({});
+  const [selectedResidentId, setSelectedResidentId] = useState<string>(allResidents);
+  const [pastOutcomeFilter, setPastOutcomeFilter] = useState<AlertOutcome | "all">("all");
+  const [roleByHouseholdId, setRoleByHouseholdId] = useState<Record<string, HouseholdRole>>({});
+  const [highlightedAlertId, setHighlightedAlertId] = useState<string | null>(null);
+  const [claimFocusAlertId, setClaimFocusAlertId] = useState<string | null>(null);
+  const [escalationStepsByHouseholdId, setEscalationStepsByHouseholdId] = useState<Record<string, EscalationStep[]>>({});
+  const [robots, setRobots] = useState<RobotStatus[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [settings, setSettings] = useState<UserSettings>(defaultUserSettings);
+
+  const isFirstLoadRef = useRef(initialAlerts === null);
+  const isFirstPastLoadRef = useRef(initialPastAlerts === null);
+  const resolvingMediaIdsRef = useRef<Set<string>>(new Set());
+  const deepLinkRef = useRef<AlertDeepLink | null>(null);
+
+  // Errors are rethrown so the card can show them next to the action
+  async function changeAlertStatus(alertId: string, status: AlertStatus, resolution?: AlertResolution) {
+    setUpdatingById(prev => ({ ...prev, [alertId]: status }));
+    try {
+      await updateAlertStatus(supabase, alertId, status, resolution);
+
+      // Optimistically apply the change; the realtime update fills in the timeline
+      if (isPastAlert({ status })) {
+        setAlerts(prev => prev.filter(a => a.id !== alertId));
+      } else {
+        setAlerts(prev => prev.map(a => (a.id === alertId ? { ...a, status } : a)));
+      }
+    } finally {
+      setUpdatingById(prev => {
+        const { [alertId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  }
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let isMounted = true;
+    let isPolling = false;
+    let pollTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    let pollDelay = pollInterval;
+
+    async function fetchAlertsOnce(): Promise<boolean> {
+      if (!isMounted) return false;
+      setAlertsError(null);
+      if (isFirstLoadRef.current) setLoadingAlerts(true);
+      try {
+        const activeAlerts = await listActiveAlerts(supabase);
+        if (!isMounted) return false;
+        setAlerts(activeAlerts);
+        return true;
+      } catch (err: any) {
+        if (isMounted) setAlertsError(err?.message ?? t("dashboard.loadAlertsFailed"));
+        return false;
+      } finally {
+        if (isMounted && isFirstLoadRef.current) {
+          setLoadingAlerts(false);
+          isFirstLoadRef.current = false;
+        }
+      }
+    }
+
+    async function fetchPastAlertsOnce(): Promise<boolean> {
+      if (!isMounted) return false;
+      setPastAlertsError(null);
+      if (isFirstPastLoadRef.current) setLoadingPastAlerts(true);
+      try {
+        const past = await listPastAlerts(supabase, { limit: recentPastAlertsLimit });
+        if (!isMounted) return false;
+        setPastAlerts(past);
+        return true;
+      } catch (err: any) {
+        if (isMounted) setPastAlertsError(err?.message ?? t("dashboard.loadPastAlertsFailed"));
+        return false;
+      } finally {
+        if (isMounted && isFirstPastLoadRef.current) {
+          setLoadingPastAlerts(false);
+          isFirstPastLoadRef.current = false;
+        }
+      }
+    }
+
+    async function fetchRobotsOnce(): Promise<boolean> {
+      try {
+        const loaded = await listRobots(supabase);
+        if (isMounted) setRobots(loaded);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    async function fetchAllOnce(): Promise<boolean> {
+      const results = await Promise.all([fetchAlertsOnce(), fetchPastAlertsOnce(), fetchRobotsOnce()]);
+      return results.every(Boolean);
+    }
+
+    // Merge a single changed alert into whichever list it now belongs to. A
+    // failed lookup is left for the next resync.
+    async function applyAlertChange(alertId: string) {
+      let alert: AlertWithEvent | null;
+      try {
+        alert = await getAlert(supabase, alertId);
+      } catch {
+        return;
+      }
+      if (!isMounted) return;
+
+      if (!alert) {
+        setAlerts(prev => prev.filter(a => a.id !== alertId));
+        setPastAlerts(prev => prev.filter(a => a.id !== alertId));
+      } else if (isPastAlert(alert)) {
+        const past = alert;
+        setAlerts(prev => prev.filter(a => a.id !== alertId));
+        setPastAlerts(prev => upsertByCreatedAt(prev, past).slice(0, recentPastAlertsLimit));
+      } else {
+        const active = alert;
+        setPastAlerts(prev => prev.filter(a => a.id !== alertId));
+        setAlerts(prev => upsertByCreatedAt(prev, active));
+      }
+    }
+
+    // Fallback polling while the realtime channel is down. The delay doubles
+    // after each failed fetch and resets once a fetch succeeds.
+    function schedulePoll() {
+      pollTimeoutId = setTimeout(async () => {
+        pollTimeoutId = null;
+        const ok = await fetchAllOnce();
+        if (!isMounted || !isPolling) return;
+        pollDelay = ok ? pollInterval : Math.min(pollDelay * 2, maxPollInterval);
+        schedulePoll();
+      }, pollDelay);
+    }
+
+    function startPolling() {
+      if (isPolling) return;
+      isPolling = true;
+      pollDelay = pollInterval;
+      schedulePoll();
+    }
+
+    function stopPolling() {
+      isPolling = false;
+      if (pollTimeoutId) clearTimeout(pollTimeoutId);
+      pollTimeoutId = null;
+    }
+
+    // No row filter: Realtime applies the alerts RLS policies, so each
+    // subscriber only receives changes for households they belong to
+    const alertsFilter = { schema: "public", table: "alerts" };
+
+    const channel = supabase
+      .channel(`alerts:${userId}`)
+      .on("postgres_changes", { event: "INSERT", ...alertsFilter }, payload => {
+        applyAlertChange((payload.new as AlertRow).id);
+      })
+      .on("postgres_changes", { event: "UPDATE", ...alertsFilter }, payload => {
+        applyAlertChange((payload.new as AlertRow).id);
+      })
+      // Transitions are written just after the status change, so refresh the
+      // alert again to pick up who made it
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "alert_transitions" }, payload => {
+        applyAlertChange((payload.new as Tables<"alert_transitions">).alert_id);
+      })
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "alert_escalations" }, payload => {
+        applyAlertChange((payload.new as Tables<"alert_escalations">).alert_id);
+      })
+      // Each heartbeat updates the robot's row
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "robots" }, payload => {
+        const updated = payload.new as Tables<"robots">;
+        setRobots(prev => prev.map(r => (r.id === updated.id ? { ...r, ...updated } : r)));
+      })
+      .subscribe(status => {
+        if (!isMounted) return;
+        if (status === "SUBSCRIBED") {
+          stopPolling();
+          setLiveStatus("live");
+          // Catch up on anything that changed while we were disconnected
+          fetchAllOnce();
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+          setLiveStatus("degraded");
+          startPolling();
+        }
+      });
+
+    // Server-rendered alerts only need the catch-up fetch once subscribed
+    if (hasInitialData) fetchRobotsOnce();
+    else fetchAllOnce();
+
+    return () => {
+      isMounted = false;
+      stopPolling();
+      supabase.removeChannel(channel);
+    };
+  }, [userId, supabase]);
+
+  const mediaCountByIdRef = useRef<Record<string, number>>({});
+
+  // Signs URLs for the given alerts' media. Entries are re-signed when they are
+  // close to expiry or when the manifest has grown (e.g. a second angle finished uploading).
+  function resolveMediaForAlerts(targets: AlertWithEvent[]) {
+    targets.forEach(a => {
+      if (!a.event) return;
+      const key = String(a.event.id);
+      const media = a.event.media;
+      const cached = eventMediaById[key];
+      const isStale =
+        cached === undefined || needsRefresh(cached) || mediaCountByIdRef.current[key] !== media.length;
+      if (!isStale || resolvingMediaIdsRef.current.has(key)) return;
+
+      resolvingMediaIdsRef.current.add(key);
+      mediaCountByIdRef.current[key] = media.length;
+      signEventMedia(supabase, media)
+        .then(result => {
+          setEventMediaById(prev => ({ ...prev, [key]: result }));
+        })
+        .catch((err: any) => {
+          setEventMediaById(prev => ({
+            ...prev,
+            [key]: { status: "error", message: err?.message ?? t("dashboard.loadMediaFailed") },
+          }));
+        })
+        .finally(() => {
+          resolvingMediaIdsRef.current.delete(key);
+        });
+    });
+  }
+
+  // Media is shown for every active alert and for expanded past alerts
+  const visibleMediaAlerts = [...alerts, ...pastAlerts.filter(a => expandedPastById[a.id])].filter(
+    a => !isEventTypeMuted(settings, a.event?.type)
+  );
+
+  useEffect(() => {
+    if (!visibleMediaAlerts.length) return;
+    resolveMediaForAlerts(visibleMediaAlerts);
+  }, [alerts, pastAlerts, expandedPastById, eventMediaById]);
+
+  // Re-sign URLs for open players shortly before they expire. Timers are
+  // throttled in background tabs, so also check when the tab becomes visible.
+  useEffect(() => {
+    const expiries = visibleMediaAlerts.flatMap(a => {
+      const state = a.event ? eventMediaById[String(a.event.id)] : undefined;
+      return state?.status === "ready" && state.items.length > 0 ? [state.expiresAt] : [];
+    });
+    if (expiries.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...expiries) - signedUrlRefreshMarginMs - Date.now());
+    const timeoutId = setTimeout(() => resolveMediaForAlerts(visibleMediaAlerts), delay);
+    function onVisibilityChange() {
+      if (document.visibilityState === "visible") resolveMediaForAlerts(visibleMediaAlerts);
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      clearTimeout(timeoutId);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [alerts, pastAlerts, expandedPastById, eventMediaById]);
+
+  // When each event's thumbnail expires: Infinity while it is being signed or
+  // when the event has nothing to show, and forgotten after a failed request
+  // so it is tried again on the next change
+  const thumbnailExpiryByEventIdRef = useRef<Map<string, number>>(new Map());
+  const [thumbnailCheckAt, setThumbnailCheckAt] = useState(0);
+
+  // Poster frames for collapsed past alerts, signed in a single request
+  useEffect(() => {
+    const expiries = thumbnailExpiryByEventIdRef.current;
+    const events = pastAlerts.flatMap(a =>
+      a.event && a.event.media.length > 0 && thumbnailNeedsSigning(expiries.get(String(a.event.id))) ? [a.event] : []
+    );
+    if (events.length === 0) return;
+
+    events.forEach(event => expiries.set(String(event.id), Infinity));
+    signThumbnails(supabase, events)
+      .then(thumbnails => {
+        events.forEach(event => expiries.set(String(event.id), thumbnails[String(event.id)]?.expiresAt ?? Infinity));
+        setThumbnailByEventId(prev => ({ ...prev, ...thumbnails }));
+      })
+      .catch(() => {
+        // Rows fall back to the event icon alone; try again on the next change
+        events.forEach(event => expiries.delete(String(event.id)));
+      });
+  }, [pastAlerts, thumbnailCheckAt, supabase]);
+
+  // Re-sign thumbnails shortly before they expire, and when the tab becomes
+  // visible since timers are throttled in background tabs
+  useEffect(() => {
+    const expiries = pastAlerts.flatMap(a => thumbnailByEventId[String(a.trigger_event)]?.expiresAt ?? []);
+    if (expiries.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...expiries) - signedUrlRefreshMarginMs - Date.now());
+    const timeoutId = setTimeout(() => setThumbnailCheckAt(Date.now()), delay);
+    function onVisibilityChange() {
+      if (document.visibilityState === "visible") setThumbnailCheckAt(Date.now());
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      clearTimeout(timeoutId);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [pastAlerts, thumbnailByEventId]);
+
+  function togglePastExpanded(alert: AlertWithEvent) {
+    setExpandedPastById(prev => ({ ...prev, [alert.id]: !prev[alert.id] }));
+  }
+
+  useEffect(() => {
+    if (!userId) return;
+    let isMounted = true;
+
+    listMemberships(supabase, userId)
+      .then(memberships => {
+        if (!isMounted) return;
+        setRoleByHouseholdId(Object.fromEntries(memberships.map(m => [m.household.id, m.role])));
+      })
+      .catch(() => {});
+
+    listEscalationSteps(supabase)
+      .then(steps => {
+        if (!isMounted) return;
+        const byHousehold: Record<string, EscalationStep[]> = {};
+        steps.forEach(step => {
+          (byHousehold[step.household_id] ??= []).push(step);
+        });
+        setEscalationStepsByHouseholdId(byHousehold);
+      })
+      .catch(() => {});
+
+    listResidents(supabase)
+      .then(async loaded => {
+        if (!isMounted) return;
+        setResidents(loaded);
+        const stored = window.localStorage.getItem(selectedResidentStorageKey);
+        if (stored && loaded.some(r => r.id === stored)) setSelectedResidentId(stored);
+        const photoUrls = await signResidentPhotos(supabase, loaded);
+        if (isMounted) setResidentPhotoUrlById(photoUrls);
+      })
+      .catch(() => {
+        // Without residents the dashboard still lists every alert ungrouped
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, supabase]);
+
+  // Without saved settings (or if they fail to load) every event type is shown
+  useEffect(() => {
+    if (!userId) return;
+    let isMounted = true;
+    getUserSettings(supabase, userId)
+      .then(loaded => {
+        if (isMounted) setSettings(loaded);
+      })
+      .catch(() => {});
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, supabase]);
+
+  // Notifications sent before alerts had their own page open /?alert=<id>, with
+  // action=acknowledge when the "Acknowledge" button was used. That only
+  // focuses "I'm on it": opening a link must never claim an alert, since link
+  // previews open them too. Read once, then drop it from the address bar.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const alertId = params.get("alert");
+    if (!alertId) return;
+    deepLinkRef.current = { alertId, focusClaim: params.get("action") === "acknowledge" };
+    window.history.replaceState(null, "", window.location.pathname);
+  }, []);
+
+  // Once the linked alert has loaded, bring it into view
+  useEffect(() => {
+    const link = deepLinkRef.current;
+    if (!link) return;
+    const active = alerts.find(a => a.id === link.alertId);
+    const past = active ? undefined : pastAlerts.find(a => a.id === link.alertId);
+    const target = active ?? past;
+    if (!target) return;
+    deepLinkRef.current = null;
+
+    if (selectedResidentId !== allResidents && target.resident_id !== selectedResidentId) {
+      setSelectedResidentId(allResidents);
+    }
+    if (past) setExpandedPastById(prev => ({ ...prev, [past.id]: true }));
+    setHighlightedAlertId(target.id);
+    requestAnimationFrame(() => {
+      document.getElementById(`alert-${target.id}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+    if (active && link.focusClaim) setClaimFocusAlertId(active.id);
+  }, [alerts, pastAlerts]);
+
+  // Lets the header notice a robot going quiet before the server marks it offline
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), robotStatusTickInterval);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  useEffect(() => {
+    if (!highlightedAlertId) return;
+    const timeoutId = setTimeout(() => setHighlightedAlertId(null), highlightDuration);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedAlertId]);
+
+  function selectResident(residentId: string) {
+    setSelectedResidentId(residentId);
+    window.localStorage.setItem(selectedResidentStorageKey, residentId);
+  }
+
+  const selectedResident = residents.find(r => r.id === selectedResidentId) ?? null;
+  const isAllResidentsView = !selectedResident;
+  const residentById = new Map(residents.map(r => [r.id, r]));
+  // Event types the user opted out of in settings are left off the dashboard
+  const shownAlerts = alerts.filter(a => !isEventTypeMuted(settings, a.event?.type));
+  const hiddenAlertCount = alerts.filter(
+    a => isEventTypeMuted(settings, a.event?.type) && (!selectedResident || a.resident_id === selectedResident.id)
+  ).length;
+  // Most severe first, so a fall is never buried under device notices
+  const alertsBySeverity = [...shownAlerts].sort(compareBySeverity);
+  const visibleAlerts = selectedResident
+    ? alertsBySeverity.filter(a => a.resident_id === selectedResident.id)
+    : alertsBySeverity;
+  const visibleRobots = selectedResident ? robots.filter(r => r.resident_id === selectedResident.id) : robots;
+  const health = robotsHealth(visibleRobots, now, locale, timeZoneFor);
+  const healthDotClass = {
+    online: "bg-green-500 animate-pulse",
+    warning: "bg-amber-500",
+    offline: "bg-red-500",
+    unknown: "bg-slate-400",
+  }[health.tone];
+  const healthTextClass = {
+    online: "text-green-700 dark:text-green-300",
+    warning: "text-amber-700 dark:text-amber-300",
+    offline: "text-red-700 dark:text-red-300",
+    unknown: "text-slate-600 dark:text-slate-400",
+  }[health.tone];
+  const visiblePastAlerts = pastAlerts.filter(
+    a =>
+      (!selectedResident || a.resident_id === selectedResident.id) &&
+      !isEventTypeMuted(settings, a.event?.type) &&
+      (pastOutcomeFilter === "all" || a.outcome === pastOutcomeFilter)
+  );
+
+  function canRespondToAlert(alert: AlertWithEvent): boolean {
+    if (!alert.resident_id) return alert.user_id === user?.id;
+    const resident = residentById.get(alert.resident_id);
+    return !!resident && canRespond(roleByHouseholdId[resident.household_id]);
+  }
+
+  // The robot that raised the alert, or else the one with the resident
+  function robotForAlert(alert: AlertWithEvent): RobotStatus | null {
+    const robotId = alert.event?.robot_id;
+    return (
+      (robotId ? robots.find(r => r.id === robotId) : undefined) ??
+      (alert.resident_id ? robots.find(r => r.resident_id === alert.resident_id) : undefined) ??
+      null
+    );
+  }
+
+  // The resident's time zone, for an alert or a robot
+  function timeZoneFor({ resident_id }: { resident_id: string | null }): string | null {
+    return (resident_id ? residentById.get(resident_id)?.time_zone : undefined) ?? null;
+  }
+
+  function escalationForAlert(alert: AlertWithEvent) {
+    const resident = alert.resident_id ? residentById.get(alert.resident_id) : undefined;
+    return resident ? escalationProgress(alert, escalationStepsByHouseholdId[resident.household_id] ?? []) : null;
+  }
+
+  const activeCountByResidentId: Record<string, number> = {};
+  shownAlerts.forEach(a => {
+    if (a.resident_id) activeCountByResidentId[a.resident_id] = (activeCountByResidentId[a.resident_id] ?? 0) + 1;
+  });
+
+  // In the all-residents view active alerts are grouped by person, in the
+  // same order as the switcher, with unassigned alerts last
+  const activeAlertGroups = isAllResidentsView && residents.length > 1
+    ? [...residents.map(r => r.id), unassignedResident]
+        .map(groupId => ({
+          resident: residentById.get(groupId) ?? null,
+          alerts: alertsBySeverity.filter(a => (a.resident_id && residentById.has(a.resident_id) ? a.resident_id : unassignedResident) === groupId),
+        }))
+        .filter(group => group.alerts.length > 0)
+    : [{ resident: selectedResident, alerts: visibleAlerts }];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <header className="sticky top-0 z-50 backdrop-blur-xl bg-white/80 dark:bg-slate-900/80 border-b border-slate-200/60 dark:border-slate-700/60">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <div className="relative">
+                <img 
+                  src="/bobo.png" 
+                  alt="Bobo" 
+                  className="h-10 w-10 rounded-xl p-1 object-contain shadow-sm ring-2 ring-slate-200 dark:ring-slate-700" 
+                />
+                {user ? (
+                  <div className={`absolute -top-1 -right-1 h-4 w-4 rounded-full border-2 border-white dark:border-slate-900 ${healthDotClass}`}></div>
+                ) : null}
+              </div>
+              <div>
+                <h1 className="text-xl font-bold bg-gradient-to-r from-slate-900 to-slate-600 dark:from-white dark:to-slate-300 bg-clip-text text-transparent -mb-1">
+                  Bobo
+                </h1>
+                {user ? (
+                  <div className="flex items-center gap-2" role="status">
+                    <span className={`text-xs font-medium ${healthTextClass}`}>{health.label}</span>
+                  </div>
+                ) : null}
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              {user ? (
+                <div className="flex items-center gap-4">
+                  <div className="hidden sm:flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800">
+                    <div className="h-2 w-2 bg-green-500 rounded-full"></div>
+                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300 truncate max-w-[160px]">
+                      {user.email}
+                    </span>
+                  </div>
+                  <Link
+                    href="/analytics"
+                    className="hidden md:inline-block px-4 py-2 rounded-[100px] border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors duration-200"
+                  >
+                    {t("nav.analytics")}
+                  </Link>
+                  <Link
+                    href={selectedResident ? `/check-ins?resident=${selectedResident.id}` : "/check-ins"}
+                    className="hidden md:inline-block px-4 py-2 rounded-[100px] border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors duration-200"
+                  >
+                    {t("nav.checkIns")}
+                  </Link>
+                  <Link
+                    href="/members"
+                    className="px-4 py-2 rounded-[100px] border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors duration-200"
+                  >
+                    {t("nav.caregivers")}
+                  </Link>
+                  <UserMenu email={user.email} />
+                </div>
+              ) : (
+                <Link 
+                  href="/login" 
+                  className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors duration-200"
+                >
+                  {t("nav.login")}
+                </Link>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+      <main className="flex-1 w-full">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {user ? (
+            <>
+              {/* Dashboard Header */}
+              <div className="mb-8 space-y-4">
+                <PushNotificationsToggle />
+                {residents.length > 1 ? (
+                  <ResidentSwitcher
+                    residents={residents}
+                    photoUrlById={residentPhotoUrlById}
+                    selectedId={selectedResident ? selectedResident.id : allResidents}
+                    activeCountById={activeCountByResidentId}
+                    onSelect={selectResident}
+                  />
+                ) : null}
+                {(() => {
+                  const headerResident = selectedResident ?? (residents.length === 1 ? residents[0] : null);
+                  return (
+                    <div className="flex items-center gap-4">
+                      {headerResident ? (
+                        <ResidentAvatar
+                          name={headerResident.name}
+                          photoUrl={residentPhotoUrlById[headerResident.id]}
+                          size="h-14 w-14"
+                        />
+                      ) : null}
+                      <div>
+                        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+                          {headerResident
+                            ? t("dashboard.residentAlerts", { name: headerResident.name })
+                            : residents.length > 1
+                              ? t("dashboard.allResidents")
+                              : t("dashboard.yourAlerts")}
+                        </h1>
+                        {headerResident?.address ? (
+                          <p className="text-sm text-slate-600 dark:text-slate-400">🏠 {headerResident.address}</p>
+                        ) : headerResident === null && residents.length > 1 ? (
+                          <p className="text-sm text-slate-600 dark:text-slate-400">
+                            {t("dashboard.monitoring", { count: residents.length })}
+                          </p>
+                        ) : null}
+                      </div>
+                    </div>
+                  );
+                })()}
+                <DevicePanel
+                  robots={visibleRobots}
+                  residentById={residentById}
+                  canControl={robot => canRespond(roleByHouseholdId[robot.household_id])}
+                />
+              </div>
+
+              {/* Active Alerts Section */}
+              <section className="mb-10">
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center gap-3">
+                  <div
+                    className={`h-8 w-8 rounded-lg flex items-center justify-center ${
+                      visibleAlerts.length > 0
+                        ? "bg-red-100 dark:bg-red-900/30"
+                        : "bg-slate-100 dark:bg-slate-900/30"
+                    }`}
+                  >
+                    <svg
+                      className={`h-4 w-4 ${
+                        visibleAlerts.length > 0
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-slate-600 dark:text-slate-400"
+                      }`}
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 18.5c-.77.833.192 2.5 1.732 2.5z" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-bold text-slate-900 dark:text-white">
+                        {t("dashboard.activeAlerts", { count: visibleAlerts.length })}
+                      </h2>
+                      {hiddenAlertCount > 0 ? (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {t("dashboard.hiddenBySettings", { count: hiddenAlertCount })} ·{" "}
+                          <Link href="/settings#alert-types" className="underline">
+                            {t("dashboard.changeSettings")}
+                          </Link>
+                        </p>
+                      ) : null}
+                    </div>
+                  </div>
+                  <div
+                    className={`flex items-center gap-2 px-3 py-1 rounded-full border ${
+                      liveStatus === "degraded"
+                        ? "bg-amber-50 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800"
+                        : "bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700"
+                    }`}
+                    title={liveStatus === "degraded" ? t("dashboard.degraded") : undefined}
+                  >
+                    <div
+                      className={`h-2 w-2 rounded-full ${
+                        liveStatus === "live"
+                          ? "bg-green-500"
+                          : liveStatus === "degraded"
+                            ? "bg-amber-500 animate-pulse"
+                            : "bg-slate-400 animate-pulse"
+                      }`}
+                    ></div>
+                    <span
+                      className={`text-sm font-medium ${
+                        liveStatus === "degraded"
+                          ? "text-amber-700 dark:text-amber-300"
+                          : "text-slate-700 dark:text-slate-300"
+                      }`}
+                    >
+                      {liveStatus === "live"
+                        ? t("dashboard.live")
+                        : liveStatus === "degraded"
+                          ? t("dashboard.reconnecting")
+                          : t("dashboard.connecting")}
+                    </span>
+                  </div>
+                </div>
+                {liveStatus === "degraded" ? (
+                  <div className="mb-4 rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 p-4">
+                    <p className="text-sm text-amber-800 dark:text-amber-200">
+                      {t("dashboard.interrupted")}
+                    </p>
+                  </div>
+                ) : null}
+                {alertsError ? (
+                  <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                    <div className="flex items-center gap-3">
+                      <svg className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      <p className="text-red-700 dark:text-red-300 font-medium">{alertsError}</p>
+                    </div>
+                  </div>
+                ) : null}
+                
+                {loadingAlerts ? (
+                  <div className="grid gap-4" aria-hidden>
+                    {[...Array(2)].map((_, i) => (
+                      <div key={i} className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-6 shadow-sm">
+                        <div className="animate-pulse">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="flex-1">
+                              <div className="h-4 bg-slate-300 dark:bg-slate-600 rounded w-1/3 mb-2"></div>
+                              <div className="h-3 bg-slate-200 dark:bg-slate-700 rounded w-1/2 mb-3"></div>
+                              <div className="h-6 bg-slate-200 dark:bg-slate-700 rounded w-20"></div>
+                            </div>
+                            <div className="h-8 bg-slate-200 dark:bg-slate-700 rounded w-20"></div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : visibleAlerts.length === 0 ? (
+                  <div className="text-center py-12">
+                    <div className="mx-auto h-16 w-16 rounded-full bg-slate-100 dark:bg-slate-900/30 flex items-center justify-center mb-4">
+                      <svg className="h-8 w-8 text-slate-600 dark:text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </div>
+                    <p className="text-slate-600 dark:text-slate-400">{t("dashboard.noActiveAlerts")}</p>
+                  </div>
+                ) : (
+                  <div className="space-y-8">
+                    {activeAlertGroups.map(group => (
+                      <div key={group.resident?.id ?? unassignedResident}>
+                        {activeAlertGroups.length > 1 ? (
+                          <div className="flex items-center gap-3 mb-3">
+                            {group.resident ? (
+                              <ResidentAvatar name={group.resident.name} photoUrl={residentPhotoUrlById[group.resident.id]} />
+                            ) : null}
+                            <div>
+                              <h3 className="text-base font-semibold text-slate-900 dark:text-white">
+                                {group.resident ? group.resident.name : t("dashboard.unassigned")}
+                              </h3>
+                              {group.resident?.address ? (
+                                <p className="text-xs text-slate-500 dark:text-slate-400">{group.resident.address}</p>
+                              ) : null}
+                            </div>
+                          </div>
+                        ) : null}
+                        <div className="grid gap-4">
+                          {group.alerts.map(a => (
+                            <ActiveAlertCard
+                              key={a.id}
+                              alert={a}
+                              mediaState={eventMediaById[String(a.trigger_event)]}
+                              currentUserId={user.id}
+                              pendingStatus={updatingById[a.id] ?? null}
+                              canRespond={canRespondToAlert(a)}
+                              escalation={escalationForAlert(a)}
+                              robot={robotForAlert(a)}
+                              timeZone={timeZoneFor(a)}
+                              highlighted={highlightedAlertId === a.id}
+                              focusClaim={claimFocusAlertId === a.id}
+                              onChangeStatus={changeAlertStatus}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              {/* Past Alerts Section */}
+              <section>
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center gap-3">
+                    <div className="h-8 w-8 rounded-lg bg-slate-100 dark:bg-slate-700 flex items-center justify-center">
+                      <svg className="h-4 w-4 text-slate-600 dark:text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-bold text-slate-900 dark:text-white">{t("dashboard.pastAlerts")}</h2>
+                    </div>
+                  </div>
+                  <Link
+                    href={selectedResident ? `/history?resident=${selectedResident.id}` : "/history"}
+                    className="flex items-center gap-2 px-3 py-1 rounded-full bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors duration-200"
+                  >
+                    {t("dashboard.fullHistory")}
+                  </Link>
+                </div>
+
+                {pastAlerts.length > 0 ? (
+                  <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label={t("dashboard.filterByOutcome")}>
+                    {(["all", ...alertOutcomes] as const).map(option => (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => setPastOutcomeFilter(option)}
+                        aria-pressed={pastOutcomeFilter === option}
+                        className={`px-3 py-1 rounded-full border text-xs font-medium transition-colors duration-200 ${
+                          pastOutcomeFilter === option
+                            ? "bg-slate-900 dark:bg-white border-slate-900 dark:border-white text-white dark:text-slate-900"
+                            : "bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700"
+                        }`}
+                      >
+                        {option === "all" ? t("dashboard.allOutcomes") : alertOutcomeLabel(option, locale)}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+
+                {pastAlertsError ? (
+                  <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4">
+                    <div className="flex items-center gap-3">
+                      <svg className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      <p className="text-red-700 dark:text-red-300 font-medium">{pastAlertsError}</p>
+                    </div>
+                  </div>
+                ) : null}
+
+                {loadingPastAlerts ? (
+                  <div className="grid gap-3" aria-hidden>
+                    {[...Array(3)].map((_, i) => (
+                      <div key={i} className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 shadow-sm">
+                        <div className="animate-pulse">
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="flex-1">
+                              <div className="h-4 bg-slate-300 dark:bg-slate-600 rounded w-1/4 mb-2"></div>
+                              <div className="h-3 bg-slate-200 dark:bg-slate-700 rounded w-1/3"></div>
+                            </div>
+                            <div className="h-6 bg-slate-200 dark:bg-slate-700 rounded w-16"></div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : visiblePastAlerts.length === 0 ? (
+                  <div className="text-center py-12">
+                    <div className="mx-auto h-16 w-16 rounded-full bg-slate-100 dark:bg-slate-800 flex items-center justify-center mb-4">
+                      <svg className="h-8 w-8 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                      </svg>
+                    </div>
+                    <p className="text-slate-600 dark:text-slate-400">{t("dashboard.noPastAlerts")}</p>
+                  </div>
+                ) : (
+                  <div className="grid gap-3">
+                    {visiblePastAlerts.map(a => (
+                      <PastAlertRow
+                        key={a.id}
+                        alert={a}
+                        residentName={
+                          isAllResidentsView && a.resident_id ? (residentById.get(a.resident_id)?.name ?? null) : null
+                        }
+                        mediaState={eventMediaById[String(a.trigger_event)]}
+                        thumbnail={thumbnailByEventId[String(a.trigger_event)]}
+                        timeZone={timeZoneFor(a)}
+                        currentUserId={user.id}
+                        expanded={!!expandedPastById[a.id]}
+                        highlighted={highlightedAlertId === a.id}
+                        onToggle={() => togglePastExpanded(a)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          ) : (
+            // Login prompt for non-authenticated users
+            <div className="text-center py-20">
+              <div className="mx-auto h-20 w-20 rounded-full bg-slate-100 dark:bg-slate-800 flex items-center justify-center mb-6">
+                <img src="/bobo.png" alt="Bobo" className="h-12 w-12 rounded-lg object-contain" />
+              </div>
+              <h1 className="text-2xl font-bold text-slate-900 dark:text-white mb-4">{t("dashboard.welcome")}</h1>
+              <p className="text-slate-600 dark:text-slate-400 mb-8 max-w-md mx-auto">
+                {t("dashboard.welcomeBody")}
+              </p>
+              <Link 
+                href="/login" 
+                className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 shadow-sm"
+              >
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 16l-4-4m0 0l4-4m-4 4h14m-5 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h7a3 3 0 013 3v1" />
+                </svg>
+                {t("dashboard.getStarted")}
+              </Link>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
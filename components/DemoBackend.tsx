@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { loadDemoClient } from "@/lib/supabaseClient";
+
+// In demo mode the data lives in this browser, so there is nothing to render
+// on the server; the app appears once the demo backend has loaded.
+export default function DemoBackend({ children }: { children: React.ReactNode }) {
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    loadDemoClient().then(() => setLoaded(true));
+  }, []);
+
+  return loaded ? children : null;
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useTranslation } from "@/app/providers";
+
+// Shown on every page in demo mode, so nobody mistakes simulated alerts for
+// real ones, with a way to raise a fall on demand while showing the app. The
+// simulator is imported on click so it isn't bundled outside demo mode.
+export default function DemoBanner() {
+  const { t } = useTranslation();
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 px-4 py-2 text-sm border-b border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200">
+      <span>{t("demo.banner")}</span>
+      <button
+        type="button"
+        onClick={() => import("@/lib/demoSimulator").then(({ raiseDemoEvent }) => raiseDemoEvent("fall"))}
+        className="px-3 py-1 rounded-lg border border-amber-300 dark:border-amber-700 font-medium hover:bg-amber-100 dark:hover:bg-amber-900/50"
+      >
+        {t("demo.simulateFall")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  formatSince,
+  isBatteryLow,
+  offlineSince,
+  robotConnection,
+  wifiBars,
+  wifiLabel,
+  type RobotStatus,
+} from "@/lib/robots";
+import type { Resident } from "@/lib/residents";
+import { useTranslation } from "@/app/providers";
+import RobotCommands from "@/components/RobotCommands";
+
+const tickInterval = 15 * 1000;
+
+function BatteryMeter({ robot }: { robot: RobotStatus }) {
+  const { t } = useTranslation();
+  if (robot.battery_percent === null) return <span className="text-slate-500 dark:text-slate-400">—</span>;
+  const low = isBatteryLow(robot);
+  return (
+    <span className="flex items-center gap-2">
+      <span className="relative h-3 w-8 rounded-sm border border-slate-400 dark:border-slate-500" aria-hidden>
+        <span
+          className={`absolute inset-y-0 left-0 ${low ? "bg-red-500" : robot.charging ? "bg-green-500" : "bg-slate-500 dark:bg-slate-300"}`}
+          style={{ width: `${robot.battery_percent}%` }}
+        ></span>
+      </span>
+      <span className={low ? "text-red-700 dark:text-red-300 font-medium" : undefined}>
+        {robot.battery_percent}%{robot.charging ? ` · ${t("device.charging")}` : ""}
+      </span>
+    </span>
+  );
+}
+
+function WifiMeter({ rssi }: { rssi: number | null }) {
+  const { locale } = useTranslation();
+  const bars = wifiBars(rssi);
+  return (
+    <span className="flex items-center gap-2" title={rssi !== null ? `${rssi} dBm` : undefined}>
+      <span className="flex items-end gap-0.5 h-3" aria-hidden>
+        {[1, 2, 3, 4].map(level => (
+          <span
+            key={level}
+            className={`w-1 rounded-sm ${level <= bars ? "bg-slate-700 dark:bg-slate-200" : "bg-slate-300 dark:bg-slate-600"}`}
+            style={{ height: `${level * 25}%` }}
+          ></span>
+        ))}
+      </span>
+      <span>{wifiLabel(rssi, locale)}</span>
+    </span>
+  );
+}
+
+// Live status for each robot, from the latest heartbeat copied onto its row
+export default function DevicePanel({
+  robots,
+  residentById,
+  canControl,
+}: {
+  robots: RobotStatus[];
+  residentById: Map<string, Pick<Resident, "name" | "time_zone">>;
+  canControl: (robot: RobotStatus) => boolean;
+}) {
+  const { locale, t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+  const [controlsOpenId, setControlsOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), tickInterval);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  if (robots.length === 0) return null;
+
+  return (
+    <section className="grid gap-3 sm:grid-cols-2" aria-label={t("device.section")}>
+      {robots.map(robot => {
+        const connection = robotConnection(robot, now);
+        const since = offlineSince(robot);
+        const resident = robot.resident_id ? residentById.get(robot.resident_id) : undefined;
+        const timeZone = resident?.time_zone ?? null;
+        return (
+          <div
+            key={robot.id}
+            className={`rounded-2xl border p-4 shadow-sm ${
+              connection === "offline"
+                ? "border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20"
+                : "border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+            }`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-900 dark:text-white truncate">{robot.name}</p>
+                {resident ? (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{t("device.with", { name: resident.name })}</p>
+                ) : null}
+              </div>
+              <span
+                className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${
+                  connection === "online"
+                    ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
+                    : connection === "offline"
+                      ? "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                      : "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+                }`}
+              >
+                {connection === "online"
+                  ? t("robot.online")
+                  : connection === "offline"
+                    ? since
+                      ? t("robot.offlineSince", { time: formatSince(since, now, locale, timeZone) })
+                      : t("robot.offline")
+                    : t("robot.notConnected")}
+              </span>
+            </div>
+            {connection !== "never" ? (
+              <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-2 text-sm text-slate-700 dark:text-slate-300">
+                <div>
+                  <dt className="text-xs text-slate-500 dark:text-slate-400">{t("device.battery")}</dt>
+                  <dd>
+                    <BatteryMeter robot={robot} />
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-500 dark:text-slate-400">{t("device.wifi")}</dt>
+                  <dd>
+                    <WifiMeter rssi={robot.wifi_rssi} />
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-500 dark:text-slate-400">{t("device.room")}</dt>
+                  <dd>{robot.current_room ?? t("device.roomUnknown")}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-500 dark:text-slate-400">{t("device.firmware")}</dt>
+                  <dd className="font-mono text-xs">{robot.firmware_version ?? "—"}</dd>
+                </div>
+                {connection === "online" && robot.last_seen_at ? (
+                  <div className="col-span-2 text-xs text-slate-500 dark:text-slate-400">
+                    {t("device.lastHeartbeat", { time: formatSince(new Date(robot.last_seen_at), now, locale, timeZone) })}
+                  </div>
+                ) : null}
+              </dl>
+            ) : null}
+            {canControl(robot) ? (
+              <div className="mt-3">
+                <button
+                  type="button"
+                  onClick={() => setControlsOpenId(prev => (prev === robot.id ? null : robot.id))}
+                  className="text-sm font-medium text-slate-600 dark:text-slate-400 hover:underline"
+                >
+                  {controlsOpenId === robot.id ? t("device.hideControls") : t("device.controls")}
+                </button>
+                {controlsOpenId === robot.id ? (
+                  <div className="mt-3">
+                    <RobotCommands robot={robot} timeZone={timeZone} />
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+    </section>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { stepRecipient, type EscalationProgress } from "@/lib/escalations";
+import type { Translate } from "@/lib/i18n";
+import { formatInTimeZone } from "@/lib/time";
+import { useTranslation } from "@/app/providers";
+
+const tickInterval = 15 * 1000;
+
+function formatCountdown(ms: number, t: Translate): string {
+  if (ms <= 0) return t("escalation.anyMoment");
+  return t("escalation.inMinutes", { count: Math.ceil(ms / 60000) });
+}
+
+export default function EscalationStatus({
+  progress,
+  timeZone = null,
+}: {
+  progress: EscalationProgress;
+  timeZone?: string | null;
+}) {
+  const { locale, t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!progress.nextAt) return;
+    const intervalId = setInterval(() => setNow(Date.now()), tickInterval);
+    return () => clearInterval(intervalId);
+  }, [progress.nextAt]);
+
+  return (
+    <div className="mb-4 rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3 space-y-1">
+      <div className="flex items-center gap-2">
+        <div className="flex gap-1" aria-hidden>
+          {Array.from({ length: progress.total }, (_, i) => (
+            <div
+              key={i}
+              className={`h-1.5 w-5 rounded-full ${i < progress.fired ? "bg-red-500" : "bg-red-200 dark:bg-red-900"}`}
+            ></div>
+          ))}
+        </div>
+        <p className="text-sm font-semibold text-slate-800 dark:text-slate-100">
+          {progress.fired === 0
+            ? t("escalation.notStarted")
+            : t("escalation.step", { fired: progress.fired, total: progress.total })}
+          {progress.last ? (
+            <span className="font-normal text-slate-600 dark:text-slate-300">
+              {t("escalation.notified", { name: stepRecipient(progress.last) })}
+            </span>
+          ) : null}
+        </p>
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-300">
+        {progress.next && progress.nextAt ? (
+          <>
+            {t("escalation.next")} <span className="font-medium">{stepRecipient(progress.next)}</span>{" "}
+            {t("escalation.at", { time: formatInTimeZone(progress.nextAt, { locale, timeZone, style: "time" }) })} (
+            {formatCountdown(progress.nextAt.getTime() - now, t)})
+          </>
+        ) : (
+          t("escalation.allNotified")
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import type { EventMediaState, ResolvedMedia } from "@/lib/media";
+import { useTranslation } from "@/app/providers";
+import MediaViewer, { useReloadOnNewUrl } from "@/components/MediaViewer";
+import Timestamp from "@/components/Timestamp";
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+function SignedVideo({ item }: { item: ResolvedMedia }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useReloadOnNewUrl(videoRef, item.url);
+
+  return (
+    <video ref={videoRef} controls preload="metadata" playsInline poster={item.posterUrl ?? undefined}>
+      <source src={item.url} type={item.mime_type} />
+    </video>
+  );
+}
+
+export default function EventMediaGallery({
+  eventId,
+  state,
+  detectedAt = null,
+  timeZone = null,
+  rounded = "rounded-xl",
+}: {
+  eventId: string | number;
+  state: EventMediaState;
+  // When the event was raised, used to mark the fall on the viewer's timeline
+  detectedAt?: string | null;
+  timeZone?: string | null;
+  rounded?: string;
+}) {
+  const { t } = useTranslation();
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const closeViewer = useCallback(() => setViewerIndex(null), []);
+
+  if (state.status === "error") {
+    return (
+      <div className={`${rounded} border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 p-4 flex items-center gap-3`}>
+        <svg className="h-5 w-5 text-slate-500 dark:text-slate-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+        <p className="text-sm text-slate-600 dark:text-slate-300">{state.message}</p>
+      </div>
+    );
+  }
+
+  const media = state.items;
+  if (media.length === 0) return null;
+
+  const isSingle = media.length === 1;
+
+  return (
+    <div className={isSingle ? "max-w-[600px] mx-auto" : "grid gap-3 sm:grid-cols-2"}>
+      {media.map((item, index) => (
+        <figure key={item.id} className="space-y-1">
+          <div className={`${rounded} overflow-hidden border border-slate-200 dark:border-slate-700 shadow-sm`}>
+            <div className="aspect-16/9">
+              {item.kind === "image" ? (
+                <img src={item.url} alt={`Event ${String(eventId)} snapshot`} />
+              ) : (
+                <SignedVideo item={item} />
+              )}
+            </div>
+          </div>
+          <figcaption className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            {item.camera ? <span className="font-medium capitalize">{item.camera}</span> : null}
+            {!isSingle ? <Timestamp value={item.captured_at} timeZone={timeZone} style="time" /> : null}
+            {!isSingle && item.duration_ms ? <span>{formatDuration(item.duration_ms)}</span> : null}
+            <button
+              type="button"
+              onClick={() => setViewerIndex(index)}
+              className="ml-auto font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {t("media.fullScreen")}
+            </button>
+          </figcaption>
+        </figure>
+      ))}
+      {viewerIndex !== null ? (
+        <MediaViewer
+          eventId={eventId}
+          items={media}
+          initialIndex={viewerIndex}
+          detectedAt={detectedAt}
+          timeZone={timeZone}
+          onClose={closeViewer}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { EventTypeColor, EventTypeIcon as IconName } from "@/lib/eventTypes";
+
+// Tailwind needs whole class names, so each registry color maps to literal classes
+export const eventTypeColorClasses: Record<
+  EventTypeColor,
+  { border: string; dot: string; badge: string; text: string }
+> = {
+  red: {
+    border: "border-red-200 dark:border-red-800 hover:border-red-300 dark:hover:border-red-700",
+    dot: "bg-red-500",
+    badge: "bg-red-100 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300",
+    text: "text-red-600 dark:text-red-400",
+  },
+  orange: {
+    border: "border-orange-200 dark:border-orange-800 hover:border-orange-300 dark:hover:border-orange-700",
+    dot: "bg-orange-500",
+    badge: "bg-orange-100 dark:bg-orange-900/30 border-orange-200 dark:border-orange-800 text-orange-700 dark:text-orange-300",
+    text: "text-orange-600 dark:text-orange-400",
+  },
+  amber: {
+    border: "border-amber-200 dark:border-amber-800 hover:border-amber-300 dark:hover:border-amber-700",
+    dot: "bg-amber-500",
+    badge: "bg-amber-100 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300",
+    text: "text-amber-600 dark:text-amber-400",
+  },
+  blue: {
+    border: "border-blue-200 dark:border-blue-800 hover:border-blue-300 dark:hover:border-blue-700",
+    dot: "bg-blue-500",
+    badge: "bg-blue-100 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300",
+    text: "text-blue-600 dark:text-blue-400",
+  },
+  slate: {
+    border: "border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600",
+    dot: "bg-slate-400",
+    badge: "bg-slate-100 dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300",
+    text: "text-slate-500 dark:text-slate-400",
+  },
+};
+
+const iconPaths: Record<IconName, string> = {
+  fall: "M12 4a1.5 1.5 0 100 3 1.5 1.5 0 000-3zM9 9l3 2 3-2m-3 2v4m0 0l-3 5m3-5l3 5M4 20h16",
+  motion: "M13 10V3L4 14h7v7l9-11h-7z",
+  help: "M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+  check_in: "M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z",
+  offline: "M18.364 5.636a9 9 0 010 12.728M5.636 18.364a9 9 0 010-12.728M3 3l18 18",
+  battery: "M4 8h13a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1V9a1 1 0 011-1zm17 3v2M6 11v2",
+  alert: "M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 18.5c-.77.833.192 2.5 1.732 2.5z",
+};
+
+export default function EventTypeIcon({ icon, className = "h-4 w-4" }: { icon: IconName; className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden>
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={iconPaths[icon]} />
+    </svg>
+  );
+}
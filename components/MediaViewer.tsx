@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { detectedOffsetMs, downloadUrl, type ResolvedMedia } from "@/lib/media";
+import { useTranslation } from "@/app/providers";
+import Timestamp from "@/components/Timestamp";
+
+// The robot records at 30 fps; stepping by one frame is close enough either way
+const frameSeconds = 1 / 30;
+const playbackRates = [0.25, 0.5, 1, 1.5, 2];
+
+function formatClock(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "0:00.0";
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, "0")}`;
+}
+
+// Signed URLs are swapped in place when they are refreshed, so reload the
+// element and pick up where the viewer left off.
+export function useReloadOnNewUrl(videoRef: RefObject<HTMLVideoElement | null>, url: string) {
+  const loadedUrlRef = useRef(url);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || loadedUrlRef.current === url) return;
+    loadedUrlRef.current = url;
+
+    const resumeAt = video.currentTime;
+    const wasPlaying = !video.paused && !video.ended;
+    video.load();
+    if (resumeAt > 0) {
+      video.addEventListener(
+        "loadedmetadata",
+        () => {
+          video.currentTime = resumeAt;
+          if (wasPlaying) video.play().catch(() => {});
+        },
+        { once: true }
+      );
+    }
+  }, [videoRef, url]);
+}
+
+const controlClass =
+  "px-3 py-1.5 rounded-lg border border-white/20 text-sm font-medium text-white hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors duration-200";
+
+function VideoStage({ item, detectedAtMs }: { item: ResolvedMedia; detectedAtMs: number | null }) {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(item.duration_ms ? item.duration_ms / 1000 : 0);
+  const [rate, setRate] = useState(1);
+
+  useReloadOnNewUrl(videoRef, item.url);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = rate;
+  }, [rate]);
+
+  function togglePlay() {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused || video.ended) video.play().catch(() => {});
+    else video.pause();
+  }
+
+  function seek(seconds: number) {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = Math.min(Math.max(seconds, 0), video.duration || duration);
+    setCurrentTime(video.currentTime);
+  }
+
+  function stepFrame(direction: 1 | -1) {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    seek(video.currentTime + direction * frameSeconds);
+  }
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const video = videoRef.current;
+      if (!video) return;
+      if (e.key === " ") {
+        e.preventDefault();
+        togglePlay();
+      } else if (e.key === ",") {
+        stepFrame(-1);
+      } else if (e.key === ".") {
+        stepFrame(1);
+      } else if (e.key === "ArrowLeft") {
+        seek(video.currentTime - 1);
+      } else if (e.key === "ArrowRight") {
+        seek(video.currentTime + 1);
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  const detectedAtSeconds = detectedAtMs !== null ? detectedAtMs / 1000 : null;
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 flex-1">
+      <div className="flex-1 min-h-0 flex items-center justify-center">
+        <video
+          ref={videoRef}
+          className="max-h-full max-w-full"
+          preload="auto"
+          playsInline
+          poster={item.posterUrl ?? undefined}
+          onClick={togglePlay}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+          onLoadedMetadata={e => {
+            setDuration(e.currentTarget.duration);
+            e.currentTarget.playbackRate = rate;
+          }}
+        >
+          <source src={item.url} type={item.mime_type} />
+        </video>
+      </div>
+
+      <div className="relative h-6">
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={frameSeconds}
+          value={currentTime}
+          onChange={e => seek(Number(e.target.value))}
+          className="absolute inset-0 w-full accent-white"
+          aria-label={t("viewer.seek")}
+        />
+        {detectedAtSeconds !== null && duration > 0 ? (
+          <button
+            type="button"
+            onClick={() => seek(detectedAtSeconds)}
+            className="absolute -top-5 -translate-x-1/2 flex flex-col items-center"
+            style={{ left: `${Math.min(100, (detectedAtSeconds / duration) * 100)}%` }}
+            title={t("viewer.fallAt", { time: formatClock(detectedAtSeconds) })}
+          >
+            <span className="px-1.5 rounded bg-red-600 text-[10px] font-semibold text-white">{t("viewer.fall")}</span>
+            <span className="h-4 w-0.5 bg-red-500"></span>
+          </button>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={togglePlay} className={controlClass}>
+          {playing ? t("viewer.pause") : t("viewer.play")}
+        </button>
+        <button type="button" onClick={() => stepFrame(-1)} className={controlClass} title={t("viewer.previousFrameHint")}>
+          {t("viewer.previousFrame")}
+        </button>
+        <button type="button" onClick={() => stepFrame(1)} className={controlClass} title={t("viewer.nextFrameHint")}>
+          {t("viewer.nextFrame")}
+        </button>
+        {detectedAtSeconds !== null ? (
+          <button type="button" onClick={() => seek(Math.max(0, detectedAtSeconds - 2))} className={controlClass}>
+            {t("viewer.jumpToFall")}
+          </button>
+        ) : null}
+        <label className="flex items-center gap-2 text-sm text-white/80">
+          {t("viewer.speed")}
+          <select
+            value={rate}
+            onChange={e => setRate(Number(e.target.value))}
+            className="rounded-lg border border-white/20 bg-slate-900 px-2 py-1 text-white"
+          >
+            {playbackRates.map(option => (
+              <option key={option} value={option}>
+                {option}×
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="ml-auto font-mono text-sm text-white/80">
+          {formatClock(currentTime)} / {formatClock(duration)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// Full-screen review of an event's footage: frame stepping, playback speed, a
+// marker at the moment of the fall, and downloads. Keyboard: space plays and
+// pauses, , and . step a frame, ← and → skip a second, Esc closes.
+export default function MediaViewer({
+  eventId,
+  items,
+  initialIndex = 0,
+  detectedAt = null,
+  timeZone = null,
+  onClose,
+}: {
+  eventId: string | number;
+  items: ResolvedMedia[];
+  initialIndex?: number;
+  detectedAt?: string | null;
+  timeZone?: string | null;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const [index, setIndex] = useState(initialIndex);
+  const item = items[Math.min(index, items.length - 1)];
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      document.body.style.overflow = previousOverflow;
+    };
+  }, [onClose]);
+
+  if (!item) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col gap-4 bg-black/95 p-4 sm:p-6" role="dialog" aria-modal="true" aria-label={t("viewer.label")}>
+      <div className="flex items-center gap-3 text-white">
+        <p className="text-sm font-medium">
+          {item.camera ? <span className="capitalize">{item.camera} · </span> : null}
+          <Timestamp value={item.captured_at} timeZone={timeZone} />
+          {items.length > 1 ? (
+            <span className="text-white/60">
+              {" · "}
+              {t("viewer.position", { index: index + 1, total: items.length })}
+            </span>
+          ) : null}
+        </p>
+        <div className="ml-auto flex items-center gap-2">
+          {items.length > 1 ? (
+            <>
+              <button type="button" onClick={() => setIndex(i => i - 1)} disabled={index === 0} className={controlClass}>
+                {t("viewer.previous")}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIndex(i => i + 1)}
+                disabled={index === items.length - 1}
+                className={controlClass}
+              >
+                {t("viewer.next")}
+              </button>
+            </>
+          ) : null}
+          <a href={downloadUrl(item, eventId)} className={controlClass}>
+            {t("viewer.download")}
+          </a>
+          <button type="button" onClick={onClose} className={controlClass}>
+            {t("viewer.close")}
+          </button>
+        </div>
+      </div>
+
+      {item.kind === "image" ? (
+        <div className="flex-1 min-h-0 flex items-center justify-center">
+          <img src={item.url} alt={`Event ${String(eventId)} snapshot`} className="max-h-full max-w-full" />
+        </div>
+      ) : (
+        <VideoStage key={item.id} item={item} detectedAtMs={detectedOffsetMs(item, detectedAt)} />
+      )}
+    </div>
+  );
+}
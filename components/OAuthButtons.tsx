@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import type { Provider } from "@supabase/supabase-js";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useTranslation } from "@/app/providers";
+import { authCallbackUrl, oauthProviders } from "@/lib/auth";
+
+export default function OAuthButtons({ next }: { next: string }) {
+  const supabase = getBrowserSupabaseClient();
+  const { t } = useTranslation();
+  const [pendingProvider, setPendingProvider] = useState<Provider | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (oauthProviders.length === 0) return null;
+
+  async function signIn(provider: Provider) {
+    setError(null);
+    setPendingProvider(provider);
+    const { error: oauthError } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: authCallbackUrl(next) },
+    });
+    // On success the browser is already on its way to the provider
+    if (oauthError) {
+      setError(oauthError.message);
+      setPendingProvider(null);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <div className="h-px flex-1 bg-slate-200 dark:bg-slate-700"></div>
+        {t("oauth.or")}
+        <div className="h-px flex-1 bg-slate-200 dark:bg-slate-700"></div>
+      </div>
+      {oauthProviders.map(provider => (
+        <button
+          key={provider.id}
+          type="button"
+          onClick={() => signIn(provider.id)}
+          disabled={pendingProvider !== null}
+          className="w-full px-3 py-2 rounded border disabled:opacity-50"
+        >
+          {pendingProvider === provider.id ? t("oauth.redirecting") : t("oauth.continueWith", { provider: provider.label })}
+        </button>
+      ))}
+      {error ? <p className="text-red-600 text-sm">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import Link from "next/link";
+import {
+  alertOutcomeLabel,
+  alertPath,
+  alertStatusLabel,
+  formatEventType,
+  type AlertWithEvent,
+} from "@/lib/alerts";
+import type { EventMediaState, MediaThumbnail } from "@/lib/media";
+import { eventTypeInfo } from "@/lib/eventTypes";
+import EventMediaGallery from "@/components/EventMediaGallery";
+import AlertTimeline from "@/components/AlertTimeline";
+import AlertResolutionDetails from "@/components/AlertResolutionDetails";
+import EventTypeIcon, { eventTypeColorClasses } from "@/components/EventTypeIcon";
+import Timestamp from "@/components/Timestamp";
+import { useTranslation } from "@/app/providers";
+
+function Thumbnail({ thumbnail, className }: { thumbnail: MediaThumbnail; className: string }) {
+  return (
+    <span className={`relative block overflow-hidden bg-slate-900 ${className}`}>
+      <img src={thumbnail.url} alt="" className="h-full w-full object-cover" />
+      {thumbnail.kind === "video" ? (
+        <span className="absolute inset-0 flex items-center justify-center">
+          <svg className="h-1/3 w-1/3 text-white drop-shadow" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        </span>
+      ) : null}
+      {thumbnail.count > 1 ? (
+        <span className="absolute bottom-0.5 right-0.5 rounded bg-black/70 px-1 text-[10px] font-semibold text-white">
+          {thumbnail.count}
+        </span>
+      ) : null}
+    </span>
+  );
+}
+
+// A closed alert as a collapsible row: summary and outcome, with footage,
+// resolution details and the timeline when expanded.
+export default function PastAlertRow({
+  alert: a,
+  residentName = null,
+  mediaState,
+  thumbnail,
+  currentUserId,
+  timeZone = null,
+  expanded,
+  highlighted = false,
+  onToggle,
+}: {
+  alert: AlertWithEvent;
+  residentName?: string | null;
+  mediaState: EventMediaState | undefined;
+  // Poster frame for the collapsed row, shown while the full media loads
+  thumbnail?: MediaThumbnail;
+  currentUserId: string;
+  timeZone?: string | null;
+  expanded: boolean;
+  highlighted?: boolean;
+  onToggle: () => void;
+}) {
+  const { locale, t } = useTranslation();
+  const eventType = eventTypeInfo(a.event?.type);
+  return (
+    <div
+      id={`alert-${a.id}`}
+      className={`rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-sm hover:shadow-md transition-all duration-200 scroll-mt-24 ${
+        highlighted ? "ring-4 ring-slate-300 dark:ring-slate-600" : ""
+      }`}
+    >
+      <button
+        type="button"
+        onClick={onToggle}
+        className="w-full p-4 flex items-center justify-between gap-4 hover:bg-slate-50 dark:hover:bg-slate-750 rounded-xl transition-colors duration-200"
+      >
+        <div className="flex items-center gap-3 text-left">
+          <span className={eventTypeColorClasses[eventType.color].text}>
+            <EventTypeIcon icon={eventType.icon} />
+          </span>
+          {thumbnail ? (
+            <Thumbnail thumbnail={thumbnail} className="h-10 w-16 flex-shrink-0 rounded-md border border-slate-200 dark:border-slate-700" />
+          ) : null}
+          <div>
+            <p className="text-sm font-medium text-slate-900 dark:text-white">
+              {formatEventType(a.event?.type, locale)}
+              {residentName ? (
+                <span className="font-normal text-slate-500 dark:text-slate-400">
+                  {" · "}
+                  {residentName}
+                </span>
+              ) : null}
+            </p>
+            <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400">
+              <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <Timestamp value={a.created_at} timeZone={timeZone} relative className="text-xs" />
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span
+            className={`px-2 py-1 rounded-md border text-xs font-medium ${
+              a.status === "false_alarm"
+                ? "bg-slate-100 dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300"
+                : "bg-green-100 dark:bg-green-900/30 border-green-200 dark:border-green-800 text-green-700 dark:text-green-300"
+            }`}
+          >
+            {alertStatusLabel(a.status, locale)}
+          </span>
+          {a.outcome && a.outcome !== "false_alarm" ? (
+            <span className="hidden sm:inline px-2 py-1 rounded-md border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 text-xs font-medium">
+              {alertOutcomeLabel(a.outcome, locale)}
+            </span>
+          ) : null}
+          <svg 
+            className={`h-4 w-4 text-slate-400 transition-transform duration-200 ${expanded ? 'rotate-180' : ''}`} 
+            fill="none" 
+            viewBox="0 0 24 24" 
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+      </button>
+      {expanded ? (
+        <div className="px-4 pb-4 border-t border-slate-200 dark:border-slate-700">
+          <div className="pt-4">
+            {mediaState && (mediaState.status === "error" || mediaState.items.length > 0) ? (
+              <EventMediaGallery
+                eventId={a.trigger_event}
+                state={mediaState}
+                detectedAt={a.event?.created_at}
+                timeZone={timeZone}
+                rounded="rounded-lg"
+              />
+            ) : !mediaState && thumbnail ? (
+              <Thumbnail
+                thumbnail={thumbnail}
+                className="max-w-[600px] mx-auto aspect-16/9 rounded-lg border border-slate-200 dark:border-slate-700 animate-pulse"
+              />
+            ) : (
+              <div
+                className={`h-24 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-800 flex flex-col items-center justify-center gap-2 ${
+                  mediaState ? "" : "animate-pulse"
+                }`}
+              >
+                <svg className="h-8 w-8 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                {mediaState ? (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{t("alert.noMedia")}</p>
+                ) : null}
+              </div>
+            )}
+            <div className="mt-4">
+              <AlertResolutionDetails alert={a} />
+            </div>
+            <div className="mt-4">
+              <AlertTimeline alert={a} currentUserId={currentUserId} timeZone={timeZone} />
+            </div>
+            <Link
+              href={alertPath(a.id)}
+              className="mt-4 inline-block text-sm font-medium text-slate-600 dark:text-slate-400 hover:underline"
+            >
+              {t("alert.openPage")}
+            </Link>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { disablePushNotifications, enablePushNotifications, getPushState, type PushState } from "@/lib/push";
+import { useTranslation } from "@/app/providers";
+
+// Banner offering alert notifications on this device. Hidden once they are on,
+// or where the browser cannot receive push.
+export default function PushNotificationsToggle() {
+  const supabase = getBrowserSupabaseClient();
+  const { t } = useTranslation();
+  const [state, setState] = useState<PushState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    getPushState()
+      .then(current => {
+        if (isMounted) setState(current);
+      })
+      .catch(() => {
+        if (isMounted) setState("unsupported");
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  async function toggle() {
+    setError(null);
+    setSaving(true);
+    try {
+      setState(state === "on" ? await disablePushNotifications(supabase) : await enablePushNotifications(supabase));
+    } catch (err: any) {
+      setError(err?.message ?? t("push.failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (state === null || state === "unsupported") return null;
+
+  if (state === "on") {
+    return (
+      <button
+        type="button"
+        onClick={toggle}
+        disabled={saving}
+        className="text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-50"
+      >
+        {saving ? t("push.turningOff") : t("push.on")}
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <div>
+        <p className="text-sm font-semibold text-slate-900 dark:text-white">{t("push.title")}</p>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {state === "denied" ? t("push.denied") : t("push.description")}
+        </p>
+        {error ? <p className="text-red-600 dark:text-red-400 text-sm mt-1">{error}</p> : null}
+      </div>
+      {state === "off" ? (
+        <button
+          type="button"
+          onClick={toggle}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium hover:bg-slate-800 dark:hover:bg-slate-100 disabled:opacity-50 whitespace-nowrap"
+        >
+          {saving ? t("push.turningOn") : t("push.turnOn")}
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+export default function ResidentAvatar({
+  name,
+  photoUrl,
+  size = "h-8 w-8",
+}: {
+  name: string;
+  photoUrl?: string | null;
+  size?: string;
+}) {
+  if (photoUrl) {
+    return <img src={photoUrl} alt={name} className={`${size} rounded-full object-cover ring-2 ring-white dark:ring-slate-900`} />;
+  }
+  return (
+    <div
+      className={`${size} rounded-full bg-slate-200 dark:bg-slate-700 flex items-center justify-center text-sm font-semibold text-slate-700 dark:text-slate-200 ring-2 ring-white dark:ring-slate-900`}
+      aria-hidden
+    >
+      {name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
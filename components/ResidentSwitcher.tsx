@@ -0,0 +1,66 @@
+"use client";
+
+import type { Resident } from "@/lib/residents";
+import { useTranslation } from "@/app/providers";
+import ResidentAvatar from "@/components/ResidentAvatar";
+
+export const allResidents = "all";
+
+export default function ResidentSwitcher({
+  residents,
+  photoUrlById,
+  selectedId,
+  activeCountById,
+  onSelect,
+}: {
+  residents: Resident[];
+  photoUrlById: Record<string, string>;
+  selectedId: string;
+  activeCountById: Record<string, number>;
+  onSelect: (residentId: string) => void;
+}) {
+  const { t } = useTranslation();
+  const options = [
+    { id: allResidents, label: t("residents.all"), photoUrl: null as string | null },
+    ...residents.map(r => ({ id: r.id, label: r.name, photoUrl: photoUrlById[r.id] ?? null })),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label={t("residents.label")}>
+      {options.map(option => {
+        const isSelected = option.id === selectedId;
+        const count = option.id === allResidents
+          ? Object.values(activeCountById).reduce((sum, n) => sum + n, 0)
+          : activeCountById[option.id] ?? 0;
+        return (
+          <button
+            key={option.id}
+            type="button"
+            role="tab"
+            aria-selected={isSelected}
+            onClick={() => onSelect(option.id)}
+            className={`flex items-center gap-2 pl-1.5 pr-3 py-1.5 rounded-full border text-sm font-medium transition-colors duration-200 ${
+              isSelected
+                ? "bg-slate-900 dark:bg-white border-slate-900 dark:border-white text-white dark:text-slate-900"
+                : "bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+            }`}
+          >
+            {option.id === allResidents ? (
+              <div className="h-6 w-6 rounded-full bg-slate-200 dark:bg-slate-700 flex items-center justify-center">
+                <svg className="h-3.5 w-3.5 text-slate-600 dark:text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+              </div>
+            ) : (
+              <ResidentAvatar name={option.label} photoUrl={option.photoUrl} size="h-6 w-6" />
+            )}
+            <span>{option.label}</span>
+            {count > 0 ? (
+              <span className="ml-1 px-1.5 rounded-full bg-red-500 text-white text-xs font-semibold">{count}</span>
+            ) : null}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
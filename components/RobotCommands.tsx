@@ -0,0 +1,264 @@
+"use client";
+
+import { FormEvent, useEffect, useId, useState } from "react";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { useTranslation } from "@/app/providers";
+import {
+  commandStatusLabel,
+  describeCommand,
+  describeCommandResult,
+  isCommandPending,
+  listCommands,
+  maxSpokenMessageLength,
+  queueCommand,
+  signSnapshots,
+  type CommandRequest,
+  type RobotCommand,
+} from "@/lib/commands";
+import { robotConnection, type RobotStatus } from "@/lib/robots";
+import Timestamp from "@/components/Timestamp";
+
+const progressSteps = ["queued", "delivered", "done"] as const;
+
+function CommandProgress({ command }: { command: RobotCommand }) {
+  const { locale } = useTranslation();
+  const failed = command.status === "failed";
+  const reached = failed
+    ? command.delivered_at
+      ? 2
+      : 1
+    : progressSteps.indexOf(command.status as (typeof progressSteps)[number]) + 1;
+  return (
+    <div className="flex shrink-0 items-center gap-1">
+      {progressSteps.map((step, i) => (
+        <div
+          key={step}
+          className={`h-1.5 w-6 rounded-full ${
+            i < reached
+              ? "bg-slate-700 dark:bg-slate-200"
+              : failed && i === reached
+                ? "bg-red-500"
+                : "bg-slate-200 dark:bg-slate-700"
+          } ${isCommandPending(command) && i === reached - 1 ? "animate-pulse" : ""}`}
+        ></div>
+      ))}
+      <span
+        className={`ml-1 text-xs font-medium ${
+          failed
+            ? "text-red-700 dark:text-red-300"
+            : command.status === "done"
+              ? "text-green-700 dark:text-green-300"
+              : "text-slate-600 dark:text-slate-300"
+        }`}
+      >
+        {commandStatusLabel(command.status, locale)}
+      </span>
+    </div>
+  );
+}
+
+// Sends commands to one robot and follows them through queued → delivered →
+// done/failed. With an alert, the quick actions are the ones that matter right
+// after a fall and only commands sent from that alert are listed. Times are in
+// the resident's time zone, like the rest of the alert.
+export default function RobotCommands({
+  robot,
+  alertId,
+  timeZone = null,
+}: {
+  robot: RobotStatus;
+  alertId?: string;
+  timeZone?: string | null;
+}) {
+  const supabase = getBrowserSupabaseClient();
+  const { locale, t } = useTranslation();
+  const channelId = useId();
+  const [commands, setCommands] = useState<RobotCommand[]>([]);
+  const [snapshotUrlById, setSnapshotUrlById] = useState<Record<string, string>>({});
+  const [sending, setSending] = useState<CommandRequest["type"] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [room, setRoom] = useState("");
+
+  useEffect(() => {
+    let isMounted = true;
+
+    function applyCommand(command: RobotCommand) {
+      if (alertId && command.alert_id !== alertId) return;
+      setCommands(prev =>
+        prev.some(c => c.id === command.id)
+          ? prev.map(c => (c.id === command.id ? command : c))
+          : [command, ...prev]
+      );
+    }
+
+    listCommands(supabase, robot.id, { alertId })
+      .then(loaded => {
+        if (isMounted) setCommands(loaded);
+      })
+      .catch((err: any) => {
+        if (isMounted) setError(err?.message ?? t("commands.loadFailed"));
+      });
+
+    const robotFilter = { schema: "public", table: "commands", filter: `robot_id=eq.${robot.id}` };
+    const channel = supabase
+      .channel(`commands:${robot.id}:${channelId}`)
+      .on("postgres_changes", { event: "INSERT", ...robotFilter }, payload => {
+        applyCommand(payload.new as RobotCommand);
+      })
+      .on("postgres_changes", { event: "UPDATE", ...robotFilter }, payload => {
+        applyCommand(payload.new as RobotCommand);
+      })
+      .subscribe();
+
+    return () => {
+      isMounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [robot.id, alertId, channelId, supabase]);
+
+  // Snapshots appear once the robot has uploaded the image and finished the command
+  useEffect(() => {
+    const unsigned = commands.filter(c => c.result_path && !snapshotUrlById[c.id]);
+    if (unsigned.length === 0) return;
+    signSnapshots(supabase, unsigned)
+      .then(urls => setSnapshotUrlById(prev => ({ ...prev, ...urls })))
+      .catch((err: any) => setError(err?.message ?? t("commands.snapshotFailed")));
+  }, [commands, snapshotUrlById, supabase]);
+
+  async function send(request: CommandRequest) {
+    setError(null);
+    setSending(request.type);
+    try {
+      const queued = await queueCommand(supabase, robot.id, request, alertId ?? null);
+      setCommands(prev => (prev.some(c => c.id === queued.id) ? prev : [queued, ...prev]));
+      if (request.type === "speak") setMessage("");
+      if (request.type === "go_to_room") setRoom("");
+    } catch (err: any) {
+      setError(err?.message ?? t("commands.sendFailed"));
+    } finally {
+      setSending(null);
+    }
+  }
+
+  function onSpeak(e: FormEvent) {
+    e.preventDefault();
+    const text = message.trim();
+    if (text) send({ type: "speak", message: text });
+  }
+
+  function onGoToRoom(e: FormEvent) {
+    e.preventDefault();
+    const target = room.trim();
+    if (target) send({ type: "go_to_room", room: target });
+  }
+
+  // Said through the robot from an alert, so the resident knows someone is coming
+  const helpIsComingMessage = t("commands.helpIsComingMessage");
+  const offline = robotConnection(robot, Date.now()) !== "online";
+  const buttonClass =
+    "px-3 py-1.5 rounded-lg border border-slate-300 dark:border-slate-600 text-sm text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+  const primaryButtonClass =
+    "px-3 py-1.5 rounded-lg bg-slate-900 dark:bg-white text-sm text-white dark:text-slate-900 font-medium hover:bg-slate-800 dark:hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+  const inputClass =
+    "min-w-0 flex-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 px-3 py-1.5 text-sm";
+
+  return (
+    <div className="space-y-3">
+      {offline ? (
+        <p className="text-xs text-amber-700 dark:text-amber-300">
+          {t("commands.offline", { robot: robot.name })}
+        </p>
+      ) : null}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => send({ type: "snapshot" })}
+          disabled={sending !== null}
+          className={alertId ? primaryButtonClass : buttonClass}
+        >
+          {sending === "snapshot" ? t("commands.sending") : t("command.snapshot")}
+        </button>
+        {alertId ? (
+          <button
+            type="button"
+            onClick={() => send({ type: "speak", message: helpIsComingMessage })}
+            disabled={sending !== null}
+            className={primaryButtonClass}
+            title={t("command.speak", { message: helpIsComingMessage })}
+          >
+            {sending === "speak" ? t("commands.sending") : t("commands.helpIsComing")}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={() => send({ type: "check_in" })}
+          disabled={sending !== null}
+          className={buttonClass}
+        >
+          {sending === "check_in" ? t("commands.sending") : t("command.checkIn")}
+        </button>
+      </div>
+      <form onSubmit={onSpeak} className="flex gap-2">
+        <input
+          type="text"
+          value={message}
+          onChange={e => setMessage(e.target.value)}
+          maxLength={maxSpokenMessageLength}
+          placeholder={t("commands.speakPlaceholder", { robot: robot.name })}
+          className={inputClass}
+        />
+        <button type="submit" disabled={sending !== null || !message.trim()} className={buttonClass}>
+          {t("commands.speakButton")}
+        </button>
+      </form>
+      {!alertId ? (
+        <form onSubmit={onGoToRoom} className="flex gap-2">
+          <input
+            type="text"
+            value={room}
+            onChange={e => setRoom(e.target.value)}
+            placeholder={t("commands.roomPlaceholder")}
+            className={inputClass}
+          />
+          <button type="submit" disabled={sending !== null || !room.trim()} className={buttonClass}>
+            {t("commands.go")}
+          </button>
+        </form>
+      ) : null}
+      {error ? <p className="text-sm text-red-600 dark:text-red-400">{error}</p> : null}
+      {commands.length > 0 ? (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 text-sm">
+          {commands.map(command => {
+            const resultText = describeCommandResult(command, locale);
+            const snapshotUrl = snapshotUrlById[command.id];
+            return (
+              <li key={command.id} className="py-2 space-y-1">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="min-w-0 truncate text-slate-800 dark:text-slate-100">{describeCommand(command, locale)}</p>
+                  <CommandProgress command={command} />
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  <Timestamp value={command.created_at} timeZone={timeZone} style="time" />
+                  {resultText ? ` · ${resultText}` : null}
+                </p>
+                {command.status === "failed" && command.error ? (
+                  <p className="text-xs text-red-700 dark:text-red-300">{command.error}</p>
+                ) : null}
+                {snapshotUrl ? (
+                  <a href={snapshotUrl} target="_blank" rel="noreferrer" className="block">
+                    <img
+                      src={snapshotUrl}
+                      alt={t("commands.snapshotAlt", { robot: robot.name })}
+                      className="mt-1 max-h-48 rounded-lg border border-slate-200 dark:border-slate-700"
+                    />
+                  </a>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslation } from "@/app/providers";
+import { formatInTimeZone, formatLocalTime, formatRelative, type TimestampStyle } from "@/lib/time";
+
+const tickInterval = 30 * 1000;
+
+// Shown in the resident's time zone, since that's the wall-clock time the
+// family talks about ("she fell at 3 this morning"). Relative times keep
+// counting up, and hovering shows the viewer's own local time.
+export default function Timestamp({
+  value,
+  timeZone = null,
+  relative = false,
+  style = "datetime",
+  className,
+}: {
+  value: string;
+  timeZone?: string | null;
+  relative?: boolean;
+  style?: TimestampStyle;
+  className?: string;
+}) {
+  const { locale } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!relative) return;
+    const intervalId = setInterval(() => setNow(Date.now()), tickInterval);
+    return () => clearInterval(intervalId);
+  }, [relative]);
+
+  const absolute = formatInTimeZone(value, { locale, timeZone, style });
+  const relativeText = relative ? formatRelative(value, now, locale) : null;
+
+  return (
+    <time dateTime={value} title={formatLocalTime(value, locale)} className={className} suppressHydrationWarning>
+      {relativeText ? `${relativeText} · ${absolute}` : absolute}
+    </time>
+  );
+}
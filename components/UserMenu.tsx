@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import Link from "next/link";
+import { getBrowserSupabaseClient } from "@/lib/supabaseClient";
+import { signOutUser } from "@/lib/auth";
+import type { MessageKey } from "@/lib/i18n";
+import { useTranslation } from "@/app/providers";
+
+const settingsLinks: { href: string; label: MessageKey }[] = [
+  { href: "/settings#profile", label: "menu.profile" },
+  { href: "/settings#notifications", label: "menu.notifications" },
+  { href: "/settings#alert-types", label: "menu.alertTypes" },
+  { href: "/settings#residents", label: "menu.residents" },
+  { href: "/security", label: "menu.security" },
+];
+
+// The header's "Menu" button: a dropdown into the settings page, with sign-out
+// kept at the bottom so it's never the first thing clicked.
+export default function UserMenu({ email }: { email: string | null | undefined }) {
+  const supabase = getBrowserSupabaseClient();
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const menuId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    function onPointerDown(e: PointerEvent) {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    }
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") setOpen(false);
+    }
+    document.addEventListener("pointerdown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  async function signOut() {
+    setOpen(false);
+    await signOutUser(supabase);
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        aria-controls={menuId}
+        aria-haspopup="menu"
+        className="px-4 py-2 rounded-[100px] bg-slate-800 dark:bg-white text-white dark:text-slate-900 font-medium hover:bg-slate-800 dark:hover:bg-slate-100 transition-colors duration-200 shadow-sm"
+      >
+        {t("menu.button")}
+      </button>
+      {open ? (
+        <div
+          id={menuId}
+          role="menu"
+          className="absolute right-0 mt-2 w-64 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg py-2"
+        >
+          {email ? (
+            <p className="px-4 pb-2 mb-1 border-b border-slate-200 dark:border-slate-700 text-xs text-slate-500 dark:text-slate-400 truncate">
+              {t("menu.signedInAs", { email })}
+            </p>
+          ) : null}
+          {settingsLinks.map(link => (
+            <Link
+              key={link.href}
+              href={link.href}
+              role="menuitem"
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+            >
+              {t(link.label)}
+            </Link>
+          ))}
+          <button
+            type="button"
+            role="menuitem"
+            onClick={signOut}
+            className="mt-1 w-full border-t border-slate-200 dark:border-slate-700 px-4 pt-3 pb-2 text-left text-sm font-medium text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30"
+          >
+            {t("menu.signOut")}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+import type { EventMediaItem } from '@/lib/media';
+import { invokeFunction } from '@/lib/functions';
+import { eventTypeInfo } from '@/lib/eventTypes';
+import { defaultLocale, translate, translatedLabel, type Locale } from '@/lib/i18n';
+import type { AlertOutcome, AlertStatus } from '@/supabase/functions/_shared/alertTransitions';
+
+// Shared with the edge functions, along with the transition rules
+export type { AlertOutcome, AlertStatus } from '@/supabase/functions/_shared/alertTransitions';
+export type AlertRow = Tables<'alerts'>;
+export type EventRow = Pick<Tables<'events'>, 'id' | 'type' | 'robot_id' | 'created_at'> & { media: EventMediaItem[] };
+export type AlertTransition = Pick<
+  Tables<'alert_transitions'>,
+  'id' | 'from_status' | 'to_status' | 'actor_id' | 'created_at'
+> & {
+  actor: Pick<Tables<'profiles'>, 'email' | 'display_name'> | null;
+};
+export type AlertAttachment = Pick<Tables<'alert_attachments'>, 'id' | 'path' | 'file_name' | 'mime_type' | 'created_at'>;
+export type AlertEscalation = Pick<Tables<'alert_escalations'>, 'id' | 'position' | 'recipient' | 'created_at'>;
+export type AlertWithEvent = AlertRow & {
+  event: EventRow | null;
+  transitions: AlertTransition[];
+  attachments: AlertAttachment[];
+  escalations: AlertEscalation[];
+};
+export type AlertResolution = {
+  outcome: AlertOutcome;
+  notes: string;
+  attachments: Pick<AlertAttachment, 'path' | 'file_name' | 'mime_type'>[];
+};
+
+export const activeAlertStatuses: AlertStatus[] = ['new', 'acknowledged'];
+export const pastAlertStatuses: AlertStatus[] = ['resolved', 'false_alarm'];
+
+export const alertStatusLabels: Record<AlertStatus, string> = {
+  new: 'New',
+  acknowledged: 'In progress',
+  resolved: 'Resolved',
+  false_alarm: 'False alarm',
+};
+
+export const alertOutcomes: AlertOutcome[] = ['false_alarm', 'no_injury', 'minor_injury', 'medical_attention', 'hospital'];
+
+export const alertOutcomeLabels: Record<AlertOutcome, string> = {
+  false_alarm: 'False alarm',
+  no_injury: 'No injury',
+  minor_injury: 'Minor injury',
+  medical_attention: 'Medical attention',
+  hospital: 'Hospital',
+};
+
+// Alerts embed their trigger event (and its media manifest) and their status
+// history through foreign keys so each query is a single round trip.
+const alertWithEventColumns =
+  'id, created_at, status, trigger_event, user_id, resident_id, outcome, resolution_notes, escalation_step, next_escalation_at, event:events(id, type, robot_id, created_at, media:event_media(id, path, mime_type, duration_ms, poster_path, camera, captured_at, detected_offset_ms)), transitions:alert_transitions(id, from_status, to_status, actor_id, created_at, actor:profiles(email, display_name)), attachments:alert_attachments(id, path, file_name, mime_type, created_at), escalations:alert_escalations(id, position, recipient, created_at)';
+
+// Exports and reports stay in English; the dashboard passes the viewer's locale
+export function formatEventType(raw?: string | null, locale: Locale = defaultLocale): string {
+  const info = eventTypeInfo(raw);
+  return info.type ? translatedLabel(locale, `eventType.${info.type}`, info.label) : translate(locale, 'eventType.unknown');
+}
+
+export function alertStatusLabel(status: string, locale: Locale = defaultLocale): string {
+  return translatedLabel(locale, `status.${status}`, alertStatusLabels[status as AlertStatus] ?? status);
+}
+
+export function alertOutcomeLabel(outcome: string | null, locale: Locale = defaultLocale): string | null {
+  if (!outcome) return null;
+  return translatedLabel(locale, `outcome.${outcome}`, alertOutcomeLabels[outcome as AlertOutcome] ?? outcome);
+}
+
+// Closing an alert as a false alarm is its own status; every other outcome resolves it.
+export function statusForOutcome(outcome: AlertOutcome): AlertStatus {
+  return outcome === 'false_alarm' ? 'false_alarm' : 'resolved';
+}
+
+export function isPastAlert(alert: Pick<AlertRow, 'status'>): boolean {
+  return (pastAlertStatuses as string[]).includes(alert.status);
+}
+
+export function sortTransitions(transitions: AlertTransition[]): AlertTransition[] {
+  return [...transitions].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+}
+
+// The transition that moved the alert into its current acknowledged state, if any
+export function currentClaim(alert: AlertWithEvent): AlertTransition | null {
+  if (alert.status !== 'acknowledged') return null;
+  const claims = sortTransitions(alert.transitions).filter(t => t.to_status === 'acknowledged');
+  return claims[claims.length - 1] ?? null;
+}
+
+export function actorName(transition: AlertTransition, currentUserId?: string, locale: Locale = defaultLocale): string {
+  if (transition.actor_id && transition.actor_id === currentUserId) return translate(locale, 'actor.you');
+  return transition.actor?.display_name ?? transition.actor?.email ?? translate(locale, 'actor.someone');
+}
+
+// Row level security limits these to alerts in the caller's households (plus
+// older alerts created before residents, which are tied to a single user).
+export async function listActiveAlerts(supabase: SupabaseClient<Database>): Promise<AlertWithEvent[]> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select(alertWithEventColumns)
+    .in('status', activeAlertStatuses)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// The dashboard only keeps recent closed alerts; older ones are in /history
+export const recentPastAlertsLimit = 20;
+
+export async function listPastAlerts(
+  supabase: SupabaseClient<Database>,
+  { limit = 50 }: { limit?: number } = {}
+): Promise<AlertWithEvent[]> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select(alertWithEventColumns)
+    .in('status', pastAlertStatuses)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export type AlertHistoryFilters = {
+  query: string;
+  eventType: string;
+  from: string;
+  to: string;
+  residentId: string;
+  outcome: AlertOutcome | '';
+};
+
+// History filters are kept in the URL (?q=&type=&resident=&outcome=&from=&to=)
+// so a view can be bookmarked, shared or exported.
+const historyFilterParams: Record<keyof AlertHistoryFilters, string> = {
+  query: 'q',
+  eventType: 'type',
+  residentId: 'resident',
+  outcome: 'outcome',
+  from: 'from',
+  to: 'to',
+};
+
+export function historyFiltersFromParams(params: URLSearchParams): AlertHistoryFilters {
+  const outcome = params.get(historyFilterParams.outcome) ?? '';
+  return {
+    query: params.get(historyFilterParams.query) ?? '',
+    eventType: params.get(historyFilterParams.eventType) ?? '',
+    residentId: params.get(historyFilterParams.residentId) ?? '',
+    outcome: (alertOutcomes as string[]).includes(outcome) ? (outcome as AlertOutcome) : '',
+    from: params.get(historyFilterParams.from) ?? '',
+    to: params.get(historyFilterParams.to) ?? '',
+  };
+}
+
+export function historyFiltersToParams(filters: AlertHistoryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(historyFilterParams) as (keyof AlertHistoryFilters)[]).forEach(key => {
+    const value = filters[key].trim();
+    if (value) params.set(historyFilterParams[key], value);
+  });
+  return params;
+}
+
+export type AlertHistoryCursor = Pick<AlertRow, 'created_at' | 'id'>;
+
+export type AlertHistoryPage = {
+  alerts: AlertWithEvent[];
+  nextCursor: AlertHistoryCursor | null;
+};
+
+// Local calendar day boundaries, so "to" includes the whole day it names.
+function startOfDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toISOString();
+}
+
+function startOfNextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + 1);
+  return day.toISOString();
+}
+
+// Closed alerts newest first, a page at a time. The cursor is the last row of
+// the previous page; ties on created_at are broken by id so no row is skipped.
+export async function searchAlertHistory(
+  supabase: SupabaseClient<Database>,
+  filters: AlertHistoryFilters,
+  { cursor = null, limit = 25 }: { cursor?: AlertHistoryCursor | null; limit?: number } = {}
+): Promise<AlertHistoryPage> {
+  let query = supabase.from('alerts').select(alertWithEventColumns).in('status', pastAlertStatuses);
+
+  if (filters.eventType) query = query.eq('event.type', filters.eventType).not('event', 'is', null);
+  if (filters.residentId) query = query.eq('resident_id', filters.residentId);
+  if (filters.outcome) query = query.eq('outcome', filters.outcome);
+  if (filters.from) query = query.gte('created_at', startOfDay(filters.from));
+  if (filters.to) query = query.lt('created_at', startOfNextDay(filters.to));
+  if (filters.query.trim()) query = query.ilike('resolution_notes', `%${filters.query.trim()}%`);
+  if (cursor) {
+    query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) throw error;
+  const rows = data ?? [];
+  const alerts = rows.slice(0, limit);
+  const last = alerts[alerts.length - 1];
+  return {
+    alerts,
+    nextCursor: rows.length > limit && last ? { created_at: last.created_at, id: last.id } : null,
+  };
+}
+
+export async function listAlertEventTypes(supabase: SupabaseClient<Database>): Promise<string[]> {
+  const { data, error } = await supabase.rpc('alert_event_types');
+  if (error) throw error;
+  return data ?? [];
+}
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isAlertId(value: string): boolean {
+  return uuidPattern.test(value);
+}
+
+// Where notifications, check-in runs and shared links point
+export function alertPath(alertId: string): string {
+  return `/alerts/${alertId}`;
+}
+
+export async function getAlert(
+  supabase: SupabaseClient<Database>,
+  alertId: string
+): Promise<AlertWithEvent | null> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select(alertWithEventColumns)
+    .eq('id', alertId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateAlertStatus(
+  supabase: SupabaseClient<Database>,
+  alertId: string,
+  status: AlertStatus,
+  resolution?: AlertResolution
+): Promise<void> {
+  await invokeFunction(supabase, 'update-alert-status', { alert_id: alertId, status, ...resolution });
+}
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { translate, type Locale, type MessageKey } from '@/lib/i18n';
+
+type Functions = Database['public']['Functions'];
+
+export type WeeklyCount = Functions['alert_weekly_counts']['Returns'][number];
+export type HeatmapCell = Functions['alert_heatmap']['Returns'][number];
+export type ResponseTime = Functions['alert_response_times']['Returns'][number];
+
+export type AnalyticsRange = { start: Date; end: Date };
+
+export type AlertAnalytics = {
+  weekly: WeeklyCount[];
+  heatmap: HeatmapCell[];
+  responseTimes: ResponseTime[];
+};
+
+export const analyticsPeriods: { weeks: number; label: MessageKey }[] = [
+  { weeks: 4, label: 'analytics.last4Weeks' },
+  { weeks: 12, label: 'analytics.last12Weeks' },
+  { weeks: 26, label: 'analytics.last6Months' },
+  { weeks: 52, label: 'analytics.lastYear' },
+];
+
+// Night is when families most often ask about extra help.
+export const nightHours = { start: 22, end: 6 };
+
+const weekMs = 7 * 24 * 60 * 60 * 1000;
+
+export function rangeForWeeks(weeks: number, now = new Date()): AnalyticsRange {
+  return { start: new Date(now.getTime() - weeks * weekMs), end: now };
+}
+
+// The period of the same length that ends where `range` starts.
+export function previousRange(range: AnalyticsRange): AnalyticsRange {
+  const length = range.end.getTime() - range.start.getTime();
+  return { start: new Date(range.start.getTime() - length), end: range.start };
+}
+
+export async function loadAlertAnalytics(
+  supabase: SupabaseClient<Database>,
+  range: AnalyticsRange,
+  residentId?: string
+): Promise<AlertAnalytics> {
+  const args = {
+    range_start: range.start.toISOString(),
+    range_end: range.end.toISOString(),
+    target_resident: residentId || undefined,
+  };
+  const [weekly, heatmap, responseTimes] = await Promise.all([
+    supabase.rpc('alert_weekly_counts', args),
+    supabase.rpc('alert_heatmap', { ...args, viewer_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+    supabase.rpc('alert_response_times', args),
+  ]);
+
+  if (weekly.error) throw weekly.error;
+  if (heatmap.error) throw heatmap.error;
+  if (responseTimes.error) throw responseTimes.error;
+  return { weekly: weekly.data ?? [], heatmap: heatmap.data ?? [], responseTimes: responseTimes.data ?? [] };
+}
+
+export function totalIncidents(analytics: AlertAnalytics): number {
+  return analytics.weekly.reduce((sum, row) => sum + row.incidents, 0);
+}
+
+export function nightIncidents(analytics: AlertAnalytics): number {
+  return analytics.heatmap
+    .filter(cell => cell.hour >= nightHours.start || cell.hour < nightHours.end)
+    .reduce((sum, cell) => sum + cell.incidents, 0);
+}
+
+// Mean time to close across every caregiver, weighted by how many each closed.
+export function overallMeanSeconds(responseTimes: ResponseTime[]): number | null {
+  const closed = responseTimes.reduce((sum, row) => sum + row.closed, 0);
+  if (closed === 0) return null;
+  return responseTimes.reduce((sum, row) => sum + row.mean_seconds * row.closed, 0) / closed;
+}
+
+// Relative change in percent, or null when there is nothing to compare against.
+export function percentChange(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+export function formatDuration(seconds: number | null, locale: Locale): string {
+  if (seconds === null) return '—';
+  if (seconds < 60) return translate(locale, 'analytics.seconds', { count: Math.round(seconds) });
+  const minutes = seconds / 60;
+  if (minutes < 60) return translate(locale, 'analytics.minutes', { count: Math.round(minutes) });
+  return translate(locale, 'analytics.hours', { hours: Math.floor(minutes / 60), minutes: Math.round(minutes % 60) });
+}
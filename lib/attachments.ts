@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import type { AlertAttachment } from '@/lib/alerts';
+import { signedUrlTtlSeconds } from '@/lib/media';
+
+export const attachmentsBucket = 'alert-attachments';
+export const maxAttachmentBytes = 20 * 1024 * 1024;
+// Photos and PDFs; update-alert-status rejects anything else
+export const attachmentAccept = 'image/*,application/pdf';
+
+function isAcceptedType(mimeType: string): boolean {
+  return mimeType.startsWith('image/') || mimeType === 'application/pdf';
+}
+
+// Uploads under `<alert_id>/` so the storage policy can check the caller may
+// respond to that alert. The row in alert_attachments is written when the
+// alert is closed.
+export async function uploadAlertAttachment(
+  supabase: SupabaseClient<Database>,
+  alertId: string,
+  file: File
+): Promise<Pick<AlertAttachment, 'path' | 'file_name' | 'mime_type'>> {
+  if (file.size > maxAttachmentBytes) {
+    throw new Error(`${file.name} is larger than ${maxAttachmentBytes / 1024 / 1024} MB`);
+  }
+
+  if (!isAcceptedType(file.type)) throw new Error(`${file.name} is not a photo or PDF`);
+
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${alertId}/${crypto.randomUUID()}-${safeName}`;
+  const { error } = await supabase.storage.from(attachmentsBucket).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return { path, file_name: file.name, mime_type: file.type };
+}
+
+export async function signAttachmentUrls(
+  supabase: SupabaseClient<Database>,
+  attachments: Pick<AlertAttachment, 'path'>[]
+): Promise<Record<string, string>> {
+  if (attachments.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(attachmentsBucket)
+    .createSignedUrls(
+      attachments.map(a => a.path),
+      signedUrlTtlSeconds
+    );
+  if (error) throw error;
+
+  const urlByPath: Record<string, string> = {};
+  (data ?? []).forEach(entry => {
+    if (!entry.error && entry.path && entry.signedUrl) urlByPath[entry.path] = entry.signedUrl;
+  });
+  return urlByPath;
+}
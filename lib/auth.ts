@@ -0,0 +1,89 @@
+import type { EmailOtpType, Provider, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { forgetPushSubscription } from '@/lib/push';
+
+// Any origin works as the base: a path that stays on it stays on ours
+const pathBase = 'http://next.invalid';
+
+// Only follow same-origin paths so `next` can't be used as an open redirect.
+// Browsers read `/\evil.com` and paths with tabs or newlines as another
+// host, so the path is resolved the way a browser would and kept only if it
+// stays on the same origin.
+export function safeNextPath(next: string | null): string {
+  if (!next || !next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) return '/';
+  try {
+    const url = new URL(next, pathBase);
+    return url.origin === pathBase ? url.pathname + url.search + url.hash : '/';
+  } catch {
+    return '/';
+  }
+}
+
+// Every emailed link and OAuth redirect lands on /auth/callback. The browser
+// client (detectSessionInUrl) picks the session out of the URL there, and the
+// page then continues to `next`.
+export function authCallbackUrl(next: string): string {
+  return `${window.location.origin}/auth/callback?next=${encodeURIComponent(safeNextPath(next))}`;
+}
+
+const emailOtpTypes: EmailOtpType[] = ['signup', 'invite', 'magiclink', 'recovery', 'email_change', 'email'];
+
+// Links built on the server (invitations) carry a token hash instead, which
+// /auth/callback verifies. Unlike a PKCE code, it works in any browser.
+// Returns false for a link type Supabase doesn't issue.
+export async function verifyEmailLink(
+  supabase: SupabaseClient<Database>,
+  tokenHash: string,
+  type: string | null
+): Promise<boolean> {
+  if (!emailOtpTypes.includes(type as EmailOtpType)) return false;
+  const { error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: type as EmailOtpType });
+  if (error) throw error;
+  return true;
+}
+
+export function withNext(path: string, next: string): string {
+  return next === '/' ? path : `${path}?next=${encodeURIComponent(next)}`;
+}
+
+const providerLabels: Partial<Record<Provider, string>> = {
+  google: 'Google',
+  apple: 'Apple',
+  azure: 'Microsoft',
+  github: 'GitHub',
+  facebook: 'Facebook',
+};
+
+// OAuth is optional: list the providers enabled in the Supabase project in
+// NEXT_PUBLIC_AUTH_PROVIDERS, e.g. "google,apple".
+export const oauthProviders: { id: Provider; label: string }[] = (process.env.NEXT_PUBLIC_AUTH_PROVIDERS ?? '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean)
+  .map(id => ({ id: id as Provider, label: providerLabels[id as Provider] ?? id.charAt(0).toUpperCase() + id.slice(1) }));
+
+export const minPasswordLength = 8;
+
+// Pages reachable without a session; everything else is behind the middleware.
+// Invitations are public so a logged-out invitee can see where to sign in.
+const publicPaths = ['/login', '/signup', '/forgot-password', '/reset-password', '/auth/callback'];
+const publicPathPrefixes = ['/invite/'];
+
+export function isPublicPath(pathname: string): boolean {
+  return publicPaths.includes(pathname) || publicPathPrefixes.some(prefix => pathname.startsWith(prefix));
+}
+
+// Signed-in users visiting these are sent on to `next` instead
+export const signedOutOnlyPaths = ['/login', '/signup', '/forgot-password'];
+
+// Where the middleware sends signed-in users who still owe a second factor:
+// the challenge when they have one, enrollment when their household requires it
+export const mfaChallengePath = '/mfa';
+export const mfaEnrollPath = '/security';
+
+// Push is turned off for this browser first; a failure there shouldn't keep
+// anyone signed in.
+export async function signOutUser(supabase: SupabaseClient<Database>): Promise<void> {
+  await forgetPushSubscription(supabase).catch(() => {});
+  await supabase.auth.signOut();
+}
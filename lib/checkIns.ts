@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+import { checkInResponseLabel } from '@/lib/commands';
+import { defaultLocale, translatedLabel, translator, type Locale } from '@/lib/i18n';
+import { formatWeekday } from '@/lib/time';
+
+export type CheckInKind = 'check_in' | 'reminder';
+export type CheckInRunStatus = 'pending' | 'responded' | 'missed';
+export type CheckInSchedule = Pick<
+  Tables<'check_in_schedules'>,
+  'id' | 'resident_id' | 'kind' | 'message' | 'time_of_day' | 'days' | 'alert_if_missed' | 'enabled' | 'next_run_at'
+>;
+export type CheckInScheduleInput = Pick<
+  CheckInSchedule,
+  'resident_id' | 'kind' | 'message' | 'time_of_day' | 'days' | 'alert_if_missed'
+>;
+export type CheckInRun = Pick<
+  Tables<'check_in_runs'>,
+  | 'id'
+  | 'schedule_id'
+  | 'resident_id'
+  | 'kind'
+  | 'message'
+  | 'scheduled_for'
+  | 'status'
+  | 'response'
+  | 'transcript'
+  | 'error'
+  | 'alert_id'
+  | 'completed_at'
+>;
+
+export const everyDay = [0, 1, 2, 3, 4, 5, 6];
+export const recentCheckInRunsLimit = 20;
+
+export const checkInKindLabels: Record<CheckInKind, string> = {
+  check_in: 'Check-in',
+  reminder: 'Reminder',
+};
+
+const scheduleColumns = 'id, resident_id, kind, message, time_of_day, days, alert_if_missed, enabled, next_run_at';
+const runColumns =
+  'id, schedule_id, resident_id, kind, message, scheduled_for, status, response, transcript, error, alert_id, completed_at';
+
+export async function listCheckInSchedules(
+  supabase: SupabaseClient<Database>,
+  residentId: string
+): Promise<CheckInSchedule[]> {
+  const { data, error } = await supabase
+    .from('check_in_schedules')
+    .select(scheduleColumns)
+    .eq('resident_id', residentId)
+    .order('time_of_day', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createCheckInSchedule(
+  supabase: SupabaseClient<Database>,
+  input: CheckInScheduleInput
+): Promise<CheckInSchedule> {
+  const { data, error } = await supabase.from('check_in_schedules').insert(input).select(scheduleColumns).single();
+  if (error) throw error;
+  return data;
+}
+
+// The database recomputes next_run_at whenever the time, days or enabled flag change
+export async function updateCheckInSchedule(
+  supabase: SupabaseClient<Database>,
+  scheduleId: string,
+  changes: Partial<Omit<CheckInScheduleInput, 'resident_id'>> & { enabled?: boolean }
+): Promise<CheckInSchedule> {
+  const { data, error } = await supabase
+    .from('check_in_schedules')
+    .update(changes)
+    .eq('id', scheduleId)
+    .select(scheduleColumns)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteCheckInSchedule(supabase: SupabaseClient<Database>, scheduleId: string): Promise<void> {
+  const { error } = await supabase.from('check_in_schedules').delete().eq('id', scheduleId);
+  if (error) throw error;
+}
+
+export async function listCheckInRuns(
+  supabase: SupabaseClient<Database>,
+  residentId: string,
+  limit = recentCheckInRunsLimit
+): Promise<CheckInRun[]> {
+  const { data, error } = await supabase
+    .from('check_in_runs')
+    .select(runColumns)
+    .eq('resident_id', residentId)
+    .order('scheduled_for', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export function checkInKindLabel(kind: string, locale: Locale = defaultLocale): string {
+  return translatedLabel(locale, `checkInKind.${kind}`, checkInKindLabels[kind as CheckInKind] ?? kind);
+}
+
+// "10:00:00" from Postgres as "10:00 AM". It is already the resident's wall
+// clock time, so it is formatted without converting between zones.
+export function formatTimeOfDay(value: string, locale: Locale = defaultLocale): string {
+  const [hours, minutes] = value.split(':').map(Number);
+  return new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' }).format(
+    Date.UTC(2000, 0, 1, hours, minutes)
+  );
+}
+
+export function formatDays(days: number[], locale: Locale = defaultLocale): string {
+  const t = translator(locale);
+  const sorted = [...new Set(days)].sort();
+  if (sorted.length === 7) return t('checkIns.everyDay');
+  if (sorted.join() === '1,2,3,4,5') return t('checkIns.weekdays');
+  if (sorted.join() === '0,6') return t('checkIns.weekends');
+  return sorted.map(day => formatWeekday(day, locale)).join(', ');
+}
+
+export function describeCheckInRun(
+  run: Pick<CheckInRun, 'status' | 'response' | 'error'>,
+  locale: Locale = defaultLocale
+): string {
+  if (run.status === 'pending') return translator(locale)('checkIns.waiting');
+  if (run.response) return checkInResponseLabel(run.response, locale);
+  return run.error ?? translator(locale)('checkIns.missed');
+}
@@ -0,0 +1,168 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+import { signedUrlTtlSeconds } from '@/lib/media';
+import { defaultLocale, translatedLabel, translator, type Locale } from '@/lib/i18n';
+
+export type CommandType = 'snapshot' | 'go_to_room' | 'speak' | 'check_in';
+export type CommandStatus = 'queued' | 'delivered' | 'done' | 'failed';
+export type CheckInResponse = 'ok' | 'needs_help' | 'no_response';
+export type RobotCommand = Pick<
+  Tables<'commands'>,
+  | 'id'
+  | 'robot_id'
+  | 'alert_id'
+  | 'type'
+  | 'payload'
+  | 'status'
+  | 'result'
+  | 'result_path'
+  | 'error'
+  | 'requested_by'
+  | 'created_at'
+  | 'delivered_at'
+  | 'completed_at'
+>;
+// What the robot writes to `result` when it finishes a command
+export type CommandResult = {
+  room?: string;
+  response?: CheckInResponse;
+  transcript?: string;
+};
+export type CommandRequest =
+  | { type: 'snapshot' }
+  | { type: 'go_to_room'; room: string }
+  | { type: 'speak'; message: string }
+  | { type: 'check_in'; prompt?: string };
+
+export const snapshotsBucket = 'snapshots';
+export const maxSpokenMessageLength = 500;
+
+export const commandStatusLabels: Record<CommandStatus, string> = {
+  queued: 'Queued',
+  delivered: 'Delivered',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+export const checkInResponseLabels: Record<CheckInResponse, string> = {
+  ok: 'Said they’re OK',
+  needs_help: 'Asked for help',
+  no_response: 'No response',
+};
+
+const commandColumns =
+  'id, robot_id, alert_id, type, payload, status, result, result_path, error, requested_by, created_at, delivered_at, completed_at';
+
+export async function queueCommand(
+  supabase: SupabaseClient<Database>,
+  robotId: string,
+  request: CommandRequest,
+  alertId: string | null = null
+): Promise<RobotCommand> {
+  const { type, ...payload } = request;
+  const { data, error } = await supabase
+    .from('commands')
+    .insert({ robot_id: robotId, alert_id: alertId, type, payload })
+    .select(commandColumns)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Recent commands for one robot, or only those sent from one alert
+export async function listCommands(
+  supabase: SupabaseClient<Database>,
+  robotId: string,
+  { alertId, limit = 10 }: { alertId?: string; limit?: number } = {}
+): Promise<RobotCommand[]> {
+  let query = supabase.from('commands').select(commandColumns).eq('robot_id', robotId);
+  if (alertId) query = query.eq('alert_id', alertId);
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function signSnapshots(
+  supabase: SupabaseClient<Database>,
+  commands: Pick<RobotCommand, 'id' | 'result_path'>[]
+): Promise<Record<string, string>> {
+  const withSnapshots = commands.filter(c => c.result_path);
+  if (withSnapshots.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(snapshotsBucket)
+    .createSignedUrls(
+      withSnapshots.map(c => c.result_path!),
+      signedUrlTtlSeconds
+    );
+  if (error) throw error;
+
+  const urlByPath = new Map((data ?? []).map(entry => [entry.path, entry.signedUrl]));
+  const snapshotUrlById: Record<string, string> = {};
+  withSnapshots.forEach(c => {
+    const url = urlByPath.get(c.result_path!);
+    if (url) snapshotUrlById[c.id] = url;
+  });
+  return snapshotUrlById;
+}
+
+export function commandStatusLabel(status: string, locale: Locale = defaultLocale): string {
+  return translatedLabel(locale, `commandStatus.${status}`, commandStatusLabels[status as CommandStatus] ?? status);
+}
+
+export function checkInResponseLabel(response: string, locale: Locale = defaultLocale): string {
+  return translatedLabel(locale, `checkInResponse.${response}`, checkInResponseLabels[response as CheckInResponse] ?? response);
+}
+
+export function isCommandPending(command: Pick<RobotCommand, 'status'>): boolean {
+  return command.status === 'queued' || command.status === 'delivered';
+}
+
+export function commandResult(command: Pick<RobotCommand, 'result'>): CommandResult {
+  const result = command.result;
+  return result && typeof result === 'object' && !Array.isArray(result) ? (result as CommandResult) : {};
+}
+
+function payloadText(command: Pick<RobotCommand, 'payload'>, key: string): string | null {
+  const payload = command.payload;
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+  const value = payload[key];
+  return typeof value === 'string' && value ? value : null;
+}
+
+// One line saying what was asked, e.g. `Go to the kitchen` or `Say "Help is on the way…"`
+export function describeCommand(command: Pick<RobotCommand, 'type' | 'payload'>, locale: Locale = defaultLocale): string {
+  const t = translator(locale);
+  switch (command.type) {
+    case 'snapshot':
+      return t('command.snapshot');
+    case 'go_to_room': {
+      const room = payloadText(command, 'room');
+      return room ? t('command.goToRoom', { room }) : t('command.goToAnyRoom');
+    }
+    case 'speak':
+      return t('command.speak', { message: payloadText(command, 'message') ?? '' });
+    case 'check_in':
+      return t('command.checkIn');
+    default:
+      return command.type;
+  }
+}
+
+// What came back, for finished commands that report more than "done"
+export function describeCommandResult(
+  command: Pick<RobotCommand, 'type' | 'status' | 'result'>,
+  locale: Locale = defaultLocale
+): string | null {
+  if (command.status !== 'done') return null;
+  const t = translator(locale);
+  const result = commandResult(command);
+  if (command.type === 'go_to_room' && result.room) return t('command.arrivedIn', { room: result.room });
+  if (command.type === 'check_in' && result.response) {
+    const response = checkInResponseLabel(result.response, locale);
+    return result.transcript ? t('command.responseWithTranscript', { response, transcript: result.transcript }) : response;
+  }
+  return null;
+}
@@ -0,0 +1,1202 @@
+// Generated by the Supabase CLI (`npm run gen:types`). Do not edit by hand;
+// apply schema changes in supabase/migrations and regenerate.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      alert_attachments: {
+        Row: {
+          alert_id: string
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          alert_id: string
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          alert_id?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_attachments_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_escalations: {
+        Row: {
+          alert_id: string
+          created_at: string
+          id: string
+          position: number
+          recipient: string
+          step_id: string | null
+        }
+        Insert: {
+          alert_id: string
+          created_at?: string
+          id?: string
+          position: number
+          recipient: string
+          step_id?: string | null
+        }
+        Update: {
+          alert_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          recipient?: string
+          step_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_escalations_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_escalations_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_transitions: {
+        Row: {
+          actor_id: string | null
+          alert_id: string
+          created_at: string
+          from_status: string
+          id: string
+          to_status: string
+        }
+        Insert: {
+          actor_id?: string | null
+          alert_id: string
+          created_at?: string
+          from_status: string
+          id?: string
+          to_status: string
+        }
+        Update: {
+          actor_id?: string | null
+          alert_id?: string
+          created_at?: string
+          from_status?: string
+          id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_transitions_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_transitions_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alerts: {
+        Row: {
+          created_at: string
+          escalation_step: number
+          id: string
+          next_escalation_at: string | null
+          outcome: string | null
+          resident_id: string | null
+          resolution_notes: string | null
+          status: string
+          trigger_event: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          escalation_step?: number
+          id?: string
+          next_escalation_at?: string | null
+          outcome?: string | null
+          resident_id?: string | null
+          resolution_notes?: string | null
+          status?: string
+          trigger_event: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          escalation_step?: number
+          id?: string
+          next_escalation_at?: string | null
+          outcome?: string | null
+          resident_id?: string | null
+          resolution_notes?: string | null
+          status?: string
+          trigger_event?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_trigger_event_fkey"
+            columns: ["trigger_event"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      check_in_runs: {
+        Row: {
+          alert_id: string | null
+          command_id: string | null
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          kind: string
+          message: string
+          resident_id: string
+          response: string | null
+          robot_id: string | null
+          schedule_id: string | null
+          scheduled_for: string
+          status: string
+          transcript: string | null
+        }
+        Insert: {
+          alert_id?: string | null
+          command_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind: string
+          message: string
+          resident_id: string
+          response?: string | null
+          robot_id?: string | null
+          schedule_id?: string | null
+          scheduled_for: string
+          status?: string
+          transcript?: string | null
+        }
+        Update: {
+          alert_id?: string | null
+          command_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind?: string
+          message?: string
+          resident_id?: string
+          response?: string | null
+          robot_id?: string | null
+          schedule_id?: string | null
+          scheduled_for?: string
+          status?: string
+          transcript?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_in_runs_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "check_in_runs_command_id_fkey"
+            columns: ["command_id"]
+            isOneToOne: false
+            referencedRelation: "commands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "check_in_runs_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "check_in_runs_robot_id_fkey"
+            columns: ["robot_id"]
+            isOneToOne: false
+            referencedRelation: "robots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "check_in_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "check_in_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      check_in_schedules: {
+        Row: {
+          alert_if_missed: boolean
+          created_at: string
+          created_by: string | null
+          days: number[]
+          enabled: boolean
+          id: string
+          kind: string
+          message: string
+          next_run_at: string | null
+          resident_id: string
+          time_of_day: string
+        }
+        Insert: {
+          alert_if_missed?: boolean
+          created_at?: string
+          created_by?: string | null
+          days?: number[]
+          enabled?: boolean
+          id?: string
+          kind?: string
+          message: string
+          next_run_at?: string | null
+          resident_id: string
+          time_of_day: string
+        }
+        Update: {
+          alert_if_missed?: boolean
+          created_at?: string
+          created_by?: string | null
+          days?: number[]
+          enabled?: boolean
+          id?: string
+          kind?: string
+          message?: string
+          next_run_at?: string | null
+          resident_id?: string
+          time_of_day?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_in_schedules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "check_in_schedules_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commands: {
+        Row: {
+          alert_id: string | null
+          completed_at: string | null
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          id: string
+          payload: Json
+          requested_by: string | null
+          result: Json | null
+          result_path: string | null
+          robot_id: string
+          status: string
+          type: string
+        }
+        Insert: {
+          alert_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          id?: string
+          payload?: Json
+          requested_by?: string | null
+          result?: Json | null
+          result_path?: string | null
+          robot_id: string
+          status?: string
+          type: string
+        }
+        Update: {
+          alert_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          id?: string
+          payload?: Json
+          requested_by?: string | null
+          result?: Json | null
+          result_path?: string | null
+          robot_id?: string
+          status?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commands_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commands_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commands_robot_id_fkey"
+            columns: ["robot_id"]
+            isOneToOne: false
+            referencedRelation: "robots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalation_steps: {
+        Row: {
+          contact_email: string | null
+          contact_name: string | null
+          contact_phone: string | null
+          created_at: string
+          delay_minutes: number
+          household_id: string
+          id: string
+          position: number
+          user_id: string | null
+        }
+        Insert: {
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          delay_minutes: number
+          household_id: string
+          id?: string
+          position: number
+          user_id?: string | null
+        }
+        Update: {
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          delay_minutes?: number
+          household_id?: string
+          id?: string
+          position?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_steps_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalation_steps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_media: {
+        Row: {
+          camera: string | null
+          captured_at: string
+          created_at: string
+          detected_offset_ms: number | null
+          duration_ms: number | null
+          event_id: number
+          id: string
+          mime_type: string
+          path: string
+          poster_path: string | null
+        }
+        Insert: {
+          camera?: string | null
+          captured_at?: string
+          created_at?: string
+          detected_offset_ms?: number | null
+          duration_ms?: number | null
+          event_id: number
+          id?: string
+          mime_type: string
+          path: string
+          poster_path?: string | null
+        }
+        Update: {
+          camera?: string | null
+          captured_at?: string
+          created_at?: string
+          detected_offset_ms?: number | null
+          duration_ms?: number | null
+          event_id?: number
+          id?: string
+          mime_type?: string
+          path?: string
+          poster_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_media_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_types: {
+        Row: {
+          escalates: boolean
+          label: string
+          severity: string
+          type: string
+        }
+        Insert: {
+          escalates?: boolean
+          label: string
+          severity: string
+          type: string
+        }
+        Update: {
+          escalates?: boolean
+          label?: string
+          severity?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      events: {
+        Row: {
+          created_at: string
+          id: number
+          resident_id: string | null
+          robot_id: string | null
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          resident_id?: string | null
+          robot_id?: string | null
+          type: string
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          resident_id?: string | null
+          robot_id?: string | null
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_robot_id_fkey"
+            columns: ["robot_id"]
+            isOneToOne: false
+            referencedRelation: "robots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          household_id: string
+          id: string
+          invited_by: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["household_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          household_id: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["household_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          household_id?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["household_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "household_invitations_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "household_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_members: {
+        Row: {
+          created_at: string
+          household_id: string
+          role: Database["public"]["Enums"]["household_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          household_id: string
+          role?: Database["public"]["Enums"]["household_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          household_id?: string
+          role?: Database["public"]["Enums"]["household_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "household_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          require_mfa: boolean
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id?: string
+          require_mfa?: boolean
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          require_mfa?: boolean
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          display_name: string | null
+          email: string
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string | null
+          email: string
+          id: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string | null
+          email?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      residents: {
+        Row: {
+          address: string | null
+          created_at: string
+          household_id: string
+          id: string
+          name: string
+          photo_path: string | null
+          time_zone: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          household_id: string
+          id?: string
+          name: string
+          photo_path?: string | null
+          time_zone?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          name?: string
+          photo_path?: string | null
+          time_zone?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "residents_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      robot_heartbeats: {
+        Row: {
+          battery_percent: number | null
+          charging: boolean
+          created_at: string
+          firmware_version: string | null
+          id: number
+          robot_id: string
+          room: string | null
+          wifi_rssi: number | null
+        }
+        Insert: {
+          battery_percent?: number | null
+          charging?: boolean
+          created_at?: string
+          firmware_version?: string | null
+          id?: number
+          robot_id: string
+          room?: string | null
+          wifi_rssi?: number | null
+        }
+        Update: {
+          battery_percent?: number | null
+          charging?: boolean
+          created_at?: string
+          firmware_version?: string | null
+          id?: number
+          robot_id?: string
+          room?: string | null
+          wifi_rssi?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "robot_heartbeats_robot_id_fkey"
+            columns: ["robot_id"]
+            isOneToOne: false
+            referencedRelation: "robots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      robots: {
+        Row: {
+          battery_percent: number | null
+          charging: boolean | null
+          created_at: string
+          current_room: string | null
+          firmware_version: string | null
+          household_id: string
+          id: string
+          last_seen_at: string | null
+          name: string
+          offline_since: string | null
+          resident_id: string | null
+          wifi_rssi: number | null
+        }
+        Insert: {
+          battery_percent?: number | null
+          charging?: boolean | null
+          created_at?: string
+          current_room?: string | null
+          firmware_version?: string | null
+          household_id: string
+          id?: string
+          last_seen_at?: string | null
+          name: string
+          offline_since?: string | null
+          resident_id?: string | null
+          wifi_rssi?: number | null
+        }
+        Update: {
+          battery_percent?: number | null
+          charging?: boolean | null
+          created_at?: string
+          current_room?: string | null
+          firmware_version?: string | null
+          household_id?: string
+          id?: string
+          last_seen_at?: string | null
+          name?: string
+          offline_since?: string | null
+          resident_id?: string | null
+          wifi_rssi?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "robots_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "robots_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "residents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          email_enabled: boolean
+          locale: string | null
+          muted_event_types: string[]
+          push_enabled: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          time_zone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email_enabled?: boolean
+          locale?: string | null
+          muted_event_types?: string[]
+          push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          email_enabled?: boolean
+          locale?: string | null
+          muted_event_types?: string[]
+          push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_household_invitation: {
+        Args: {
+          invite_token: string
+        }
+        Returns: string
+      }
+      alert_event_types: {
+        Args: never
+        Returns: string[]
+      }
+      alert_heatmap: {
+        Args: {
+          range_end: string
+          range_start: string
+          target_resident?: string
+          viewer_time_zone: string
+        }
+        Returns: {
+          day_of_week: number
+          hour: number
+          incidents: number
+        }[]
+      }
+      alert_response_times: {
+        Args: {
+          range_end: string
+          range_start: string
+          target_resident?: string
+        }
+        Returns: {
+          actor_id: string
+          display_name: string
+          email: string
+          closed: number
+          mean_seconds: number
+          median_seconds: number
+        }[]
+      }
+      alert_weekly_counts: {
+        Args: {
+          range_end: string
+          range_start: string
+          target_resident?: string
+        }
+        Returns: {
+          week_start: string
+          event_type: string
+          incidents: number
+        }[]
+      }
+      can_respond_to_alert: {
+        Args: {
+          target_alert: string
+        }
+        Returns: boolean
+      }
+      event_type_escalates: {
+        Args: {
+          event_type: string
+        }
+        Returns: boolean
+      }
+      household_role: {
+        Args: {
+          target_household: string
+        }
+        Returns: Database["public"]["Enums"]["household_role"]
+      }
+      mfa_recovery_codes_remaining: {
+        Args: never
+        Returns: number
+      }
+      mfa_required: {
+        Args: never
+        Returns: boolean
+      }
+      resident_household_role: {
+        Args: {
+          target_resident: string
+        }
+        Returns: Database["public"]["Enums"]["household_role"]
+      }
+      save_push_subscription: {
+        Args: {
+          auth: string
+          endpoint: string
+          p256dh: string
+          user_agent?: string
+        }
+        Returns: undefined
+      }
+      set_escalation_steps: {
+        Args: {
+          steps: Json
+          target_household: string
+        }
+        Returns: undefined
+      }
+      set_household_mfa_requirement: {
+        Args: {
+          required: boolean
+          target_household: string
+        }
+        Returns: undefined
+      }
+      transition_alert: {
+        Args: {
+          actor: string
+          attachments?: Json
+          closing_outcome?: string
+          from_status: string
+          notes?: string
+          target_alert: string
+          to_status: string
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      household_role: "owner" | "caregiver" | "viewer"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      household_role: [
+        "owner",
+        "caregiver",
+        "viewer",
+      ],
+    },
+  },
+} as const
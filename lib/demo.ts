@@ -0,0 +1,36 @@
+import type { Session, User } from '@supabase/supabase-js';
+
+// NEXT_PUBLIC_DEMO_MODE=1 runs the app against an in-memory stand-in for
+// Supabase (lib/demoClient.ts) with a simulated robot, so it works without a
+// project or a robot. Read at build time in the browser, like every
+// NEXT_PUBLIC_ variable.
+export function isDemoMode(): boolean {
+  return process.env.NEXT_PUBLIC_DEMO_MODE === '1';
+}
+
+export const demoUserId = '00000000-0000-4000-8000-000000000001';
+export const demoEmail = 'demo@bobo.local';
+
+// Always signed in, at aal1 with no second factor
+export const demoUser: User = {
+  id: demoUserId,
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: demoEmail,
+  app_metadata: { provider: 'email' },
+  user_metadata: {},
+  created_at: '2026-01-01T00:00:00.000Z',
+};
+
+export function demoSession(): Session {
+  return {
+    access_token: 'demo',
+    refresh_token: 'demo',
+    token_type: 'bearer',
+    expires_in: 60 * 60,
+    expires_at: Math.floor(Date.now() / 1000) + 60 * 60,
+    user: demoUser,
+  };
+}
+
+export const demoModeMessage = 'This is not available in demo mode.';
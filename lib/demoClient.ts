@@ -0,0 +1,530 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { demoModeMessage, demoSession, demoUser } from '@/lib/demo';
+import { callDemoRpc, invokeDemoFunction } from '@/lib/demoFunctions';
+import { startDemoSimulator } from '@/lib/demoSimulator';
+import {
+  deleteDemoRows,
+  demoRelations,
+  demoRows,
+  insertDemoRows,
+  isDemoRow,
+  isDemoTable,
+  onDemoChange,
+  updateDemoRows,
+  upsertDemoRows,
+  type DemoChange,
+  type DemoChangeType,
+  type DemoRow,
+  type DemoTable,
+} from '@/lib/demoStore';
+
+// The parts of the Supabase client the app uses (PostgREST queries, realtime,
+// storage, edge functions, database functions and auth), answered from the
+// in-memory demo store. Anything else fails with a "not available in demo
+// mode" error rather than pretending to work.
+
+function queryError(message: string, code: string): PostgrestError {
+  return new PostgrestError({ message, details: '', hint: '', code });
+}
+
+type Selection = { all: boolean; columns: string[]; embeds: Embed[] };
+type Embed = { alias: string; table: DemoTable; selection: Selection };
+
+// Splits on commas outside parentheses and quotes
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of input) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// e.g. `id, event:events(id, media:event_media(path))`
+function parseSelection(table: DemoTable, columns: string): Selection {
+  const selection: Selection = { all: false, columns: [], embeds: [] };
+  splitTopLevel(columns).forEach(part => {
+    const embed = part.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\(([\s\S]*)\)$/);
+    if (!embed) {
+      if (part === '*') selection.all = true;
+      else selection.columns.push(part);
+      return;
+    }
+    const [, alias, name, inner] = embed;
+    if (!isDemoTable(name) || !demoRelations[table]?.[name]) {
+      throw queryError(`Could not find a relationship between '${table}' and '${name}'`, 'PGRST200');
+    }
+    selection.embeds.push({ alias: alias ?? name, table: name, selection: parseSelection(name, inner) });
+  });
+  return selection;
+}
+
+function project(table: DemoTable, row: DemoRow, selection: Selection): DemoRow {
+  const result: DemoRow = selection.all ? { ...row } : {};
+  selection.columns.forEach(column => {
+    result[column] = row[column] ?? null;
+  });
+  selection.embeds.forEach(embed => {
+    const relation = demoRelations[table]?.[embed.table];
+    if (!relation) return;
+    const related = demoRows(embed.table)
+      .filter(child => child[relation.references] === row[relation.column])
+      .map(child => project(embed.table, child, embed.selection));
+    result[embed.alias] = relation.many ? related : related[0] ?? null;
+  });
+  return result;
+}
+
+// Dotted paths reach into embedded rows, e.g. `event.type`
+function valueAt(row: DemoRow, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (isDemoRow(value) ? value[key] : undefined), row);
+}
+
+function isNull(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function compare(value: unknown, operand: unknown): number {
+  if (typeof value === 'number') return value - Number(operand);
+  const [a, b] = [String(value), String(operand)];
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function likePattern(pattern: string, flags: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+// `in` lists arrive as arrays from .in() and as "(a,b)" from .or() and .filter()
+function listOperand(operand: unknown): unknown[] {
+  if (Array.isArray(operand)) return operand;
+  return splitTopLevel(String(operand).replace(/^\(|\)$/g, '')).map(item => item.replace(/^"|"$/g, ''));
+}
+
+const operators: Record<string, (value: unknown, operand: unknown) => boolean> = {
+  eq: (value, operand) => !isNull(value) && String(value) === String(operand),
+  neq: (value, operand) => !isNull(value) && String(value) !== String(operand),
+  gt: (value, operand) => !isNull(value) && compare(value, operand) > 0,
+  gte: (value, operand) => !isNull(value) && compare(value, operand) >= 0,
+  lt: (value, operand) => !isNull(value) && compare(value, operand) < 0,
+  lte: (value, operand) => !isNull(value) && compare(value, operand) <= 0,
+  like: (value, operand) => typeof value === 'string' && likePattern(String(operand), '').test(value),
+  ilike: (value, operand) => typeof value === 'string' && likePattern(String(operand), 'i').test(value),
+  is: (value, operand) => (isNull(operand) || operand === 'null' ? isNull(value) : String(value) === String(operand)),
+  in: (value, operand) => !isNull(value) && listOperand(operand).some(item => String(item) === String(value)),
+  cs: (value, operand) => Array.isArray(value) && listOperand(operand).every(item => value.includes(item)),
+};
+
+type Filter = (row: DemoRow) => boolean;
+
+function condition(column: string, operator: string, operand: unknown, negate = false): Filter {
+  const test = operators[operator];
+  if (!test) throw queryError(`Unsupported operator in demo mode: ${operator}`, 'PGRST100');
+  return row => test(valueAt(row, column), operand) !== negate;
+}
+
+// PostgREST logic trees, e.g. `created_at.lt."x",and(created_at.eq."x",id.lt.y)`
+function parseLogic(expression: string): Filter[] {
+  return splitTopLevel(expression).map(part => {
+    const group = part.match(/^(and|or)\(([\s\S]*)\)$/);
+    if (group) {
+      const filters = parseLogic(group[2]);
+      return group[1] === 'and' ? row => filters.every(f => f(row)) : row => filters.some(f => f(row));
+    }
+    const term = part.match(/^([\w.]+?)\.(not\.)?(\w+)\.([\s\S]*)$/);
+    if (!term) throw queryError(`Could not parse the filter: ${part}`, 'PGRST100');
+    const [, column, not, operator, value] = term;
+    return condition(column, operator, value.replace(/^"|"$/g, ''), !!not);
+  });
+}
+
+type QueryResult = { data: unknown; error: PostgrestError | null; count: null; status: number; statusText: string };
+type Order = { column: string; ascending: boolean; nullsFirst: boolean };
+
+class DemoQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: DemoRow[] = [];
+  private onConflict: string | undefined;
+  private columns: string | null = null;
+  private filters: Filter[] = [];
+  private orders: Order[] = [];
+  private offset = 0;
+  private rowLimit: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private problem: PostgrestError | null = null;
+
+  constructor(private readonly table: string) {}
+
+  select(columns = '*') {
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: DemoRow | DemoRow[]) {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: DemoRow | DemoRow[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict;
+    return this;
+  }
+
+  update(values: DemoRow) {
+    this.action = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  private where(build: () => Filter) {
+    try {
+      this.filters.push(build());
+    } catch (err) {
+      this.problem = err instanceof PostgrestError ? err : queryError(String(err), 'PGRST100');
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(() => condition(column, 'eq', value));
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(() => condition(column, 'neq', value));
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(() => condition(column, 'gt', value));
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(() => condition(column, 'gte', value));
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(() => condition(column, 'lt', value));
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where(() => condition(column, 'lte', value));
+  }
+
+  like(column: string, pattern: string) {
+    return this.where(() => condition(column, 'like', pattern));
+  }
+
+  ilike(column: string, pattern: string) {
+    return this.where(() => condition(column, 'ilike', pattern));
+  }
+
+  is(column: string, value: unknown) {
+    return this.where(() => condition(column, 'is', value));
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(() => condition(column, 'in', values));
+  }
+
+  contains(column: string, values: unknown[]) {
+    return this.where(() => condition(column, 'cs', values));
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    return this.where(() => condition(column, operator, value, true));
+  }
+
+  filter(column: string, operator: string, value: unknown) {
+    return this.where(() => condition(column, operator, value));
+  }
+
+  or(expression: string) {
+    return this.where(() => {
+      const filters = parseLogic(expression);
+      return row => filters.some(f => f(row));
+    });
+  }
+
+  order(column: string, { ascending = true, nullsFirst = !ascending }: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    this.orders.push({ column, ascending, nullsFirst });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.offset = from;
+    this.rowLimit = to - from + 1;
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  // Resolved on a later tick, like a network round trip
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return new Promise<QueryResult>(resolve => setTimeout(() => resolve(this.execute()), 0)).then(
+      onfulfilled,
+      onrejected
+    );
+  }
+
+  private execute(): QueryResult {
+    try {
+      const rows = this.run();
+      if (this.mode === 'many' || rows === null) return this.result(rows);
+      if (rows.length > 1 || (rows.length === 0 && this.mode === 'single')) {
+        throw queryError('JSON object requested, multiple (or no) rows returned', 'PGRST116');
+      }
+      return this.result(rows[0] ?? null);
+    } catch (err) {
+      const error = err instanceof PostgrestError ? err : queryError(String(err), 'PGRST000');
+      return { data: null, error, count: null, status: 400, statusText: 'Bad Request' };
+    }
+  }
+
+  private result(data: unknown): QueryResult {
+    return { data, error: null, count: null, status: 200, statusText: 'OK' };
+  }
+
+  // The affected rows, or null for a write without .select()
+  private run(): DemoRow[] | null {
+    if (this.problem) throw this.problem;
+    const table = this.table;
+    if (!isDemoTable(table)) throw queryError(`relation "public.${table}" does not exist`, '42P01');
+
+    const selection = parseSelection(table, this.columns ?? '*');
+    // Filters see embedded rows too, for filters like `event.type`
+    const matches = (row: DemoRow) => {
+      const projected = { ...row, ...project(table, row, selection) };
+      return this.filters.every(f => f(projected));
+    };
+
+    let rows: DemoRow[];
+    if (this.action === 'insert') rows = insertDemoRows(table, this.values);
+    else if (this.action === 'upsert') rows = upsertDemoRows(table, this.values, this.onConflict);
+    else if (this.action === 'update') rows = updateDemoRows(table, matches, this.values[0] ?? {});
+    else if (this.action === 'delete') rows = deleteDemoRows(table, matches);
+    else rows = demoRows(table).filter(matches);
+    if (this.action !== 'select' && this.columns === null) return null;
+
+    const projected = rows.map(row => project(table, row, selection));
+    projected.sort((a, b) => {
+      for (const { column, ascending, nullsFirst } of this.orders) {
+        const [x, y] = [valueAt(a, column), valueAt(b, column)];
+        if (isNull(x) || isNull(y)) {
+          if (isNull(x) !== isNull(y)) return isNull(x) === nullsFirst ? -1 : 1;
+          continue;
+        }
+        const difference = compare(x, y);
+        if (difference !== 0) return ascending ? difference : -difference;
+      }
+      return 0;
+    });
+    return projected.slice(this.offset, this.rowLimit === null ? undefined : this.offset + this.rowLimit);
+  }
+}
+
+type ChangeFilter = { event: DemoChangeType | '*'; schema?: string; table?: string; filter?: string };
+type Binding = { filter: ChangeFilter; callback: (payload: DemoRow) => void };
+
+// postgres_changes only, which is all the app listens for. The filter
+// supports the `column=eq.value` form the app uses.
+class DemoChannel {
+  private bindings: Binding[] = [];
+  private stop: (() => void) | null = null;
+
+  constructor(readonly topic: string) {}
+
+  on(type: string, filter: ChangeFilter, callback: (payload: DemoRow) => void) {
+    if (type === 'postgres_changes') this.bindings.push({ filter, callback });
+    return this;
+  }
+
+  subscribe(callback?: (status: string, err?: Error) => void) {
+    this.stop = onDemoChange(change => {
+      this.bindings.filter(binding => this.matches(binding.filter, change)).forEach(binding => {
+        const payload = {
+          schema: 'public',
+          table: change.table,
+          commit_timestamp: new Date().toISOString(),
+          eventType: change.eventType,
+          new: change.new,
+          old: change.old,
+          errors: null,
+        };
+        setTimeout(() => binding.callback(payload), 0);
+      });
+    });
+    setTimeout(() => callback?.('SUBSCRIBED'), 0);
+    return this;
+  }
+
+  async unsubscribe(): Promise<'ok'> {
+    this.stop?.();
+    this.stop = null;
+    return 'ok';
+  }
+
+  private matches(filter: ChangeFilter, change: DemoChange): boolean {
+    if (filter.event !== '*' && filter.event !== change.eventType) return false;
+    if (filter.table && filter.table !== change.table) return false;
+    if (!filter.filter) return true;
+    const [, column, value] = filter.filter.match(/^(\w+)=eq\.(.*)$/) ?? [];
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    return !!column && String(row[column]) === value;
+  }
+}
+
+// Falls are drawn lying down; snapshots requested from the dashboard standing
+function demoFrameSvg(camera: string, capturedAt: Date): string {
+  const label = camera === 'robot' ? 'Robot camera' : camera === 'snapshot' ? 'Snapshot' : camera.replace(/-/g, ' ');
+  const figure =
+    camera === 'snapshot'
+      ? '<circle cx="320" cy="130" r="22"/><path d="M320 152v80m0-60l-36 30m36-30l36 30m-36 30l-28 54m28-54l28 54"/>'
+      : '<circle cx="230" cy="262" r="22"/><path d="M252 268h110m-80 0l-24 30m60-30l28 28m34-28l50 10m-50-10l48-14"/>';
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" width="640" height="360" viewBox="0 0 640 360">',
+    '<rect width="640" height="360" fill="#1e293b"/><rect y="290" width="640" height="70" fill="#334155"/>',
+    `<g fill="none" stroke="#cbd5e1" stroke-width="8" stroke-linecap="round">${figure}</g>`,
+    `<text x="16" y="30" fill="#e2e8f0" font-family="monospace" font-size="16">${label} · ${capturedAt.toLocaleString()}</text>`,
+    '<text x="624" y="344" fill="#f59e0b" font-family="monospace" font-size="14" text-anchor="end">DEMO</text>',
+    '</svg>',
+  ].join('');
+}
+
+// Uploads (alert attachments) are kept as object URLs for this page load
+const uploads = new Map<string, string>();
+
+function signedUrl(bucket: string, path: string): string | null {
+  const uploaded = uploads.get(`${bucket}/${path}`);
+  if (uploaded) return uploaded;
+  const frame = path.match(/^demo\/.+\/([\w-]+)-(\d+)\.svg$/);
+  if (!frame) return null;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(demoFrameSvg(frame[1], new Date(Number(frame[2]))))}`;
+}
+
+function demoBucket(bucket: string) {
+  return {
+    async createSignedUrls(paths: string[]) {
+      const data = paths.map(path => {
+        const url = signedUrl(bucket, path);
+        return { path, signedUrl: url ?? '', error: url ? null : 'Object not found' };
+      });
+      return { data, error: null };
+    },
+    async createSignedUrl(path: string) {
+      const url = signedUrl(bucket, path);
+      return url ? { data: { signedUrl: url }, error: null } : { data: null, error: new Error('Object not found') };
+    },
+    async upload(path: string, file: Blob) {
+      uploads.set(`${bucket}/${path}`, URL.createObjectURL(file));
+      return { data: { id: path, path, fullPath: `${bucket}/${path}` }, error: null };
+    },
+    async remove(paths: string[]) {
+      paths.forEach(path => uploads.delete(`${bucket}/${path}`));
+      return { data: [], error: null };
+    },
+  };
+}
+
+async function unsupported() {
+  return { data: { user: null, session: null }, error: new Error(demoModeMessage) };
+}
+
+// Signed in as the demo user for good: there is no login, and signing out
+// leaves the session in place.
+function demoAuth() {
+  return {
+    getUser: async () => ({ data: { user: demoUser }, error: null }),
+    getSession: async () => ({ data: { session: demoSession() }, error: null }),
+    refreshSession: async () => ({ data: { user: demoUser, session: demoSession() }, error: null }),
+    onAuthStateChange: (callback: (event: string, session: ReturnType<typeof demoSession>) => void) => {
+      setTimeout(() => callback('INITIAL_SESSION', demoSession()), 0);
+      return { data: { subscription: { id: 'demo', callback, unsubscribe: () => {} } } };
+    },
+    signOut: async () => ({ error: null }),
+    signInWithPassword: unsupported,
+    signInWithOtp: unsupported,
+    signInWithOAuth: unsupported,
+    signUp: unsupported,
+    resend: unsupported,
+    resetPasswordForEmail: unsupported,
+    updateUser: unsupported,
+    exchangeCodeForSession: unsupported,
+    mfa: {
+      getAuthenticatorAssuranceLevel: async () => ({
+        data: { currentLevel: 'aal1', nextLevel: 'aal1', currentAuthenticationMethods: [] },
+        error: null,
+      }),
+      listFactors: async () => ({ data: { all: [], totp: [], phone: [] }, error: null }),
+      enroll: unsupported,
+      challenge: unsupported,
+      verify: unsupported,
+      challengeAndVerify: unsupported,
+      unenroll: unsupported,
+    },
+  };
+}
+
+export function createDemoClient() {
+  startDemoSimulator();
+  const channels = new Set<DemoChannel>();
+
+  return {
+    from: (table: string) => new DemoQuery(table),
+    rpc: (name: string, args?: DemoRow) => callDemoRpc(name, args),
+    functions: {
+      invoke: (name: string, options: { body?: unknown } = {}) =>
+        invokeDemoFunction(name, isDemoRow(options.body) ? options.body : {}),
+    },
+    storage: { from: demoBucket },
+    auth: demoAuth(),
+    channel: (topic: string) => {
+      const channel = new DemoChannel(topic);
+      channels.add(channel);
+      return channel;
+    },
+    getChannels: () => Array.from(channels),
+    removeChannel: async (channel: DemoChannel) => {
+      channels.delete(channel);
+      return channel.unsubscribe();
+    },
+    removeAllChannels: async () => {
+      const removed = Array.from(channels, channel => channel.unsubscribe());
+      channels.clear();
+      return Promise.all(removed);
+    },
+  };
+}
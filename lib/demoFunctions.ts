@@ -0,0 +1,197 @@
+import { FunctionsHttpError, PostgrestError } from '@supabase/supabase-js';
+import { pastAlertStatuses } from '@/lib/alerts';
+import { demoModeMessage, demoUserId } from '@/lib/demo';
+import { demoRows, insertDemoRows, updateDemoRows, type DemoRow } from '@/lib/demoStore';
+import {
+  assertTransition,
+  closedStatuses,
+  isAlertStatus,
+  parseResolution,
+  TransitionError,
+  type AlertStatus,
+  type Resolution,
+} from '@/supabase/functions/_shared/alertTransitions';
+
+// Stand-ins for the database functions and edge functions the app calls,
+// written against the demo store. Alert transitions use the edge functions'
+// rules and closing-form validation (supabase/functions/_shared/alertTransitions.ts),
+// including the 409 when an alert was already updated. The demo user owns the
+// only household, so every permission check passes.
+
+class DemoFunctionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+function loadAlert(alertId: unknown): DemoRow {
+  if (!alertId) throw new DemoFunctionError('alert_id is required', 400);
+  const alert = demoRows('alerts').find(a => a.id === alertId);
+  if (!alert) throw new DemoFunctionError('Alert not found', 404);
+  return alert;
+}
+
+function transitionAlert(alert: DemoRow, to: AlertStatus, resolution: Resolution | null = null) {
+  const from = alert.status;
+  if (!isAlertStatus(from)) throw new DemoFunctionError(`Cannot change an alert from ${from} to ${to}`, 409);
+  assertTransition(from, to);
+
+  const updated = updateDemoRows('alerts', a => a.id === alert.id && a.status === from, {
+    status: to,
+    ...(resolution ? { outcome: resolution.outcome, resolution_notes: resolution.notes } : {}),
+  });
+  if (updated.length === 0) {
+    throw new DemoFunctionError('Someone else updated this alert first. Refresh to see the latest status.', 409);
+  }
+  insertDemoRows('alert_transitions', [{ alert_id: alert.id, from_status: from, to_status: to, actor_id: demoUserId }]);
+  if (resolution && resolution.attachments.length > 0) {
+    insertDemoRows(
+      'alert_attachments',
+      resolution.attachments.map(attachment => ({
+        alert_id: alert.id,
+        path: attachment.path,
+        file_name: attachment.file_name,
+        mime_type: attachment.mime_type,
+        uploaded_by: demoUserId,
+      }))
+    );
+  }
+}
+
+const demoFunctions: Record<string, (body: DemoRow) => unknown> = {
+  'update-alert-status': body => {
+    const alert = loadAlert(body.alert_id);
+    const status = body.status;
+    if (!isAlertStatus(status)) throw new DemoFunctionError('Invalid status', 400);
+    const closing = closedStatuses.includes(status);
+    transitionAlert(alert, status, closing ? parseResolution(alert.id as string, status, body) : null);
+    return { ok: true };
+  },
+  // Equivalent to update-alert-status with `resolved`, outcome included
+  'dismiss-alert': body => {
+    const alert = loadAlert(body.alert_id);
+    transitionAlert(alert, 'resolved', parseResolution(alert.id as string, 'resolved', body));
+    return { ok: true };
+  },
+};
+
+// Errors come back the way FunctionsClient reports a non-2xx response, so
+// invokeFunction surfaces the same messages as with the real functions.
+export async function invokeDemoFunction(
+  name: string,
+  body: DemoRow
+): Promise<{ data: unknown; error: FunctionsHttpError | null }> {
+  try {
+    const handler = demoFunctions[name];
+    if (!handler) throw new DemoFunctionError(demoModeMessage, 501);
+    return { data: handler(body), error: null };
+  } catch (err) {
+    const status = err instanceof DemoFunctionError || err instanceof TransitionError ? err.status : 500;
+    const message = err instanceof Error ? err.message : String(err);
+    return { data: null, error: new FunctionsHttpError(new Response(JSON.stringify({ error: message }), { status })) };
+  }
+}
+
+// Alerts raised in [range_start, range_end), optionally for one resident
+function alertsInRange(args: DemoRow): DemoRow[] {
+  const start = args.range_start ? new Date(String(args.range_start)).getTime() : -Infinity;
+  const end = args.range_end ? new Date(String(args.range_end)).getTime() : Infinity;
+  return demoRows('alerts').filter(alert => {
+    const at = new Date(String(alert.created_at)).getTime();
+    return at >= start && at < end && (!args.target_resident || alert.resident_id === args.target_resident);
+  });
+}
+
+function eventType(alert: DemoRow): string | null {
+  const event = demoRows('events').find(e => e.id === alert.trigger_event);
+  return typeof event?.type === 'string' ? event.type : null;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(key(item), [...(groups.get(key(item)) ?? []), item]));
+  return groups;
+}
+
+// Monday of the alert's week, as date_trunc('week') gives in UTC
+function weekStart(value: unknown): string {
+  const date = new Date(String(value));
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday))
+    .toISOString()
+    .slice(0, 10);
+}
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function localDayAndHour(value: unknown, timeZone: string): { day: number; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' })
+    .formatToParts(new Date(String(value)));
+  return {
+    day: weekdays.indexOf(parts.find(part => part.type === 'weekday')?.value ?? ''),
+    hour: Number(parts.find(part => part.type === 'hour')?.value ?? 0),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = (sorted.length - 1) / 2;
+  return (sorted[Math.floor(middle)] + sorted[Math.ceil(middle)]) / 2;
+}
+
+// Same results as the functions in 20261019210000_alert_history.sql and
+// 20261019220000_alert_analytics.sql
+const demoRpcs: Record<string, (args: DemoRow) => unknown> = {
+  alert_event_types: () =>
+    Array.from(new Set(demoRows('alerts').flatMap(alert => eventType(alert) ?? []))).sort(),
+  mfa_required: () => false,
+  mfa_recovery_codes_remaining: () => 0,
+  alert_weekly_counts: args => {
+    const groups = groupBy(alertsInRange(args), alert => `${weekStart(alert.created_at)}|${eventType(alert) ?? 'unknown'}`);
+    return Array.from(groups, ([key, alerts]) => {
+      const [week_start, event_type] = key.split('|');
+      return { week_start, event_type, incidents: alerts.length };
+    }).sort((a, b) => a.week_start.localeCompare(b.week_start) || a.event_type.localeCompare(b.event_type));
+  },
+  alert_heatmap: args => {
+    const residents = demoRows('residents');
+    const cells = groupBy(alertsInRange(args), alert => {
+      const resident = residents.find(r => r.id === alert.resident_id);
+      const timeZone = String(resident?.time_zone ?? args.viewer_time_zone ?? 'UTC');
+      const { day, hour } = localDayAndHour(alert.created_at, timeZone);
+      return `${day}|${hour}`;
+    });
+    return Array.from(cells, ([key, alerts]) => {
+      const [day_of_week, hour] = key.split('|').map(Number);
+      return { day_of_week, hour, incidents: alerts.length };
+    });
+  },
+  alert_response_times: args => {
+    const alerts = new Map(alertsInRange(args).map(alert => [alert.id, alert]));
+    const closes = demoRows('alert_transitions').filter(
+      t => alerts.has(t.alert_id) && (pastAlertStatuses as unknown[]).includes(t.to_status)
+    );
+    return Array.from(groupBy(closes, t => String(t.actor_id)), ([actorId, transitions]) => {
+      const profile = demoRows('profiles').find(p => p.id === actorId);
+      const seconds = transitions.map(
+        t =>
+          (new Date(String(t.created_at)).getTime() - new Date(String(alerts.get(t.alert_id)?.created_at)).getTime()) /
+          1000
+      );
+      return {
+        actor_id: actorId,
+        display_name: profile?.display_name ?? null,
+        email: profile?.email ?? null,
+        closed: transitions.length,
+        mean_seconds: seconds.reduce((sum, s) => sum + s, 0) / seconds.length,
+        median_seconds: median(seconds),
+      };
+    }).sort((a, b) => b.closed - a.closed);
+  },
+};
+
+export async function callDemoRpc(name: string, args: DemoRow = {}): Promise<{ data: unknown; error: PostgrestError | null }> {
+  const rpc = demoRpcs[name];
+  if (!rpc) return { data: null, error: new PostgrestError({ message: demoModeMessage, details: '', hint: '', code: 'PGRST202' }) };
+  return { data: rpc(args), error: null };
+}
@@ -0,0 +1,143 @@
+import { demoUserId } from '@/lib/demo';
+import {
+  demoFramePath,
+  demoFrames,
+  demoResidentId,
+  demoRobotId,
+  demoRooms,
+  demoRows,
+  insertDemoRows,
+  isDemoRow,
+  onDemoChange,
+  updateDemoRows,
+  type DemoEventType,
+  type DemoRow,
+} from '@/lib/demoStore';
+
+// Plays the robot's side in demo mode: heartbeats like the real firmware, an
+// event every few minutes, and answers to commands sent from the dashboard.
+const heartbeatIntervalMs = 30 * 1000;
+const eventIntervalMs = 3 * 60 * 1000;
+const commandDeliveryMs = 1000;
+const commandRunMs = 3000;
+
+// Mostly falls, since that is what families want to see
+const eventWeights: [DemoEventType, number][] = [
+  ['fall', 6],
+  ['help_request', 2],
+  ['no_motion', 2],
+];
+
+const simulatorLock = 'bobo-demo-simulator';
+
+let started = false;
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function randomEventType(): DemoEventType {
+  let roll = Math.random() * eventWeights.reduce((sum, [, weight]) => sum + weight, 0);
+  for (const [type, weight] of eventWeights) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return 'fall';
+}
+
+function demoRobot(): DemoRow | undefined {
+  return demoRows('robots').find(r => r.id === demoRobotId);
+}
+
+function currentRoom(): string {
+  const room = demoRobot()?.current_room;
+  return typeof room === 'string' ? room : demoRooms[0];
+}
+
+// Drains the battery between charges and follows the resident around now and then
+function heartbeat() {
+  const robot = demoRobot();
+  if (!robot) return;
+  const battery = typeof robot.battery_percent === 'number' ? robot.battery_percent : 100;
+  const charging = robot.charging === true ? battery < 100 : battery <= 15;
+  updateDemoRows('robots', r => r.id === demoRobotId, {
+    last_seen_at: new Date().toISOString(),
+    offline_since: null,
+    battery_percent: Math.max(0, Math.min(100, battery + (charging ? 3 : -1))),
+    charging,
+    wifi_rssi: -50 - Math.floor(Math.random() * 25),
+    current_room: Math.random() < 0.25 ? pick(demoRooms) : currentRoom(),
+  });
+}
+
+// Writes an event, its footage and the alert for it, in the order the robot
+// and the database trigger would, so the alert arrives with its media.
+export function raiseDemoEvent(type: DemoEventType = randomEventType()) {
+  const [event] = insertDemoRows('events', [{ type, resident_id: demoResidentId, robot_id: demoRobotId }]);
+  if (type === 'fall') insertDemoRows('event_media', demoFrames(Number(event.id), new Date(), currentRoom()));
+  insertDemoRows('alerts', [{ trigger_event: event.id, user_id: demoUserId, resident_id: demoResidentId }]);
+}
+
+function payloadField(payload: unknown, key: string): string | null {
+  const value = isDemoRow(payload) ? payload[key] : null;
+  return typeof value === 'string' ? value : null;
+}
+
+function commandResult(command: DemoRow): DemoRow {
+  switch (command.type) {
+    case 'snapshot':
+      return { result_path: demoFramePath(`snapshots/${command.id}`, 'snapshot', new Date()) };
+    case 'go_to_room': {
+      const room = payloadField(command.payload, 'room') ?? currentRoom();
+      updateDemoRows('robots', r => r.id === command.robot_id, { current_room: room });
+      return { result: { room } };
+    }
+    case 'check_in':
+      return { result: { response: 'ok', transcript: "I'm fine, thank you." } };
+    default:
+      return {};
+  }
+}
+
+// Queued, then delivered, then done, with a short delay for each like a real robot
+function runCommand(command: DemoRow) {
+  const matches = (row: DemoRow) => row.id === command.id;
+  setTimeout(() => {
+    updateDemoRows('commands', matches, { status: 'delivered', delivered_at: new Date().toISOString() });
+  }, commandDeliveryMs);
+  setTimeout(() => {
+    updateDemoRows('commands', matches, {
+      status: 'done',
+      completed_at: new Date().toISOString(),
+      ...commandResult(command),
+    });
+  }, commandDeliveryMs + commandRunMs);
+}
+
+function runSimulator() {
+  heartbeat();
+  setInterval(heartbeat, heartbeatIntervalMs);
+  setInterval(() => raiseDemoEvent(), eventIntervalMs);
+  onDemoChange(change => {
+    if (change.table === 'commands' && change.eventType === 'INSERT') runCommand(change.new);
+  });
+}
+
+// Runs once per page load, in the browser only. With the demo open in several
+// tabs only one plays the robot (it also runs commands queued from the
+// others), and the next takes over when that tab closes.
+export function startDemoSimulator() {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  if (!navigator.locks) {
+    runSimulator();
+    return;
+  }
+  navigator.locks
+    .request(simulatorLock, () => {
+      runSimulator();
+      return new Promise<never>(() => {});
+    })
+    .catch(() => {});
+}
@@ -0,0 +1,511 @@
+import type { Tables } from '@/lib/database.types';
+import { demoEmail, demoUserId } from '@/lib/demo';
+import { defaultUserSettings } from '@/lib/settings';
+
+export type DemoTable =
+  | 'alerts'
+  | 'events'
+  | 'event_media'
+  | 'alert_transitions'
+  | 'alert_attachments'
+  | 'alert_escalations'
+  | 'households'
+  | 'household_members'
+  | 'household_invitations'
+  | 'profiles'
+  | 'residents'
+  | 'robots'
+  | 'commands'
+  | 'escalation_steps'
+  | 'check_in_schedules'
+  | 'check_in_runs'
+  | 'user_settings'
+  | 'push_subscriptions';
+
+export type DemoRow = Record<string, unknown>;
+
+export function isDemoRow(value: unknown): value is DemoRow {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+export type DemoChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+export type DemoChange = { table: DemoTable; eventType: DemoChangeType; new: DemoRow; old: DemoRow };
+
+// How a table embeds another, like PostgREST does through foreign keys: the
+// parent's `column` matches the child's `references`.
+export type DemoRelation = { table: DemoTable; column: string; references: string; many: boolean };
+
+export const demoRelations: Partial<Record<DemoTable, Partial<Record<DemoTable, DemoRelation>>>> = {
+  alerts: {
+    events: { table: 'events', column: 'trigger_event', references: 'id', many: false },
+    alert_transitions: { table: 'alert_transitions', column: 'id', references: 'alert_id', many: true },
+    alert_attachments: { table: 'alert_attachments', column: 'id', references: 'alert_id', many: true },
+    alert_escalations: { table: 'alert_escalations', column: 'id', references: 'alert_id', many: true },
+  },
+  events: {
+    event_media: { table: 'event_media', column: 'id', references: 'event_id', many: true },
+  },
+  alert_transitions: {
+    profiles: { table: 'profiles', column: 'actor_id', references: 'id', many: false },
+  },
+  residents: {
+    households: { table: 'households', column: 'household_id', references: 'id', many: false },
+    robots: { table: 'robots', column: 'id', references: 'resident_id', many: true },
+  },
+  household_members: {
+    households: { table: 'households', column: 'household_id', references: 'id', many: false },
+    profiles: { table: 'profiles', column: 'user_id', references: 'id', many: false },
+  },
+  escalation_steps: {
+    profiles: { table: 'profiles', column: 'user_id', references: 'id', many: false },
+  },
+};
+
+const demoTables: DemoTable[] = [
+  'alerts',
+  'events',
+  'event_media',
+  'alert_transitions',
+  'alert_attachments',
+  'alert_escalations',
+  'households',
+  'household_members',
+  'household_invitations',
+  'profiles',
+  'residents',
+  'robots',
+  'commands',
+  'escalation_steps',
+  'check_in_schedules',
+  'check_in_runs',
+  'user_settings',
+  'push_subscriptions',
+];
+
+export function isDemoTable(name: string): name is DemoTable {
+  return (demoTables as string[]).includes(name);
+}
+
+// Column defaults the database would fill in on insert
+const columnDefaults: Partial<Record<DemoTable, () => DemoRow>> = {
+  alerts: () => ({ status: 'new', outcome: null, resolution_notes: null, escalation_step: 0, next_escalation_at: null }),
+  commands: () => ({
+    status: 'queued',
+    payload: {},
+    result: null,
+    result_path: null,
+    error: null,
+    requested_by: demoUserId,
+    delivered_at: null,
+    completed_at: null,
+  }),
+  user_settings: () => ({ ...defaultUserSettings, updated_at: new Date().toISOString() }),
+};
+
+// Tables keyed by something other than a generated id
+const primaryKeys: Partial<Record<DemoTable, string>> = {
+  user_settings: 'user_id',
+};
+const tablesWithoutId: DemoTable[] = ['household_members', 'user_settings'];
+
+function generatedId(table: DemoTable): DemoRow {
+  if (tablesWithoutId.includes(table)) return {};
+  return { id: table === 'events' ? nextEventId++ : crypto.randomUUID() };
+}
+
+export const demoHouseholdId = '00000000-0000-4000-8000-000000000101';
+export const demoResidentId = '00000000-0000-4000-8000-000000000201';
+export const demoRobotId = '00000000-0000-4000-8000-000000000301';
+const demoCaregiverId = '00000000-0000-4000-8000-000000000002';
+
+export const demoRooms = ['Living room', 'Kitchen', 'Bedroom', 'Hallway', 'Bathroom'];
+
+const storageKey = 'bobo-demo';
+
+// The simulator raises an alert every few minutes, so only the latest alerts
+// (with their events, footage and history), commands and check-in runs are
+// kept. Halved down to minKeptRows while the browser says storage is full.
+const keptRows = 200;
+const minKeptRows = 25;
+
+let tables: Record<DemoTable, DemoRow[]> | null = null;
+let nextEventId = 1;
+const listeners = new Set<(change: DemoChange) => void>();
+
+function tablesWith(rowsFor: (table: DemoTable) => DemoRow[]): Record<DemoTable, DemoRow[]> {
+  return Object.fromEntries(demoTables.map((table): [DemoTable, DemoRow[]] => [table, rowsFor(table)])) as Record<
+    DemoTable,
+    DemoRow[]
+  >;
+}
+
+function firstFreeEventId(store: Record<DemoTable, DemoRow[]>): number {
+  return Math.max(0, ...store.events.map(e => Number(e.id))) + 1;
+}
+
+function load(): Record<DemoTable, DemoRow[]> {
+  if (tables) return tables;
+  tables = readSaved() ?? seedDemoData(Date.now());
+  nextEventId = firstFreeEventId(tables);
+  if (typeof window !== 'undefined') window.addEventListener('storage', syncFromOtherTab);
+  return tables;
+}
+
+// Kept in localStorage so reloads and other tabs (e.g. an alert link opened
+// from a notification) see the same alerts. Clearing site data starts over.
+function readSaved(): Record<DemoTable, DemoRow[]> | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return parseSaved(window.localStorage.getItem(storageKey));
+  } catch {
+    return null;
+  }
+}
+
+function parseSaved(json: string | null): Record<DemoTable, DemoRow[]> | null {
+  try {
+    const saved = JSON.parse(json ?? 'null');
+    if (!saved || typeof saved !== 'object') return null;
+    return tablesWith(table => (Array.isArray(saved[table]) ? saved[table] : []));
+  } catch {
+    return null;
+  }
+}
+
+function rowKey(table: DemoTable, row: DemoRow): string {
+  if (table === 'household_members') return `${row.household_id}|${row.user_id}`;
+  return String(row[primaryKeys[table] ?? 'id']);
+}
+
+function diffRows(table: DemoTable, before: DemoRow[], after: DemoRow[]): DemoChange[] {
+  const previous = new Map(before.map(row => [rowKey(table, row), row]));
+  const changes: DemoChange[] = [];
+  after.forEach(row => {
+    const old = previous.get(rowKey(table, row));
+    previous.delete(rowKey(table, row));
+    if (!old) changes.push({ table, eventType: 'INSERT', new: row, old: {} });
+    else if (JSON.stringify(old) !== JSON.stringify(row)) changes.push({ table, eventType: 'UPDATE', new: row, old });
+  });
+  previous.forEach(old => changes.push({ table, eventType: 'DELETE', new: {}, old }));
+  return changes;
+}
+
+// Another tab saved: take its copy and replay the difference here, so this
+// tab's realtime subscriptions hear about alerts raised or claimed over there
+function syncFromOtherTab(event: StorageEvent) {
+  if (event.key !== storageKey || !tables) return;
+  const saved = parseSaved(event.newValue);
+  if (!saved) return;
+  const current = tables;
+  const changes = demoTables.flatMap(table => diffRows(table, current[table], saved[table]));
+  tables = saved;
+  nextEventId = Math.max(nextEventId, firstFreeEventId(saved));
+  notify(changes);
+}
+
+function newest(rows: DemoRow[], keep: number): DemoRow[] {
+  if (rows.length <= keep) return rows;
+  const kept = new Set(
+    [...rows].sort((a, b) => String(b.created_at).localeCompare(String(a.created_at))).slice(0, keep)
+  );
+  return rows.filter(row => kept.has(row));
+}
+
+function prune(store: Record<DemoTable, DemoRow[]>, keep: number) {
+  const alerts = newest(store.alerts, keep);
+  if (alerts.length < store.alerts.length) {
+    const keptAlerts = new Set(alerts.map(a => a.id));
+    const droppedEvents = new Set(store.alerts.filter(a => !keptAlerts.has(a.id)).map(a => a.trigger_event));
+    store.alerts = alerts;
+    store.events = store.events.filter(e => !droppedEvents.has(e.id));
+    store.event_media = store.event_media.filter(m => !droppedEvents.has(m.event_id));
+    store.alert_transitions = store.alert_transitions.filter(t => keptAlerts.has(t.alert_id));
+    store.alert_attachments = store.alert_attachments.filter(a => keptAlerts.has(a.alert_id));
+    store.alert_escalations = store.alert_escalations.filter(e => keptAlerts.has(e.alert_id));
+  }
+  store.commands = newest(store.commands, keep);
+  store.check_in_runs = newest(store.check_in_runs, keep);
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+// When storage stays full (or is blocked), the demo carries on in memory and
+// only this tab sees what happens next
+function save() {
+  if (typeof window === 'undefined' || !tables) return;
+  for (let keep = keptRows; keep >= minKeptRows; keep = Math.floor(keep / 2)) {
+    prune(tables, keep);
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(tables));
+      return;
+    } catch (err) {
+      if (!isQuotaError(err)) return;
+    }
+  }
+}
+
+export function demoRows(table: DemoTable): DemoRow[] {
+  return load()[table];
+}
+
+export function onDemoChange(listener: (change: DemoChange) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(changes: DemoChange[]) {
+  changes.forEach(change => listeners.forEach(listener => listener(change)));
+}
+
+function emit(changes: DemoChange[]) {
+  if (changes.length === 0) return;
+  save();
+  notify(changes);
+}
+
+export function insertDemoRows(table: DemoTable, rows: DemoRow[]): DemoRow[] {
+  const store = load();
+  const inserted = rows.map(row => ({
+    ...generatedId(table),
+    created_at: new Date().toISOString(),
+    ...columnDefaults[table]?.(),
+    ...row,
+  }));
+  store[table].push(...inserted);
+  emit(inserted.map(row => ({ table, eventType: 'INSERT', new: row, old: {} })));
+  return inserted;
+}
+
+export function updateDemoRows(table: DemoTable, matches: (row: DemoRow) => boolean, changes: DemoRow): DemoRow[] {
+  const store = load();
+  const updated: DemoChange[] = [];
+  store[table] = store[table].map(row => {
+    if (!matches(row)) return row;
+    const next = { ...row, ...changes };
+    updated.push({ table, eventType: 'UPDATE', new: next, old: row });
+    return next;
+  });
+  emit(updated);
+  return updated.map(change => change.new);
+}
+
+// Inserts, or updates the row with the same `onConflict` value
+export function upsertDemoRows(table: DemoTable, rows: DemoRow[], onConflict?: string): DemoRow[] {
+  const key = onConflict ?? primaryKeys[table] ?? 'id';
+  return rows.flatMap(row => {
+    const existing = demoRows(table).some(r => r[key] === row[key]);
+    return existing ? updateDemoRows(table, r => r[key] === row[key], row) : insertDemoRows(table, [row]);
+  });
+}
+
+export function deleteDemoRows(table: DemoTable, matches: (row: DemoRow) => boolean): DemoRow[] {
+  const store = load();
+  const deleted = store[table].filter(matches);
+  store[table] = store[table].filter(row => !matches(row));
+  emit(deleted.map(row => ({ table, eventType: 'DELETE', new: {}, old: row })));
+  return deleted;
+}
+
+// Synthetic camera frames are SVGs named after the camera and capture time,
+// so storage can draw them on request instead of keeping image data around.
+export function demoFramePath(folder: string, camera: string, capturedAt: Date): string {
+  return `demo/${folder}/${camera}-${capturedAt.getTime()}.svg`;
+}
+
+export function demoFrames(eventId: number, raisedAt: Date, room: string): Tables<'event_media'>[] {
+  return ['robot', room.toLowerCase().replace(/\s+/g, '-')].map((camera, index) => {
+    const capturedAt = new Date(raisedAt.getTime() - (index + 1) * 2000);
+    const path = demoFramePath(String(eventId), camera, capturedAt);
+    return {
+      id: crypto.randomUUID(),
+      event_id: eventId,
+      path,
+      mime_type: 'image/svg+xml',
+      duration_ms: null,
+      poster_path: null,
+      camera,
+      captured_at: capturedAt.toISOString(),
+      created_at: raisedAt.toISOString(),
+      detected_offset_ms: null,
+    };
+  });
+}
+
+export type DemoEventType = 'fall' | 'help_request' | 'no_motion';
+
+// A robot event and its footage (falls only)
+function demoEventRows(
+  eventId: number,
+  type: DemoEventType,
+  raisedAt: Date,
+  room: string
+): { event: Tables<'events'>; media: Tables<'event_media'>[] } {
+  return {
+    event: {
+      id: eventId,
+      type,
+      resident_id: demoResidentId,
+      robot_id: demoRobotId,
+      created_at: raisedAt.toISOString(),
+    },
+    media: type === 'fall' ? demoFrames(eventId, raisedAt, room) : [],
+  };
+}
+
+type PastAlert = {
+  type: DemoEventType;
+  daysAgo: number;
+  room: string;
+  responder: string;
+  minutesToClaim: number;
+  minutesToClose: number;
+  outcome: string;
+  notes: string | null;
+};
+
+const pastAlerts: PastAlert[] = [
+  {
+    type: 'fall',
+    daysAgo: 2,
+    room: 'Kitchen',
+    responder: demoUserId,
+    minutesToClaim: 1,
+    minutesToClose: 14,
+    outcome: 'no_injury',
+    notes: 'Slipped reaching for a cup. Helped her up, no pain.',
+  },
+  {
+    type: 'no_motion',
+    daysAgo: 5,
+    room: 'Bedroom',
+    responder: demoCaregiverId,
+    minutesToClaim: 3,
+    minutesToClose: 6,
+    outcome: 'false_alarm',
+    notes: 'Napping longer than usual.',
+  },
+  {
+    type: 'help_request',
+    daysAgo: 9,
+    room: 'Bathroom',
+    responder: demoCaregiverId,
+    minutesToClaim: 2,
+    minutesToClose: 35,
+    outcome: 'minor_injury',
+    notes: 'Bruised knee getting out of the bath. Iced it.',
+  },
+  {
+    type: 'fall',
+    daysAgo: 16,
+    room: 'Hallway',
+    responder: demoUserId,
+    minutesToClaim: 4,
+    minutesToClose: 90,
+    outcome: 'medical_attention',
+    notes: 'Saw Dr. Patel the same afternoon. Nothing broken.',
+  },
+];
+
+// One household with a resident, a robot, two caregivers, a few closed alerts
+// and one fall waiting for a response
+function seedDemoData(now: number): Record<DemoTable, DemoRow[]> {
+  const at = (minutesAgo: number) => new Date(now - minutesAgo * 60 * 1000).toISOString();
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const seeded = tablesWith(() => []);
+
+  const profiles: Tables<'profiles'>[] = [
+    { id: demoUserId, email: demoEmail, display_name: 'Sam (demo)', created_at: at(60 * 24 * 60) },
+    { id: demoCaregiverId, email: 'jordan@bobo.local', display_name: 'Jordan', created_at: at(60 * 24 * 50) },
+  ];
+  const household: Tables<'households'> = {
+    id: demoHouseholdId,
+    name: 'Demo household',
+    owner_id: demoUserId,
+    require_mfa: false,
+    created_at: at(60 * 24 * 60),
+  };
+  const members: Tables<'household_members'>[] = [
+    { household_id: demoHouseholdId, user_id: demoUserId, role: 'owner', created_at: at(60 * 24 * 60) },
+    { household_id: demoHouseholdId, user_id: demoCaregiverId, role: 'caregiver', created_at: at(60 * 24 * 50) },
+  ];
+  const resident: Tables<'residents'> = {
+    id: demoResidentId,
+    household_id: demoHouseholdId,
+    name: 'Margaret',
+    photo_path: null,
+    address: '12 Elm Street',
+    time_zone: timeZone,
+    created_at: at(60 * 24 * 60),
+  };
+  const robot: Tables<'robots'> = {
+    id: demoRobotId,
+    household_id: demoHouseholdId,
+    resident_id: demoResidentId,
+    name: 'Bobo',
+    last_seen_at: new Date(now).toISOString(),
+    offline_since: null,
+    battery_percent: 76,
+    charging: false,
+    wifi_rssi: -58,
+    current_room: 'Living room',
+    firmware_version: '1.4.2',
+    created_at: at(60 * 24 * 60),
+  };
+  seeded.profiles.push(...profiles);
+  seeded.households.push(household);
+  seeded.household_members.push(...members);
+  seeded.residents.push(resident);
+  seeded.robots.push(robot);
+
+  pastAlerts.forEach((past, index) => {
+    const raisedMinutesAgo = past.daysAgo * 60 * 24 + index * 97;
+    const { event, media } = demoEventRows(index + 1, past.type, new Date(at(raisedMinutesAgo)), past.room);
+    const alert: Tables<'alerts'> = {
+      id: crypto.randomUUID(),
+      created_at: event.created_at,
+      status: past.outcome === 'false_alarm' ? 'false_alarm' : 'resolved',
+      trigger_event: event.id,
+      user_id: demoUserId,
+      resident_id: demoResidentId,
+      outcome: past.outcome,
+      resolution_notes: past.notes,
+      escalation_step: 0,
+      next_escalation_at: null,
+    };
+    const transition = (from: string, to: string, minutes: number): Tables<'alert_transitions'> => ({
+      id: crypto.randomUUID(),
+      alert_id: alert.id,
+      from_status: from,
+      to_status: to,
+      actor_id: past.responder,
+      created_at: at(raisedMinutesAgo - minutes),
+    });
+    seeded.events.push(event);
+    seeded.event_media.push(...media);
+    seeded.alerts.push(alert);
+    seeded.alert_transitions.push(
+      transition('new', 'acknowledged', past.minutesToClaim),
+      transition('acknowledged', alert.status, past.minutesToClose)
+    );
+  });
+
+  const { event, media } = demoEventRows(pastAlerts.length + 1, 'fall', new Date(at(2)), 'Living room');
+  const active: Tables<'alerts'> = {
+    id: crypto.randomUUID(),
+    created_at: event.created_at,
+    status: 'new',
+    trigger_event: event.id,
+    user_id: demoUserId,
+    resident_id: demoResidentId,
+    outcome: null,
+    resolution_notes: null,
+    escalation_step: 0,
+    next_escalation_at: null,
+  };
+  seeded.events.push(event);
+  seeded.event_media.push(...media);
+  seeded.alerts.push(active);
+
+  return seeded;
+}
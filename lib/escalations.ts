@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+import type { AlertWithEvent } from '@/lib/alerts';
+
+export type EscalationStep = Pick<
+  Tables<'escalation_steps'>,
+  'id' | 'household_id' | 'position' | 'delay_minutes' | 'user_id' | 'contact_name' | 'contact_email' | 'contact_phone'
+> & {
+  profile: Pick<Tables<'profiles'>, 'email' | 'display_name'> | null;
+};
+
+// What the policy editor sends; positions follow the array order.
+export type EscalationStepInput = Pick<
+  EscalationStep,
+  'delay_minutes' | 'user_id' | 'contact_name' | 'contact_email' | 'contact_phone'
+>;
+
+export type EscalationProgress = {
+  total: number;
+  fired: number;
+  last: EscalationStep | null;
+  next: EscalationStep | null;
+  nextAt: Date | null;
+};
+
+export async function listEscalationSteps(
+  supabase: SupabaseClient<Database>,
+  householdId?: string
+): Promise<EscalationStep[]> {
+  let query = supabase
+    .from('escalation_steps')
+    .select(
+      'id, household_id, position, delay_minutes, user_id, contact_name, contact_email, contact_phone, profile:profiles(email, display_name)'
+    );
+  if (householdId) query = query.eq('household_id', householdId);
+
+  const { data, error } = await query.order('position', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function saveEscalationSteps(
+  supabase: SupabaseClient<Database>,
+  householdId: string,
+  steps: EscalationStepInput[]
+): Promise<void> {
+  const { error } = await supabase.rpc('set_escalation_steps', { target_household: householdId, steps });
+  if (error) throw error;
+}
+
+export function stepRecipient(step: EscalationStep): string {
+  if (step.user_id) return step.profile?.display_name ?? step.profile?.email ?? 'Caregiver';
+  return step.contact_name ?? step.contact_email ?? 'Emergency contact';
+}
+
+// Where an alert is in its household's chain. Only new alerts escalate;
+// claiming or closing one stops the chain.
+export function escalationProgress(
+  alert: Pick<AlertWithEvent, 'status' | 'escalation_step' | 'next_escalation_at'>,
+  steps: EscalationStep[]
+): EscalationProgress | null {
+  if (steps.length === 0) return null;
+  const fired = Math.min(alert.escalation_step, steps.length);
+  return {
+    total: steps.length,
+    fired,
+    last: fired > 0 ? steps[fired - 1] : null,
+    next: alert.status === 'new' ? (steps[fired] ?? null) : null,
+    nextAt: alert.status === 'new' && alert.next_escalation_at ? new Date(alert.next_escalation_at) : null,
+  };
+}
@@ -0,0 +1,39 @@
+import { defaultLocale, translatedLabel, type Locale } from '@/lib/i18n';
+import { eventTypeInfo, type Severity } from '@/supabase/functions/_shared/eventTypes';
+
+// The registry itself is shared with the edge functions
+export {
+  eventTypeInfo,
+  eventTypes,
+  type EventTypeColor,
+  type EventTypeIcon,
+  type EventTypeInfo,
+  type Severity,
+} from '@/supabase/functions/_shared/eventTypes';
+
+// Most urgent first
+export const severities: Severity[] = ['critical', 'high', 'medium', 'low'];
+
+export const severityLabels: Record<Severity, string> = {
+  critical: 'Critical',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export function severityLabel(severity: Severity, locale: Locale = defaultLocale): string {
+  return translatedLabel(locale, `severity.${severity}`, severityLabels[severity]);
+}
+
+export function severityRank(severity: Severity): number {
+  return severities.indexOf(severity);
+}
+
+// Most severe first, then newest first
+export function compareBySeverity(
+  a: { created_at: string; event: { type: string } | null },
+  b: { created_at: string; event: { type: string } | null }
+): number {
+  const bySeverity = severityRank(eventTypeInfo(a.event?.type).severity) - severityRank(eventTypeInfo(b.event?.type).severity);
+  return bySeverity || new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+}
@@ -0,0 +1,18 @@
+import { FunctionsHttpError, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+
+// Invokes an edge function and surfaces the `{ error }` message it responded
+// with instead of the generic non-2xx error.
+export async function invokeFunction<T = unknown>(
+  supabase: SupabaseClient<Database>,
+  name: string,
+  body: Record<string, unknown>
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error instanceof FunctionsHttpError) {
+    const payload = await error.context.json().catch(() => null);
+    throw new Error(payload?.error ?? error.message);
+  }
+  if (error) throw error;
+  return data as T;
+}
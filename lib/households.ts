@@ -0,0 +1,141 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Enums, Tables } from '@/lib/database.types';
+import { invokeFunction } from '@/lib/functions';
+import { defaultLocale, translatedLabel, type Locale } from '@/lib/i18n';
+
+export type HouseholdRole = Enums<'household_role'>;
+export type Membership = { role: HouseholdRole; household: Pick<Tables<'households'>, 'id' | 'name' | 'require_mfa'> };
+export type HouseholdMember = Pick<Tables<'household_members'>, 'household_id' | 'user_id' | 'role' | 'created_at'> & {
+  profile: Pick<Tables<'profiles'>, 'email' | 'display_name'> | null;
+};
+export type HouseholdInvitation = Pick<
+  Tables<'household_invitations'>,
+  'id' | 'email' | 'role' | 'created_at' | 'expires_at' | 'accepted_at' | 'revoked_at'
+>;
+
+export const roleLabels: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  caregiver: 'Caregiver',
+  viewer: 'Viewer',
+};
+
+export function roleLabel(role: HouseholdRole, locale: Locale = defaultLocale): string {
+  return translatedLabel(locale, `role.${role}`, roleLabels[role]);
+}
+
+// Owners and caregivers can act on alerts; viewers can only watch.
+export function canRespond(role: HouseholdRole | null | undefined): boolean {
+  return role === 'owner' || role === 'caregiver';
+}
+
+export async function listMemberships(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<Membership[]> {
+  const { data, error } = await supabase
+    .from('household_members')
+    .select('role, household:households(id, name, require_mfa)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data ?? []).flatMap(m => (m.household ? [{ role: m.role, household: m.household }] : []));
+}
+
+export async function listMembers(
+  supabase: SupabaseClient<Database>,
+  householdId: string
+): Promise<HouseholdMember[]> {
+  const { data, error } = await supabase
+    .from('household_members')
+    .select('household_id, user_id, role, created_at, profile:profiles(email, display_name)')
+    .eq('household_id', householdId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function listPendingInvitations(
+  supabase: SupabaseClient<Database>,
+  householdId: string
+): Promise<HouseholdInvitation[]> {
+  const { data, error } = await supabase
+    .from('household_invitations')
+    .select('id, email, role, created_at, expires_at, accepted_at, revoked_at')
+    .eq('household_id', householdId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function inviteMember(
+  supabase: SupabaseClient<Database>,
+  householdId: string,
+  email: string,
+  role: HouseholdRole
+): Promise<void> {
+  await invokeFunction(supabase, 'invite-member', {
+    household_id: householdId,
+    email,
+    role,
+    redirect_origin: window.location.origin,
+  });
+}
+
+export async function revokeInvitation(supabase: SupabaseClient<Database>, invitationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('household_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', invitationId);
+  if (error) throw error;
+}
+
+export async function updateMemberRole(
+  supabase: SupabaseClient<Database>,
+  householdId: string,
+  userId: string,
+  role: HouseholdRole
+): Promise<void> {
+  const { error } = await supabase
+    .from('household_members')
+    .update({ role })
+    .eq('household_id', householdId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+export async function removeMember(
+  supabase: SupabaseClient<Database>,
+  householdId: string,
+  userId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('household_members')
+    .delete()
+    .eq('household_id', householdId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+export async function acceptInvitation(supabase: SupabaseClient<Database>, token: string): Promise<string> {
+  const { data, error } = await supabase.rpc('accept_household_invitation', { invite_token: token });
+  if (error) throw error;
+  return data;
+}
+
+// Turning the requirement on needs an aal2 session; see set_household_mfa_requirement.
+export async function setHouseholdMfaRequirement(
+  supabase: SupabaseClient<Database>,
+  householdId: string,
+  required: boolean
+): Promise<void> {
+  const { error } = await supabase.rpc('set_household_mfa_requirement', {
+    target_household: householdId,
+    required,
+  });
+  if (error) throw error;
+}
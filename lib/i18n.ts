@@ -0,0 +1,59 @@
+import { en, type MessageKey, type Messages } from '@/lib/locales/en';
+import { es, esLabels } from '@/lib/locales/es';
+
+export type { MessageKey } from '@/lib/locales/en';
+
+export const locales = ['en', 'es'] as const;
+export type Locale = (typeof locales)[number];
+export const defaultLocale: Locale = 'en';
+export type MessageVars = Record<string, string | number>;
+export type Translate = (key: MessageKey, vars?: MessageVars) => string;
+
+// Each language names itself in the picker
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+// Remembers the language for the server render, so pages don't flash English
+export const localeCookie = 'bobo-locale';
+
+const messages: Record<Locale, Messages> = { en, es };
+const labels: Record<Locale, Record<string, string>> = { en: {}, es: esLabels };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (locales as readonly string[]).includes(value);
+}
+
+// The first supported language in an Accept-Language header or navigator.languages
+export function matchLocale(preferred: readonly string[]): Locale {
+  for (const tag of preferred) {
+    const language = tag.trim().split(/[-;]/)[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return defaultLocale;
+}
+
+// Messages are either a string or plural forms chosen with Intl.PluralRules
+// from `vars.count`. `{name}` placeholders are filled from vars.
+export function translate(locale: Locale, key: MessageKey, vars: MessageVars = {}): string {
+  const message = messages[locale][key] ?? en[key];
+  const template =
+    typeof message === 'string'
+      ? message
+      : message[new Intl.PluralRules(locale).select(Number(vars.count ?? 0)) as keyof typeof message] ?? message.other;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+}
+
+export function translator(locale: Locale): Translate {
+  return (key, vars) => translate(locale, key, vars);
+}
+
+// Labels for values stored in the database, keyed like 'eventType.fall' or
+// 'outcome.hospital'. English lives next to each value's definition; other
+// languages fall back to it for values they don't list yet.
+export function translatedLabel(locale: Locale, key: string, english: string): string {
+  return labels[locale][key] ?? english;
+}
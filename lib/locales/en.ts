@@ -0,0 +1,544 @@
+// English UI strings. Every other locale must provide the same keys (the type
+// checker enforces it). Plural messages pick a form from `count`.
+export type Message = string | { one?: string; few?: string; many?: string; other: string };
+
+export const en = {
+  'common.backToDashboard': '← Back to dashboard',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.saving': 'Saving…',
+  'common.loading': 'Loading…',
+  'common.please': 'Please',
+  'common.logIn': 'log in',
+
+  'actor.you': 'You',
+  'actor.someone': 'Someone',
+  'eventType.unknown': 'Unknown',
+
+  'nav.analytics': 'Analytics',
+  'nav.checkIns': 'Check-ins',
+  'nav.caregivers': 'Caregivers',
+  'nav.login': 'Login',
+
+  'menu.button': 'Menu',
+  'menu.signedInAs': 'Signed in as {email}',
+  'menu.profile': 'Profile',
+  'menu.notifications': 'Notifications and quiet hours',
+  'menu.alertTypes': 'Alert types',
+  'menu.residents': 'Residents and robots',
+  'menu.security': 'Security',
+  'menu.signOut': 'Sign out',
+
+  'robot.online': 'Online',
+  'robot.offline': 'Offline',
+  'robot.offlineSince': 'Offline since {time}',
+  'robot.manyOffline': { one: '{count} robot offline', other: '{count} robots offline' },
+  'robot.batteryLow': 'Battery low ({percent}%)',
+  'robot.manyBatteriesLow': { one: '{count} battery low', other: '{count} batteries low' },
+  'robot.none': 'No robot',
+  'robot.notConnected': 'Not connected yet',
+
+  'device.section': 'Devices',
+  'device.with': 'With {name}',
+  'device.battery': 'Battery',
+  'device.charging': 'Charging',
+  'device.wifi': 'Wi-Fi',
+  'device.room': 'Room',
+  'device.roomUnknown': 'Unknown',
+  'device.firmware': 'Firmware',
+  'device.lastHeartbeat': 'Last heartbeat {time}',
+  'device.controls': 'Controls',
+  'device.hideControls': 'Hide controls',
+  'wifi.none': 'No signal',
+  'wifi.weak': 'Weak',
+  'wifi.fair': 'Fair',
+  'wifi.good': 'Good',
+  'wifi.excellent': 'Excellent',
+
+  'push.on': '🔔 Notifications on · Turn off',
+  'push.turningOff': 'Turning off…',
+  'push.title': 'Get notified about falls',
+  'push.denied': 'Notifications are blocked for this site. Allow them in your browser settings to get alerts.',
+  'push.description':
+    'Receive a notification on this device as soon as Bobo raises an alert, even when the dashboard is closed.',
+  'push.turningOn': 'Turning on…',
+  'push.turnOn': 'Turn on notifications',
+  'push.failed': 'Failed to update notifications',
+
+  'residents.label': 'Residents',
+  'residents.all': 'All residents',
+
+  'dashboard.residentAlerts': "{name}'s Alerts",
+  'dashboard.allResidents': 'All Residents',
+  'dashboard.yourAlerts': 'Your Alerts',
+  'dashboard.monitoring': { one: 'Monitoring {count} resident', other: 'Monitoring {count} residents' },
+  'dashboard.activeAlerts': { one: '{count} Active Alert', other: '{count} Active Alerts' },
+  'dashboard.hiddenBySettings': '{count} more hidden by your alert settings',
+  'dashboard.changeSettings': 'Change',
+  'dashboard.live': 'Live',
+  'dashboard.reconnecting': 'Reconnecting…',
+  'dashboard.connecting': 'Connecting…',
+  'dashboard.degraded': 'Live updates are unavailable. Checking for new alerts periodically.',
+  'dashboard.interrupted': 'Live updates are interrupted. New alerts may take a little longer to appear while we reconnect.',
+  'dashboard.noActiveAlerts': 'No active alerts at this time.',
+  'dashboard.unassigned': 'Unassigned',
+  'dashboard.pastAlerts': 'Past Alerts',
+  'dashboard.fullHistory': 'Full history →',
+  'dashboard.filterByOutcome': 'Filter by outcome',
+  'dashboard.allOutcomes': 'All outcomes',
+  'dashboard.noPastAlerts': 'No past alerts to display.',
+  'dashboard.welcome': 'Welcome to Bobo',
+  'dashboard.welcomeBody':
+    'Your intelligent guardian assistant. Please log in to access your dashboard and monitor alerts.',
+  'dashboard.getStarted': 'Get Started',
+  'dashboard.loadAlertsFailed': 'Failed to load alerts',
+  'dashboard.loadPastAlertsFailed': 'Failed to load past alerts',
+  'dashboard.loadMediaFailed': 'Failed to load media',
+
+  'alert.claiming': 'Claiming…',
+  'alert.resolving': 'Resolving…',
+  'alert.savingFalseAlarm': 'Saving…',
+  'alert.imOnIt': "I'm on it",
+  'alert.resolve': 'Resolve',
+  'alert.falseAlarm': 'False alarm',
+  'alert.isOnIt': ' is on it',
+  'alert.claimedIt': ' claimed this alert',
+  'alert.reachThrough': 'Reach them through {robot}',
+  'alert.showTimeline': 'Show timeline ({count})',
+  'alert.hideTimeline': 'Hide timeline',
+  'alert.openPage': 'Open alert page →',
+  'alert.cannotRespond': 'You can follow this alert but not respond to it.',
+  'alert.updateFailed': 'Failed to update alert',
+  'alert.noMedia': 'No media was recorded for this event.',
+
+  'alertPage.media': 'Media',
+  'alertPage.noFootage': 'No footage was recorded for this alert.',
+  'alertPage.details': 'Details',
+  'alertPage.event': 'Event',
+  'alertPage.raised': 'Raised',
+  'alertPage.resident': 'Resident',
+  'alertPage.household': 'Household',
+  'alertPage.robot': 'Robot',
+  'alertPage.footage': 'Footage',
+  'alertPage.footageCount': { one: '{count} item', other: '{count} items' },
+  'alertPage.escalation': 'Escalation',
+  'alertPage.escalationStep': 'Step {fired} of {total}',
+  'alertPage.noPolicy': 'No policy',
+  'alertPage.doesntEscalate': "Doesn't escalate",
+  'alertPage.alertId': 'Alert ID',
+  'alertPage.notes': 'Notes',
+  'alertPage.noNotes': 'No notes were added when this alert was closed.',
+  'alertPage.notesLater': 'Notes are added when the alert is closed.',
+  'alertPage.timeline': 'Timeline',
+  'alertPage.loadFailed': 'Failed to load alert',
+
+  'unavailable.title': 'Alert not found',
+  'unavailable.body':
+    "This alert doesn't exist, or it belongs to a household you're not a member of. If someone shared the link with you, ask them to invite you to their household.",
+  'unavailable.dashboard': 'Go to dashboard',
+  'unavailable.history': 'Alert history',
+
+  'timeline.raised': 'Alert raised',
+  'timeline.claimed': '{actor} claimed it',
+  'timeline.resolved': '{actor} resolved the alert',
+  'timeline.falseAlarm': '{actor} marked it a false alarm',
+  'timeline.changed': '{actor} changed it to {status}',
+  'timeline.escalated': 'Escalated to {recipient}',
+
+  'resolution.outcome': 'Outcome:',
+
+  'escalation.notStarted': 'Escalation not started',
+  'escalation.step': 'Escalation step {fired} of {total}',
+  'escalation.notified': ' · notified {name}',
+  'escalation.next': 'Next:',
+  'escalation.at': 'at {time}',
+  'escalation.inMinutes': 'in {count} min',
+  'escalation.anyMoment': 'any moment now',
+  'escalation.allNotified': 'Everyone in the escalation chain has been notified.',
+
+  'close.whatHappened': 'What happened?',
+  'close.chooseOutcome': 'Choose what happened before closing the alert.',
+  'close.notes': 'Notes',
+  'close.notesPlaceholder': 'What did you find? Anything the doctor should know?',
+  'close.attachments': 'Attachments',
+  'close.closing': 'Closing…',
+  'close.submit': 'Close alert',
+  'close.failed': 'Failed to close alert',
+
+  'media.fullScreen': 'Full screen',
+  'viewer.label': 'Media viewer',
+  'viewer.position': '{index} of {total}',
+  'viewer.previous': 'Previous',
+  'viewer.next': 'Next',
+  'viewer.download': 'Download',
+  'viewer.close': 'Close',
+  'viewer.play': 'Play',
+  'viewer.pause': 'Pause',
+  'viewer.previousFrame': '◀ Frame',
+  'viewer.nextFrame': 'Frame ▶',
+  'viewer.previousFrameHint': 'Previous frame (,)',
+  'viewer.nextFrameHint': 'Next frame (.)',
+  'viewer.jumpToFall': 'Jump to fall',
+  'viewer.fall': 'Fall',
+  'viewer.fallAt': 'Fall detected at {time}',
+  'viewer.speed': 'Speed',
+  'viewer.seek': 'Position',
+
+  'history.title': 'Alert history',
+  'history.description': 'Every closed alert, newest first. Filters are saved in the address, so you can share this view.',
+  'history.loginPrompt': 'to see alert history.',
+  'history.search': 'Search resolution notes',
+  'history.eventType': 'Event type',
+  'history.allTypes': 'All types',
+  'history.resident': 'Resident',
+  'history.outcome': 'Outcome',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.clearFilters': 'Clear filters',
+  'history.exporting': 'Exporting…',
+  'history.exportCsv': 'Export CSV',
+  'history.printable': 'Printable report',
+  'history.noMatches': 'No alerts match these filters.',
+  'history.empty': 'No past alerts yet.',
+  'history.loadMore': 'Load more',
+  'history.end': "That's everything.",
+  'history.loadFailed': 'Failed to load alert history',
+  'history.loadMoreFailed': 'Failed to load more alerts',
+  'history.exportFailed': 'Failed to export alerts',
+
+  'settings.title': 'Settings',
+  'settings.loginPrompt': 'to manage your settings.',
+  'settings.saved': 'Settings saved.',
+  'settings.loadFailed': 'Failed to load settings',
+  'settings.saveFailed': 'Failed to save settings',
+  'settings.profile': 'Profile',
+  'settings.displayName': 'Name shown to your household',
+  'settings.email': 'Email: {email}',
+  'settings.saveProfile': 'Save profile',
+  'settings.security': 'Password and two-factor →',
+  'settings.language': 'Language',
+  'settings.notifications': 'Notifications',
+  'settings.channels': 'Channels',
+  'settings.pushChannel': "Push notifications on devices where they're turned on",
+  'settings.emailChannel': 'Email to {email}',
+  'settings.quietHours': 'Quiet hours',
+  'settings.quietHoursToggle': 'Hold back non-critical notifications',
+  'settings.quietFrom': 'From',
+  'settings.quietTo': 'to',
+  'settings.quietHoursNote':
+    'Falls and requests for help are always sent, and escalation steps that name you notify you regardless of these settings.',
+  'settings.saveNotifications': 'Save notifications',
+  'settings.alertTypes': 'Alert types',
+  'settings.alertTypesNote':
+    "Turned-off types aren't sent to you and are hidden from your dashboard. They still appear in history.",
+  'settings.residents': 'Residents and robots',
+  'settings.noResidents': 'No residents yet.',
+  'settings.household': 'Household',
+  'settings.name': 'Name',
+  'settings.timeZone': 'Time zone',
+  'settings.address': 'Address',
+  'settings.edit': 'Edit',
+  'settings.saveResidentFailed': 'Failed to save resident',
+  'settings.robotBattery': 'Battery {percent}%',
+  'settings.robotCharging': ' (charging)',
+  'settings.robotFirmware': 'Firmware {version}',
+  'settings.noRobot': 'No robot assigned.',
+  'settings.checkIns': 'Check-ins and reminders →',
+  'settings.manageCaregivers': 'Manage caregivers →',
+  'settings.signOut': 'Sign out',
+  'settings.signOutButton': 'Sign out of Bobo',
+
+  'command.snapshot': 'Take a snapshot',
+  'command.goToRoom': 'Go to {room}',
+  'command.goToAnyRoom': 'Go to a room',
+  'command.speak': 'Say “{message}”',
+  'command.checkIn': 'Start a check-in',
+  'command.arrivedIn': 'Arrived in {room}',
+  'command.responseWithTranscript': '{response}: “{transcript}”',
+
+  'commands.offline': '{robot} is offline. Commands fail if it doesn’t pick them up within 2 minutes.',
+  'commands.sending': 'Sending…',
+  'commands.helpIsComing': 'Tell them help is coming',
+  'commands.helpIsComingMessage': 'Help is on the way. Stay where you are.',
+  'commands.speakPlaceholder': 'Say something through {robot}',
+  'commands.speakButton': 'Speak',
+  'commands.roomPlaceholder': 'Room, e.g. Kitchen',
+  'commands.go': 'Go',
+  'commands.snapshotAlt': 'Snapshot from {robot}',
+  'commands.loadFailed': 'Failed to load commands',
+  'commands.snapshotFailed': 'Failed to load snapshot',
+  'commands.sendFailed': 'Failed to send command',
+
+  'checkIns.title': 'Check-ins',
+  'checkIns.description':
+    'Bobo asks the resident each question at the scheduled time and records whether they answered. Times are in the resident’s time zone.',
+  'checkIns.descriptionWithZone':
+    'Bobo asks the resident each question at the scheduled time and records whether they answered. Times are in the resident’s time zone ({timeZone}).',
+  'checkIns.loginPrompt': 'to manage check-ins.',
+  'checkIns.schedule': 'Schedule',
+  'checkIns.noSchedules': 'No check-ins or reminders scheduled yet.',
+  'checkIns.kindMessage': '{kind}: “{message}”',
+  'checkIns.next': 'Next {time}',
+  'checkIns.paused': 'Paused',
+  'checkIns.alertsIfMissed': 'alerts if missed',
+  'checkIns.pause': 'Pause',
+  'checkIns.resume': 'Resume',
+  'checkIns.delete': 'Delete',
+  'checkIns.confirmDeleteCheckIn': 'Delete the {time} check-in?',
+  'checkIns.confirmDeleteReminder': 'Delete the {time} reminder?',
+  'checkIns.at': 'at',
+  'checkIns.messagePlaceholder': 'What Bobo should say',
+  'checkIns.defaultCheckIn': 'How are you feeling today?',
+  'checkIns.defaultReminder': "It's time to take your medication.",
+  'checkIns.alertIfMissed': "Raise an alert if they don't answer",
+  'checkIns.adding': 'Adding…',
+  'checkIns.add': 'Add to schedule',
+  'checkIns.chooseDay': 'Choose at least one day.',
+  'checkIns.viewerNote': 'Viewers can see check-ins but not change them.',
+  'checkIns.recentRuns': 'Recent runs',
+  'checkIns.noRuns': 'Nothing has run yet.',
+  'checkIns.theySaid': 'They said: “{transcript}”',
+  'checkIns.viewAlert': 'View alert',
+  'checkIns.everyDay': 'Every day',
+  'checkIns.weekdays': 'Weekdays',
+  'checkIns.weekends': 'Weekends',
+  'checkIns.waiting': 'Waiting for an answer',
+  'checkIns.missed': 'Missed',
+  'checkIns.loadResidentsFailed': 'Failed to load residents',
+  'checkIns.loadFailed': 'Failed to load check-ins',
+  'checkIns.addFailed': 'Failed to add check-in',
+  'checkIns.updateFailed': 'Failed to update check-in',
+  'checkIns.deleteFailed': 'Failed to delete check-in',
+
+  'analytics.title': 'Analytics',
+  'analytics.description': 'Trends in incidents and how quickly they are handled, compared with the period before.',
+  'analytics.loginPrompt': 'to see analytics.',
+  'analytics.last4Weeks': 'Last 4 weeks',
+  'analytics.last12Weeks': 'Last 12 weeks',
+  'analytics.last6Months': 'Last 6 months',
+  'analytics.lastYear': 'Last year',
+  'analytics.allResidents': 'All residents',
+  'analytics.incidents': 'Incidents',
+  'analytics.atNight': 'At night ({start}:00–{end}:00)',
+  'analytics.averageTimeToClose': 'Average time to close',
+  'analytics.noEarlierData': 'no earlier data',
+  'analytics.change': '{percent}% vs previous period',
+  'analytics.perWeek': 'Incidents per week',
+  'analytics.perWeekLabel': 'Incidents per week by event type',
+  'analytics.noIncidents': 'No incidents in this period.',
+  'analytics.weekOf': 'Week of {date}: {count}',
+  'analytics.previously': '(previously {count})',
+  'analytics.whenTitle': 'When incidents happen',
+  'analytics.whenNote': "In each resident's local time.",
+  'analytics.heatmapCell': { one: '{day} {hour}:00 – {count} incident', other: '{day} {hour}:00 – {count} incidents' },
+  'analytics.byCaregiver': 'Time to close by caregiver',
+  'analytics.byCaregiverNote': 'From the alert being raised to being resolved or marked a false alarm.',
+  'analytics.noneClosed': 'No alerts were closed in this period.',
+  'analytics.caregiver': 'Caregiver',
+  'analytics.closed': 'Closed',
+  'analytics.mean': 'Mean',
+  'analytics.median': 'Median',
+  'analytics.medianChange': 'Median change',
+  'analytics.formerMember': 'Former member',
+  'analytics.loadFailed': 'Failed to load analytics',
+  'analytics.seconds': '{count}s',
+  'analytics.minutes': '{count} min',
+  'analytics.hours': '{hours}h {minutes}m',
+
+  'members.title': 'Caregivers',
+  'members.description': "Everyone listed here can see this household's alerts. Caregivers and owners can respond to them.",
+  'members.escalationLink': 'Escalation policy →',
+  'members.securityLink': 'Two-factor authentication →',
+  'members.loginPrompt': 'to manage caregivers.',
+  'members.members': 'Members',
+  'members.unknown': 'Unknown',
+  'members.you': '(you)',
+  'members.revokeAccess': 'Revoke access',
+  'members.pending': 'Pending invitations',
+  'members.noPending': 'No pending invitations.',
+  'members.expires': 'expires {date}',
+  'members.revoke': 'Revoke',
+  'members.security': 'Security',
+  'members.requireMfa': 'Require two-factor authentication',
+  'members.requireMfaNote':
+    "Members must verify with an authenticator app before they can see this household's alerts and footage. Set it up for yourself first on the",
+  'members.securityPage': 'security page',
+  'members.invite': 'Invite a caregiver',
+  'members.email': 'Email',
+  'members.sending': 'Sending…',
+  'members.sendInvite': 'Send invite',
+  'members.inviteSent': 'Invitation sent to {email}.',
+  'members.loadHouseholdsFailed': 'Failed to load households',
+  'members.loadFailed': 'Failed to load members',
+  'members.mfaFailed': 'Failed to update two-factor setting',
+  'members.inviteFailed': 'Failed to send invitation',
+  'members.roleFailed': 'Failed to update role',
+  'members.removeFailed': 'Failed to remove member',
+  'members.revokeFailed': 'Failed to revoke invitation',
+
+  'report.back': '← Back to history',
+  'report.preparing': 'Preparing…',
+  'report.print': 'Print or save as PDF',
+  'report.title': 'Incident report',
+  'report.titleFor': 'Incident report: {name}',
+  'report.dateRange': '{from} – {to}',
+  'report.today': 'today',
+  'report.allDates': 'All dates',
+  'report.only': '{filter} only',
+  'report.generated': 'Generated {time}',
+  'report.loginPrompt': 'to build a report.',
+  'report.gathering': 'Gathering incidents and footage…',
+  'report.incidents': { one: '{count} incident', other: '{count} incidents' },
+  'report.outcomes': 'Outcomes',
+  'report.notRecorded': 'Not recorded',
+  'report.truncated': 'Only the {count} most recent incidents are included. Narrow the date range to see the rest.',
+  'report.status': 'Status',
+  'report.responded': 'Responded',
+  'report.closed': 'Closed',
+  'report.atBy': '{time} by {name}',
+  'report.notes': 'Notes',
+  'report.failed': 'Failed to build report',
+
+  'escalationPage.back': '← Back to caregivers',
+  'escalationPage.title': 'Escalation',
+  'escalationPage.description':
+    'While nobody has said "I\'m on it", Bobo works down this list, notifying each person once their delay after the alert has passed. Without a policy, every member is notified as soon as an alert is raised.',
+  'escalationPage.loginPrompt': 'to manage escalation.',
+  'escalationPage.steps': 'Steps',
+  'escalationPage.none': 'No escalation policy for this household.',
+  'escalationPage.step': 'Step {number}',
+  'escalationPage.after': 'after',
+  'escalationPage.minutesNotify': 'min, notify',
+  'escalationPage.emergencyContact': 'Emergency contact…',
+  'escalationPage.remove': 'Remove',
+  'escalationPage.contactName': 'Name',
+  'escalationPage.contactEmail': 'Email',
+  'escalationPage.contactPhone': 'Phone (shown to caregivers)',
+  'escalationPage.addStep': 'Add step',
+  'escalationPage.save': 'Save policy',
+  'escalationPage.ownersOnly': 'Only household owners can change the escalation policy.',
+  'escalationPage.saved': 'Escalation policy saved.',
+  'escalationPage.turnedOff': 'Escalation turned off.',
+  'escalationPage.loadFailed': 'Failed to load escalation policy',
+  'escalationPage.saveFailed': 'Failed to save escalation policy',
+
+  'security.title': 'Security',
+  'security.description': 'Protect your account with a code from an authenticator app as well as your password.',
+  'security.loginPrompt': 'to manage your security settings.',
+  'security.required': 'A household you belong to requires two-factor authentication. Set up an authenticator app to continue.',
+  'security.verifyToChange': 'Verify with your authenticator app to change these settings.',
+  'security.verifyNow': 'Verify now',
+  'security.authenticatorApp': 'Authenticator app',
+  'security.factorName': 'Authenticator {date}',
+  'security.added': 'Added {date}',
+  'security.removing': 'Removing…',
+  'security.remove': 'Remove',
+  'security.confirmRemove': "Remove this authenticator? You'll only need your password to sign in.",
+  'security.off': 'Two-factor authentication is off.',
+  'security.scan':
+    'Scan this code with an authenticator app (such as 1Password, Google Authenticator or Authy), then enter the 6-digit code it shows.',
+  'security.qrAlt': 'QR code for your authenticator app',
+  'security.enterKey': "Can't scan it? Enter this key instead:",
+  'security.verifying': 'Verifying…',
+  'security.verifyAndEnable': 'Verify and turn on',
+  'security.starting': 'Starting…',
+  'security.addAnother': 'Add another authenticator',
+  'security.setUp': 'Set up authenticator app',
+  'security.recoveryCodes': 'Recovery codes',
+  'security.recoveryCodesNote':
+    'If you lose your device, a recovery code lets you sign in and set up a new one. Each code works once.',
+  'security.codesRemaining': { one: '{count} unused code remains.', other: '{count} unused codes remain.' },
+  'security.saveCodes': "Save these codes somewhere safe. They won't be shown again.",
+  'security.download': 'Download',
+  'security.savedCodes': "I've saved them",
+  'security.generating': 'Generating…',
+  'security.generate': 'Generate new codes',
+  'security.password': 'Password',
+  'security.changePassword': 'Change password →',
+  'security.continue': 'Continue',
+  'security.loadFailed': 'Failed to load security settings',
+  'security.startFailed': 'Failed to start setup',
+  'security.codeMismatch': "That code didn't match. Try the latest one from your app.",
+  'security.removeFailed': 'Failed to remove authenticator',
+  'security.generateFailed': 'Failed to generate recovery codes',
+
+  'mfa.title': 'Two-factor authentication',
+  'mfa.enterCode': 'Enter the 6-digit code from your authenticator app.',
+  'mfa.enterRecoveryCode':
+    'Enter one of the recovery codes you saved when setting up two-factor authentication. This removes your current authenticator so you can set up a new one.',
+  'mfa.authenticatorApp': 'Authenticator app',
+  'mfa.verifying': 'Verifying…',
+  'mfa.verify': 'Verify',
+  'mfa.useRecoveryCode': 'Lost your device? Use a recovery code',
+  'mfa.useAuthenticator': 'Use your authenticator app',
+  'mfa.noFactor': 'No authenticator app is set up for this account.',
+  'mfa.loadFailed': 'Failed to load your authenticators',
+  'mfa.failed': 'Verification failed',
+
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.confirmPassword': 'Confirm password',
+  'auth.passwordTooShort': 'Use at least {count} characters for your password.',
+  'auth.passwordMismatch': 'Passwords do not match.',
+  'auth.signedInAs': 'Signed in as',
+  'auth.createAccount': 'Create an account',
+  'auth.backToLogin': 'Back to login',
+  'auth.linkInvalid': 'This link is invalid or has expired.',
+
+  'login.title': 'Login',
+  'login.emailLink': 'Email me a link',
+  'login.resendConfirmation': 'Resend confirmation email',
+  'login.signIn': 'Sign In',
+  'login.sendLink': 'Send link',
+  'login.forgotPassword': 'Forgot password?',
+  'login.newToBobo': 'New to Bobo?',
+  'login.linkSent': 'We sent a sign-in link to {email}. Open it on this device to continue.',
+  'login.confirmationSent': 'We sent a new confirmation link to {email}.',
+  'login.failed': 'Login failed',
+
+  'oauth.or': 'or',
+  'oauth.redirecting': 'Redirecting…',
+  'oauth.continueWith': 'Continue with {provider}',
+
+  'signup.name': 'Your name',
+  'signup.creating': 'Creating…',
+  'signup.submit': 'Create account',
+  'signup.haveAccount': 'Already have an account?',
+  'signup.logIn': 'Log in',
+  'signup.checkEmail': 'Check your email',
+  'signup.confirmationSent': 'We sent a confirmation link to {email}. Open it to finish creating your account.',
+  'signup.failed': 'Sign up failed',
+
+  'forgotPassword.title': 'Reset your password',
+  'forgotPassword.description': "Enter your email and we'll send you a link to choose a new password.",
+  'forgotPassword.sending': 'Sending…',
+  'forgotPassword.submit': 'Send reset link',
+  'forgotPassword.sent': 'If an account exists for {email}, we sent it a link to choose a new password.',
+  'forgotPassword.failed': 'Failed to send reset email',
+
+  'resetPassword.title': 'Choose a new password',
+  'resetPassword.openLink':
+    'Open the reset link from your email to set a new password. Links expire after a while, so you may need to request a new one.',
+  'resetPassword.requestLink': 'Request a new link',
+  'resetPassword.newPassword': 'New password',
+  'resetPassword.confirmPassword': 'Confirm new password',
+  'resetPassword.submit': 'Save password',
+  'resetPassword.failed': 'Failed to update password',
+
+  'callback.signingIn': 'Signing you in…',
+  'callback.failed': "Couldn't sign you in",
+  'callback.resetPassword': 'Reset password',
+
+  'invite.title': "You've been invited",
+  'invite.description': 'Join this household on Bobo to see and respond to alerts.',
+  'invite.joining': 'Joining…',
+  'invite.accept': 'Accept invitation',
+  'invite.signIn': 'Sign in to accept',
+  'invite.failed': 'Failed to accept invitation',
+
+  'demo.banner': 'Demo mode: alerts, footage and robot status are simulated.',
+  'demo.simulateFall': 'Simulate a fall',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
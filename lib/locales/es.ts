@@ -0,0 +1,588 @@
+import type { Messages } from '@/lib/locales/en';
+
+export const es: Messages = {
+  'common.backToDashboard': '← Volver al panel',
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.saving': 'Guardando…',
+  'common.loading': 'Cargando…',
+  'common.please': 'Por favor,',
+  'common.logIn': 'inicia sesión',
+
+  'actor.you': 'Usted',
+  'actor.someone': 'Alguien',
+  'eventType.unknown': 'Desconocido',
+
+  'nav.analytics': 'Estadísticas',
+  'nav.checkIns': 'Controles',
+  'nav.caregivers': 'Cuidadores',
+  'nav.login': 'Iniciar sesión',
+
+  'menu.button': 'Menú',
+  'menu.signedInAs': 'Sesión iniciada como {email}',
+  'menu.profile': 'Perfil',
+  'menu.notifications': 'Notificaciones y horas de silencio',
+  'menu.alertTypes': 'Tipos de alerta',
+  'menu.residents': 'Residentes y robots',
+  'menu.security': 'Seguridad',
+  'menu.signOut': 'Cerrar sesión',
+
+  'robot.online': 'En línea',
+  'robot.offline': 'Sin conexión',
+  'robot.offlineSince': 'Sin conexión desde {time}',
+  'robot.manyOffline': { one: '{count} robot sin conexión', other: '{count} robots sin conexión' },
+  'robot.batteryLow': 'Batería baja ({percent}%)',
+  'robot.manyBatteriesLow': { one: '{count} batería baja', other: '{count} baterías bajas' },
+  'robot.none': 'Sin robot',
+  'robot.notConnected': 'Aún no se ha conectado',
+
+  'device.section': 'Dispositivos',
+  'device.with': 'Con {name}',
+  'device.battery': 'Batería',
+  'device.charging': 'Cargando',
+  'device.wifi': 'Wi-Fi',
+  'device.room': 'Habitación',
+  'device.roomUnknown': 'Desconocida',
+  'device.firmware': 'Firmware',
+  'device.lastHeartbeat': 'Última señal {time}',
+  'device.controls': 'Controles',
+  'device.hideControls': 'Ocultar controles',
+  'wifi.none': 'Sin señal',
+  'wifi.weak': 'Débil',
+  'wifi.fair': 'Regular',
+  'wifi.good': 'Buena',
+  'wifi.excellent': 'Excelente',
+
+  'push.on': '🔔 Notificaciones activadas · Desactivar',
+  'push.turningOff': 'Desactivando…',
+  'push.title': 'Recibe avisos de caídas',
+  'push.denied':
+    'Las notificaciones están bloqueadas para este sitio. Permítelas en la configuración del navegador para recibir alertas.',
+  'push.description':
+    'Recibe una notificación en este dispositivo en cuanto Bobo genere una alerta, incluso con el panel cerrado.',
+  'push.turningOn': 'Activando…',
+  'push.turnOn': 'Activar notificaciones',
+  'push.failed': 'No se pudieron actualizar las notificaciones',
+
+  'residents.label': 'Residentes',
+  'residents.all': 'Todos los residentes',
+
+  'dashboard.residentAlerts': 'Alertas de {name}',
+  'dashboard.allResidents': 'Todos los residentes',
+  'dashboard.yourAlerts': 'Tus alertas',
+  'dashboard.monitoring': { one: 'Supervisando a {count} residente', other: 'Supervisando a {count} residentes' },
+  'dashboard.activeAlerts': { one: '{count} alerta activa', other: '{count} alertas activas' },
+  'dashboard.hiddenBySettings': '{count} más ocultas por tu configuración de alertas',
+  'dashboard.changeSettings': 'Cambiar',
+  'dashboard.live': 'En vivo',
+  'dashboard.reconnecting': 'Reconectando…',
+  'dashboard.connecting': 'Conectando…',
+  'dashboard.degraded': 'Las actualizaciones en vivo no están disponibles. Se buscan alertas nuevas periódicamente.',
+  'dashboard.interrupted':
+    'Las actualizaciones en vivo están interrumpidas. Las alertas nuevas pueden tardar un poco más en aparecer mientras nos reconectamos.',
+  'dashboard.noActiveAlerts': 'No hay alertas activas en este momento.',
+  'dashboard.unassigned': 'Sin asignar',
+  'dashboard.pastAlerts': 'Alertas anteriores',
+  'dashboard.fullHistory': 'Historial completo →',
+  'dashboard.filterByOutcome': 'Filtrar por resultado',
+  'dashboard.allOutcomes': 'Todos los resultados',
+  'dashboard.noPastAlerts': 'No hay alertas anteriores.',
+  'dashboard.welcome': 'Bienvenido a Bobo',
+  'dashboard.welcomeBody': 'Tu asistente de cuidado inteligente. Inicia sesión para acceder a tu panel y seguir las alertas.',
+  'dashboard.getStarted': 'Comenzar',
+  'dashboard.loadAlertsFailed': 'No se pudieron cargar las alertas',
+  'dashboard.loadPastAlertsFailed': 'No se pudieron cargar las alertas anteriores',
+  'dashboard.loadMediaFailed': 'No se pudieron cargar los archivos',
+
+  'alert.claiming': 'Asignando…',
+  'alert.resolving': 'Resolviendo…',
+  'alert.savingFalseAlarm': 'Guardando…',
+  'alert.imOnIt': 'Me encargo',
+  'alert.resolve': 'Resolver',
+  'alert.falseAlarm': 'Falsa alarma',
+  'alert.isOnIt': ' se está encargando',
+  'alert.claimedIt': ' se encargó de esta alerta',
+  'alert.reachThrough': 'Comunícate a través de {robot}',
+  'alert.showTimeline': 'Mostrar cronología ({count})',
+  'alert.hideTimeline': 'Ocultar cronología',
+  'alert.openPage': 'Abrir página de la alerta →',
+  'alert.cannotRespond': 'Puedes seguir esta alerta, pero no responder a ella.',
+  'alert.updateFailed': 'No se pudo actualizar la alerta',
+  'alert.noMedia': 'No se grabó nada de este evento.',
+
+  'alertPage.media': 'Archivos',
+  'alertPage.noFootage': 'No se grabó nada de esta alerta.',
+  'alertPage.details': 'Detalles',
+  'alertPage.event': 'Evento',
+  'alertPage.raised': 'Generada',
+  'alertPage.resident': 'Residente',
+  'alertPage.household': 'Hogar',
+  'alertPage.robot': 'Robot',
+  'alertPage.footage': 'Grabaciones',
+  'alertPage.footageCount': { one: '{count} archivo', other: '{count} archivos' },
+  'alertPage.escalation': 'Escalado',
+  'alertPage.escalationStep': 'Paso {fired} de {total}',
+  'alertPage.noPolicy': 'Sin política',
+  'alertPage.doesntEscalate': 'No se escala',
+  'alertPage.alertId': 'ID de alerta',
+  'alertPage.notes': 'Notas',
+  'alertPage.noNotes': 'No se añadieron notas al cerrar esta alerta.',
+  'alertPage.notesLater': 'Las notas se añaden al cerrar la alerta.',
+  'alertPage.timeline': 'Cronología',
+  'alertPage.loadFailed': 'No se pudo cargar la alerta',
+
+  'unavailable.title': 'Alerta no encontrada',
+  'unavailable.body':
+    'Esta alerta no existe o pertenece a un hogar del que no eres miembro. Si alguien te compartió el enlace, pídele que te invite a su hogar.',
+  'unavailable.dashboard': 'Ir al panel',
+  'unavailable.history': 'Historial de alertas',
+
+  'timeline.raised': 'Alerta generada',
+  'timeline.claimed': '{actor} se encargó',
+  'timeline.resolved': '{actor} resolvió la alerta',
+  'timeline.falseAlarm': '{actor} la marcó como falsa alarma',
+  'timeline.changed': '{actor} la cambió a {status}',
+  'timeline.escalated': 'Escalada a {recipient}',
+
+  'resolution.outcome': 'Resultado:',
+
+  'escalation.notStarted': 'Escalado no iniciado',
+  'escalation.step': 'Paso de escalado {fired} de {total}',
+  'escalation.notified': ' · se avisó a {name}',
+  'escalation.next': 'Siguiente:',
+  'escalation.at': 'a las {time}',
+  'escalation.inMinutes': 'en {count} min',
+  'escalation.anyMoment': 'en cualquier momento',
+  'escalation.allNotified': 'Se ha avisado a todos en la cadena de escalado.',
+
+  'close.whatHappened': '¿Qué pasó?',
+  'close.chooseOutcome': 'Elige qué pasó antes de cerrar la alerta.',
+  'close.notes': 'Notas',
+  'close.notesPlaceholder': '¿Qué encontraste? ¿Algo que deba saber el médico?',
+  'close.attachments': 'Adjuntos',
+  'close.closing': 'Cerrando…',
+  'close.submit': 'Cerrar alerta',
+  'close.failed': 'No se pudo cerrar la alerta',
+
+  'media.fullScreen': 'Pantalla completa',
+  'viewer.label': 'Visor de archivos',
+  'viewer.position': '{index} de {total}',
+  'viewer.previous': 'Anterior',
+  'viewer.next': 'Siguiente',
+  'viewer.download': 'Descargar',
+  'viewer.close': 'Cerrar',
+  'viewer.play': 'Reproducir',
+  'viewer.pause': 'Pausar',
+  'viewer.previousFrame': '◀ Fotograma',
+  'viewer.nextFrame': 'Fotograma ▶',
+  'viewer.previousFrameHint': 'Fotograma anterior (,)',
+  'viewer.nextFrameHint': 'Fotograma siguiente (.)',
+  'viewer.jumpToFall': 'Ir a la caída',
+  'viewer.fall': 'Caída',
+  'viewer.fallAt': 'Caída detectada a las {time}',
+  'viewer.speed': 'Velocidad',
+  'viewer.seek': 'Posición',
+
+  'history.title': 'Historial de alertas',
+  'history.description':
+    'Todas las alertas cerradas, de la más reciente a la más antigua. Los filtros se guardan en la dirección, así que puedes compartir esta vista.',
+  'history.loginPrompt': 'para ver el historial de alertas.',
+  'history.search': 'Buscar en las notas de cierre',
+  'history.eventType': 'Tipo de evento',
+  'history.allTypes': 'Todos los tipos',
+  'history.resident': 'Residente',
+  'history.outcome': 'Resultado',
+  'history.from': 'Desde',
+  'history.to': 'Hasta',
+  'history.clearFilters': 'Quitar filtros',
+  'history.exporting': 'Exportando…',
+  'history.exportCsv': 'Exportar CSV',
+  'history.printable': 'Informe imprimible',
+  'history.noMatches': 'Ninguna alerta coincide con estos filtros.',
+  'history.empty': 'Todavía no hay alertas anteriores.',
+  'history.loadMore': 'Cargar más',
+  'history.end': 'Eso es todo.',
+  'history.loadFailed': 'No se pudo cargar el historial de alertas',
+  'history.loadMoreFailed': 'No se pudieron cargar más alertas',
+  'history.exportFailed': 'No se pudieron exportar las alertas',
+
+  'settings.title': 'Configuración',
+  'settings.loginPrompt': 'para gestionar tu configuración.',
+  'settings.saved': 'Configuración guardada.',
+  'settings.loadFailed': 'No se pudo cargar la configuración',
+  'settings.saveFailed': 'No se pudo guardar la configuración',
+  'settings.profile': 'Perfil',
+  'settings.displayName': 'Nombre que ve tu hogar',
+  'settings.email': 'Correo: {email}',
+  'settings.saveProfile': 'Guardar perfil',
+  'settings.security': 'Contraseña y verificación en dos pasos →',
+  'settings.language': 'Idioma',
+  'settings.notifications': 'Notificaciones',
+  'settings.channels': 'Canales',
+  'settings.pushChannel': 'Notificaciones push en los dispositivos donde estén activadas',
+  'settings.emailChannel': 'Correo a {email}',
+  'settings.quietHours': 'Horas de silencio',
+  'settings.quietHoursToggle': 'Retener las notificaciones no críticas',
+  'settings.quietFrom': 'De',
+  'settings.quietTo': 'a',
+  'settings.quietHoursNote':
+    'Las caídas y las peticiones de ayuda siempre se envían, y los pasos de escalado que te nombran te avisan sin importar esta configuración.',
+  'settings.saveNotifications': 'Guardar notificaciones',
+  'settings.alertTypes': 'Tipos de alerta',
+  'settings.alertTypesNote':
+    'Los tipos desactivados no se te envían y se ocultan de tu panel. Siguen apareciendo en el historial.',
+  'settings.residents': 'Residentes y robots',
+  'settings.noResidents': 'Todavía no hay residentes.',
+  'settings.household': 'Hogar',
+  'settings.name': 'Nombre',
+  'settings.timeZone': 'Zona horaria',
+  'settings.address': 'Dirección',
+  'settings.edit': 'Editar',
+  'settings.saveResidentFailed': 'No se pudo guardar el residente',
+  'settings.robotBattery': 'Batería {percent}%',
+  'settings.robotCharging': ' (cargando)',
+  'settings.robotFirmware': 'Firmware {version}',
+  'settings.noRobot': 'No hay robot asignado.',
+  'settings.checkIns': 'Controles y recordatorios →',
+  'settings.manageCaregivers': 'Gestionar cuidadores →',
+  'settings.signOut': 'Cerrar sesión',
+  'settings.signOutButton': 'Cerrar sesión en Bobo',
+
+  'command.snapshot': 'Tomar una foto',
+  'command.goToRoom': 'Ir a {room}',
+  'command.goToAnyRoom': 'Ir a una habitación',
+  'command.speak': 'Decir “{message}”',
+  'command.checkIn': 'Iniciar un control',
+  'command.arrivedIn': 'Llegó a {room}',
+  'command.responseWithTranscript': '{response}: “{transcript}”',
+
+  'commands.offline': '{robot} no tiene conexión. Los comandos fallan si no los recoge en 2 minutos.',
+  'commands.sending': 'Enviando…',
+  'commands.helpIsComing': 'Decirle que la ayuda está en camino',
+  'commands.helpIsComingMessage': 'La ayuda está en camino. Quédate donde estás.',
+  'commands.speakPlaceholder': 'Decir algo a través de {robot}',
+  'commands.speakButton': 'Hablar',
+  'commands.roomPlaceholder': 'Habitación, p. ej. Cocina',
+  'commands.go': 'Ir',
+  'commands.snapshotAlt': 'Foto de {robot}',
+  'commands.loadFailed': 'No se pudieron cargar los comandos',
+  'commands.snapshotFailed': 'No se pudo cargar la foto',
+  'commands.sendFailed': 'No se pudo enviar el comando',
+
+  'checkIns.title': 'Controles',
+  'checkIns.description':
+    'Bobo hace cada pregunta al residente a la hora programada y registra si respondió. Las horas están en la zona horaria del residente.',
+  'checkIns.descriptionWithZone':
+    'Bobo hace cada pregunta al residente a la hora programada y registra si respondió. Las horas están en la zona horaria del residente ({timeZone}).',
+  'checkIns.loginPrompt': 'para gestionar los controles.',
+  'checkIns.schedule': 'Programación',
+  'checkIns.noSchedules': 'Todavía no hay controles ni recordatorios programados.',
+  'checkIns.kindMessage': '{kind}: “{message}”',
+  'checkIns.next': 'Próximo: {time}',
+  'checkIns.paused': 'En pausa',
+  'checkIns.alertsIfMissed': 'avisa si no responde',
+  'checkIns.pause': 'Pausar',
+  'checkIns.resume': 'Reanudar',
+  'checkIns.delete': 'Eliminar',
+  'checkIns.confirmDeleteCheckIn': '¿Eliminar el control de las {time}?',
+  'checkIns.confirmDeleteReminder': '¿Eliminar el recordatorio de las {time}?',
+  'checkIns.at': 'a las',
+  'checkIns.messagePlaceholder': 'Lo que Bobo debe decir',
+  'checkIns.defaultCheckIn': '¿Cómo te encuentras hoy?',
+  'checkIns.defaultReminder': 'Es hora de tomar tu medicación.',
+  'checkIns.alertIfMissed': 'Crear una alerta si no responde',
+  'checkIns.adding': 'Añadiendo…',
+  'checkIns.add': 'Añadir a la programación',
+  'checkIns.chooseDay': 'Elige al menos un día.',
+  'checkIns.viewerNote': 'Los observadores pueden ver los controles pero no cambiarlos.',
+  'checkIns.recentRuns': 'Ejecuciones recientes',
+  'checkIns.noRuns': 'Todavía no se ha ejecutado nada.',
+  'checkIns.theySaid': 'Dijo: “{transcript}”',
+  'checkIns.viewAlert': 'Ver alerta',
+  'checkIns.everyDay': 'Todos los días',
+  'checkIns.weekdays': 'Entre semana',
+  'checkIns.weekends': 'Fines de semana',
+  'checkIns.waiting': 'Esperando respuesta',
+  'checkIns.missed': 'Sin respuesta',
+  'checkIns.loadResidentsFailed': 'No se pudieron cargar los residentes',
+  'checkIns.loadFailed': 'No se pudieron cargar los controles',
+  'checkIns.addFailed': 'No se pudo añadir el control',
+  'checkIns.updateFailed': 'No se pudo actualizar el control',
+  'checkIns.deleteFailed': 'No se pudo eliminar el control',
+
+  'analytics.title': 'Análisis',
+  'analytics.description': 'Tendencias de incidentes y rapidez con que se atienden, comparadas con el periodo anterior.',
+  'analytics.loginPrompt': 'para ver los análisis.',
+  'analytics.last4Weeks': 'Últimas 4 semanas',
+  'analytics.last12Weeks': 'Últimas 12 semanas',
+  'analytics.last6Months': 'Últimos 6 meses',
+  'analytics.lastYear': 'Último año',
+  'analytics.allResidents': 'Todos los residentes',
+  'analytics.incidents': 'Incidentes',
+  'analytics.atNight': 'De noche ({start}:00–{end}:00)',
+  'analytics.averageTimeToClose': 'Tiempo medio hasta el cierre',
+  'analytics.noEarlierData': 'sin datos anteriores',
+  'analytics.change': '{percent}% respecto al periodo anterior',
+  'analytics.perWeek': 'Incidentes por semana',
+  'analytics.perWeekLabel': 'Incidentes por semana según el tipo de evento',
+  'analytics.noIncidents': 'No hubo incidentes en este periodo.',
+  'analytics.weekOf': 'Semana del {date}: {count}',
+  'analytics.previously': '(antes {count})',
+  'analytics.whenTitle': 'Cuándo ocurren los incidentes',
+  'analytics.whenNote': 'En la hora local de cada residente.',
+  'analytics.heatmapCell': { one: '{day} {hour}:00 – {count} incidente', other: '{day} {hour}:00 – {count} incidentes' },
+  'analytics.byCaregiver': 'Tiempo hasta el cierre por cuidador',
+  'analytics.byCaregiverNote': 'Desde que se crea la alerta hasta que se resuelve o se marca como falsa alarma.',
+  'analytics.noneClosed': 'No se cerró ninguna alerta en este periodo.',
+  'analytics.caregiver': 'Cuidador',
+  'analytics.closed': 'Cerradas',
+  'analytics.mean': 'Media',
+  'analytics.median': 'Mediana',
+  'analytics.medianChange': 'Cambio de la mediana',
+  'analytics.formerMember': 'Antiguo miembro',
+  'analytics.loadFailed': 'No se pudieron cargar los análisis',
+  'analytics.seconds': '{count} s',
+  'analytics.minutes': '{count} min',
+  'analytics.hours': '{hours} h {minutes} min',
+
+  'members.title': 'Cuidadores',
+  'members.description': 'Todas las personas de esta lista pueden ver las alertas del hogar. Los cuidadores y propietarios pueden atenderlas.',
+  'members.escalationLink': 'Política de escalado →',
+  'members.securityLink': 'Verificación en dos pasos →',
+  'members.loginPrompt': 'para gestionar los cuidadores.',
+  'members.members': 'Miembros',
+  'members.unknown': 'Desconocido',
+  'members.you': '(tú)',
+  'members.revokeAccess': 'Retirar acceso',
+  'members.pending': 'Invitaciones pendientes',
+  'members.noPending': 'No hay invitaciones pendientes.',
+  'members.expires': 'caduca el {date}',
+  'members.revoke': 'Retirar',
+  'members.security': 'Seguridad',
+  'members.requireMfa': 'Exigir verificación en dos pasos',
+  'members.requireMfaNote':
+    'Los miembros deben verificarse con una aplicación de autenticación antes de ver las alertas y las imágenes de este hogar. Actívala primero para ti en la',
+  'members.securityPage': 'página de seguridad',
+  'members.invite': 'Invitar a un cuidador',
+  'members.email': 'Correo',
+  'members.sending': 'Enviando…',
+  'members.sendInvite': 'Enviar invitación',
+  'members.inviteSent': 'Invitación enviada a {email}.',
+  'members.loadHouseholdsFailed': 'No se pudieron cargar los hogares',
+  'members.loadFailed': 'No se pudieron cargar los miembros',
+  'members.mfaFailed': 'No se pudo cambiar la verificación en dos pasos',
+  'members.inviteFailed': 'No se pudo enviar la invitación',
+  'members.roleFailed': 'No se pudo cambiar el rol',
+  'members.removeFailed': 'No se pudo quitar al miembro',
+  'members.revokeFailed': 'No se pudo retirar la invitación',
+
+  'report.back': '← Volver al historial',
+  'report.preparing': 'Preparando…',
+  'report.print': 'Imprimir o guardar como PDF',
+  'report.title': 'Informe de incidentes',
+  'report.titleFor': 'Informe de incidentes: {name}',
+  'report.dateRange': '{from} – {to}',
+  'report.today': 'hoy',
+  'report.allDates': 'Todas las fechas',
+  'report.only': 'solo {filter}',
+  'report.generated': 'Generado el {time}',
+  'report.loginPrompt': 'para crear un informe.',
+  'report.gathering': 'Reuniendo incidentes e imágenes…',
+  'report.incidents': { one: '{count} incidente', other: '{count} incidentes' },
+  'report.outcomes': 'Resultados',
+  'report.notRecorded': 'Sin registrar',
+  'report.truncated': 'Solo se incluyen los {count} incidentes más recientes. Acota el rango de fechas para ver el resto.',
+  'report.status': 'Estado',
+  'report.responded': 'Atendida',
+  'report.closed': 'Cerrada',
+  'report.atBy': '{time}, por {name}',
+  'report.notes': 'Notas',
+  'report.failed': 'No se pudo crear el informe',
+
+  'escalationPage.back': '← Volver a cuidadores',
+  'escalationPage.title': 'Escalado',
+  'escalationPage.description':
+    'Mientras nadie haya pulsado «Me encargo», Bobo recorre esta lista y avisa a cada persona cuando pasa su tiempo de espera desde la alerta. Sin una política, se avisa a todos los miembros en cuanto salta una alerta.',
+  'escalationPage.loginPrompt': 'para gestionar el escalado.',
+  'escalationPage.steps': 'Pasos',
+  'escalationPage.none': 'Este hogar no tiene política de escalado.',
+  'escalationPage.step': 'Paso {number}',
+  'escalationPage.after': 'a los',
+  'escalationPage.minutesNotify': 'min, avisar a',
+  'escalationPage.emergencyContact': 'Contacto de emergencia…',
+  'escalationPage.remove': 'Quitar',
+  'escalationPage.contactName': 'Nombre',
+  'escalationPage.contactEmail': 'Correo',
+  'escalationPage.contactPhone': 'Teléfono (visible para los cuidadores)',
+  'escalationPage.addStep': 'Añadir paso',
+  'escalationPage.save': 'Guardar política',
+  'escalationPage.ownersOnly': 'Solo los propietarios del hogar pueden cambiar la política de escalado.',
+  'escalationPage.saved': 'Política de escalado guardada.',
+  'escalationPage.turnedOff': 'Escalado desactivado.',
+  'escalationPage.loadFailed': 'No se pudo cargar la política de escalado',
+  'escalationPage.saveFailed': 'No se pudo guardar la política de escalado',
+
+  'security.title': 'Seguridad',
+  'security.description': 'Protege tu cuenta con un código de una aplicación de autenticación además de tu contraseña.',
+  'security.loginPrompt': 'para gestionar tu seguridad.',
+  'security.required':
+    'Un hogar al que perteneces exige verificación en dos pasos. Configura una aplicación de autenticación para continuar.',
+  'security.verifyToChange': 'Verifícate con tu aplicación de autenticación para cambiar estos ajustes.',
+  'security.verifyNow': 'Verificar ahora',
+  'security.authenticatorApp': 'Aplicación de autenticación',
+  'security.factorName': 'Autenticador {date}',
+  'security.added': 'Añadido el {date}',
+  'security.removing': 'Quitando…',
+  'security.remove': 'Quitar',
+  'security.confirmRemove': '¿Quitar este autenticador? Solo necesitarás tu contraseña para iniciar sesión.',
+  'security.off': 'La verificación en dos pasos está desactivada.',
+  'security.scan':
+    'Escanea este código con una aplicación de autenticación (como 1Password, Google Authenticator o Authy) y escribe el código de 6 dígitos que muestre.',
+  'security.qrAlt': 'Código QR para tu aplicación de autenticación',
+  'security.enterKey': '¿No puedes escanearlo? Escribe esta clave:',
+  'security.verifying': 'Verificando…',
+  'security.verifyAndEnable': 'Verificar y activar',
+  'security.starting': 'Iniciando…',
+  'security.addAnother': 'Añadir otro autenticador',
+  'security.setUp': 'Configurar aplicación de autenticación',
+  'security.recoveryCodes': 'Códigos de recuperación',
+  'security.recoveryCodesNote':
+    'Si pierdes tu dispositivo, un código de recuperación te permite iniciar sesión y configurar uno nuevo. Cada código sirve una sola vez.',
+  'security.codesRemaining': { one: 'Queda {count} código sin usar.', other: 'Quedan {count} códigos sin usar.' },
+  'security.saveCodes': 'Guarda estos códigos en un lugar seguro. No se volverán a mostrar.',
+  'security.download': 'Descargar',
+  'security.savedCodes': 'Ya los he guardado',
+  'security.generating': 'Generando…',
+  'security.generate': 'Generar códigos nuevos',
+  'security.password': 'Contraseña',
+  'security.changePassword': 'Cambiar contraseña →',
+  'security.continue': 'Continuar',
+  'security.loadFailed': 'No se pudo cargar la configuración de seguridad',
+  'security.startFailed': 'No se pudo iniciar la configuración',
+  'security.codeMismatch': 'El código no coincide. Prueba con el más reciente de tu aplicación.',
+  'security.removeFailed': 'No se pudo quitar el autenticador',
+  'security.generateFailed': 'No se pudieron generar los códigos de recuperación',
+
+  'mfa.title': 'Verificación en dos pasos',
+  'mfa.enterCode': 'Escribe el código de 6 dígitos de tu aplicación de autenticación.',
+  'mfa.enterRecoveryCode':
+    'Escribe uno de los códigos de recuperación que guardaste al activar la verificación en dos pasos. Así se quita tu autenticador actual para que puedas configurar uno nuevo.',
+  'mfa.authenticatorApp': 'Aplicación de autenticación',
+  'mfa.verifying': 'Verificando…',
+  'mfa.verify': 'Verificar',
+  'mfa.useRecoveryCode': '¿Has perdido tu dispositivo? Usa un código de recuperación',
+  'mfa.useAuthenticator': 'Usa tu aplicación de autenticación',
+  'mfa.noFactor': 'Esta cuenta no tiene ninguna aplicación de autenticación configurada.',
+  'mfa.loadFailed': 'No se pudieron cargar tus autenticadores',
+  'mfa.failed': 'No se pudo verificar',
+
+  'auth.email': 'Correo',
+  'auth.password': 'Contraseña',
+  'auth.confirmPassword': 'Confirmar contraseña',
+  'auth.passwordTooShort': 'Usa al menos {count} caracteres para tu contraseña.',
+  'auth.passwordMismatch': 'Las contraseñas no coinciden.',
+  'auth.signedInAs': 'Sesión iniciada como',
+  'auth.createAccount': 'Crear una cuenta',
+  'auth.backToLogin': 'Volver a iniciar sesión',
+  'auth.linkInvalid': 'Este enlace no es válido o ha caducado.',
+
+  'login.title': 'Iniciar sesión',
+  'login.emailLink': 'Enviarme un enlace',
+  'login.resendConfirmation': 'Reenviar correo de confirmación',
+  'login.signIn': 'Entrar',
+  'login.sendLink': 'Enviar enlace',
+  'login.forgotPassword': '¿Has olvidado tu contraseña?',
+  'login.newToBobo': '¿Nuevo en Bobo?',
+  'login.linkSent': 'Te enviamos un enlace de acceso a {email}. Ábrelo en este dispositivo para continuar.',
+  'login.confirmationSent': 'Te enviamos un nuevo enlace de confirmación a {email}.',
+  'login.failed': 'No se pudo iniciar sesión',
+
+  'oauth.or': 'o',
+  'oauth.redirecting': 'Redirigiendo…',
+  'oauth.continueWith': 'Continuar con {provider}',
+
+  'signup.name': 'Tu nombre',
+  'signup.creating': 'Creando…',
+  'signup.submit': 'Crear cuenta',
+  'signup.haveAccount': '¿Ya tienes una cuenta?',
+  'signup.logIn': 'Inicia sesión',
+  'signup.checkEmail': 'Revisa tu correo',
+  'signup.confirmationSent': 'Te enviamos un enlace de confirmación a {email}. Ábrelo para terminar de crear tu cuenta.',
+  'signup.failed': 'No se pudo crear la cuenta',
+
+  'forgotPassword.title': 'Restablecer la contraseña',
+  'forgotPassword.description': 'Escribe tu correo y te enviaremos un enlace para elegir una contraseña nueva.',
+  'forgotPassword.sending': 'Enviando…',
+  'forgotPassword.submit': 'Enviar enlace',
+  'forgotPassword.sent': 'Si existe una cuenta para {email}, le enviamos un enlace para elegir una contraseña nueva.',
+  'forgotPassword.failed': 'No se pudo enviar el correo de restablecimiento',
+
+  'resetPassword.title': 'Elige una contraseña nueva',
+  'resetPassword.openLink':
+    'Abre el enlace de restablecimiento de tu correo para elegir una contraseña nueva. Los enlaces caducan al cabo de un tiempo, así que puede que necesites pedir otro.',
+  'resetPassword.requestLink': 'Pedir un enlace nuevo',
+  'resetPassword.newPassword': 'Contraseña nueva',
+  'resetPassword.confirmPassword': 'Confirmar contraseña nueva',
+  'resetPassword.submit': 'Guardar contraseña',
+  'resetPassword.failed': 'No se pudo cambiar la contraseña',
+
+  'callback.signingIn': 'Iniciando sesión…',
+  'callback.failed': 'No se pudo iniciar sesión',
+  'callback.resetPassword': 'Restablecer contraseña',
+
+  'invite.title': 'Te han invitado',
+  'invite.description': 'Únete a este hogar en Bobo para ver y atender sus alertas.',
+  'invite.joining': 'Uniéndote…',
+  'invite.accept': 'Aceptar invitación',
+  'invite.signIn': 'Inicia sesión para aceptar',
+  'invite.failed': 'No se pudo aceptar la invitación',
+
+  'demo.banner': 'Modo demo: las alertas, las imágenes y el estado del robot son simulados.',
+  'demo.simulateFall': 'Simular una caída',
+};
+
+// Database values, keyed like 'eventType.fall'. The English labels live with
+// each value's definition in lib/eventTypes.ts, lib/alerts.ts, lib/commands.ts,
+// lib/checkIns.ts and lib/households.ts.
+export const esLabels: Record<string, string> = {
+  'eventType.fall': 'Caída detectada',
+  'eventType.fall_detected': 'Caída detectada',
+  'eventType.help_request': 'Pidió ayuda',
+  'eventType.check_in_help': 'Pidió ayuda en un control',
+  'eventType.no_motion': 'Sin movimiento',
+  'eventType.check_in_missed': 'Control no respondido',
+  'eventType.robot_offline': 'Robot sin conexión',
+  'eventType.battery_low': 'Batería baja',
+
+  'status.new': 'Nueva',
+  'status.acknowledged': 'En curso',
+  'status.resolved': 'Resuelta',
+  'status.false_alarm': 'Falsa alarma',
+
+  'outcome.false_alarm': 'Falsa alarma',
+  'outcome.no_injury': 'Sin lesiones',
+  'outcome.minor_injury': 'Lesión leve',
+  'outcome.medical_attention': 'Atención médica',
+  'outcome.hospital': 'Hospital',
+
+  'severity.critical': 'Crítica',
+  'severity.high': 'Alta',
+  'severity.medium': 'Media',
+  'severity.low': 'Baja',
+
+  'commandStatus.queued': 'En cola',
+  'commandStatus.delivered': 'Entregado',
+  'commandStatus.done': 'Hecho',
+  'commandStatus.failed': 'Falló',
+
+  'checkInResponse.ok': 'Dijo que está bien',
+  'checkInResponse.needs_help': 'Pidió ayuda',
+  'checkInResponse.no_response': 'Sin respuesta',
+
+  'checkInKind.check_in': 'Control',
+  'checkInKind.reminder': 'Recordatorio',
+
+  'role.owner': 'Propietario',
+  'role.caregiver': 'Cuidador',
+  'role.viewer': 'Observador',
+};
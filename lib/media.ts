@@ -0,0 +1,174 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+
+export const mediaBucket = 'falls';
+
+// Footage is private; URLs are signed per item and refreshed before expiry.
+export const signedUrlTtlSeconds = 10 * 60;
+export const signedUrlRefreshMarginMs = 60 * 1000;
+
+export type EventMediaItem = Pick<
+  Tables<'event_media'>,
+  'id' | 'path' | 'mime_type' | 'duration_ms' | 'poster_path' | 'camera' | 'captured_at' | 'detected_offset_ms'
+>;
+export type MediaKind = 'image' | 'video';
+export type ResolvedMedia = EventMediaItem & {
+  kind: MediaKind;
+  url: string;
+  posterUrl: string | null;
+};
+export type MediaThumbnail = { url: string; kind: MediaKind; count: number; expiresAt: number };
+export type EventMediaState =
+  | { status: 'ready'; items: ResolvedMedia[]; expiresAt: number }
+  | { status: 'error'; message: string };
+
+export function mediaKind(mimeType: string): MediaKind {
+  return mimeType.toLowerCase().startsWith('image/') ? 'image' : 'video';
+}
+
+export function needsRefresh(state: EventMediaState | undefined, now = Date.now()): boolean {
+  return state?.status === 'ready' && state.items.length > 0 && state.expiresAt - signedUrlRefreshMarginMs <= now;
+}
+
+// Whether an event's thumbnail should be signed, given when the last one
+// expires (undefined if it was never signed)
+export function thumbnailNeedsSigning(expiresAt: number | undefined, now = Date.now()): boolean {
+  return expiresAt === undefined || expiresAt - signedUrlRefreshMarginMs <= now;
+}
+
+// Orders an event's manifest by capture time and signs a short-lived URL for
+// every clip and poster frame in a single storage request.
+export async function signEventMedia(
+  supabase: SupabaseClient<Database>,
+  items: EventMediaItem[]
+): Promise<EventMediaState> {
+  const expiresAt = Date.now() + signedUrlTtlSeconds * 1000;
+  if (items.length === 0) return { status: 'ready', items: [], expiresAt };
+
+  const paths = Array.from(
+    new Set(items.flatMap(item => (item.poster_path ? [item.path, item.poster_path] : [item.path])))
+  );
+  const { data, error } = await supabase.storage.from(mediaBucket).createSignedUrls(paths, signedUrlTtlSeconds);
+  if (error) return { status: 'error', message: error.message };
+
+  const urlByPath = new Map<string, string>();
+  (data ?? []).forEach(entry => {
+    if (!entry.error && entry.path && entry.signedUrl) urlByPath.set(entry.path, entry.signedUrl);
+  });
+
+  const resolved = [...items]
+    .sort((a, b) => new Date(a.captured_at).getTime() - new Date(b.captured_at).getTime())
+    .flatMap(item => {
+      const url = urlByPath.get(item.path);
+      if (!url) return [];
+      return [
+        {
+          ...item,
+          kind: mediaKind(item.mime_type),
+          url,
+          posterUrl: item.poster_path ? urlByPath.get(item.poster_path) ?? null : null,
+        },
+      ];
+    });
+
+  // Storage reports a per-path error for objects the caller can't read
+  if (resolved.length === 0) {
+    return { status: 'error', message: "You don't have access to this footage." };
+  }
+  return { status: 'ready', items: resolved, expiresAt };
+}
+
+// The first capture's poster frame (or the snapshot itself) stands in for the
+// whole event in collapsed lists.
+function thumbnailSource(items: EventMediaItem[]): { path: string; kind: MediaKind } | null {
+  const first = [...items].sort((a, b) => new Date(a.captured_at).getTime() - new Date(b.captured_at).getTime())[0];
+  if (!first) return null;
+  const kind = mediaKind(first.mime_type);
+  if (kind === 'image') return { path: first.path, kind };
+  return first.poster_path ? { path: first.poster_path, kind } : null;
+}
+
+// Signs one thumbnail per event in a single request, keyed by event id. Lists
+// re-sign them before `expiresAt`, since rows remount as they are filtered or
+// paged and the browser may reload an image it has evicted.
+export async function signThumbnails(
+  supabase: SupabaseClient<Database>,
+  events: { id: number; media: EventMediaItem[] }[]
+): Promise<Record<string, MediaThumbnail>> {
+  const sources = events.flatMap(event => {
+    const source = thumbnailSource(event.media);
+    return source ? [{ key: String(event.id), count: event.media.length, ...source }] : [];
+  });
+  if (sources.length === 0) return {};
+
+  const expiresAt = Date.now() + signedUrlTtlSeconds * 1000;
+  const paths = Array.from(new Set(sources.map(source => source.path)));
+  const { data, error } = await supabase.storage.from(mediaBucket).createSignedUrls(paths, signedUrlTtlSeconds);
+  if (error) throw error;
+
+  const urlByPath = new Map<string, string>();
+  (data ?? []).forEach(entry => {
+    if (!entry.error && entry.path && entry.signedUrl) urlByPath.set(entry.path, entry.signedUrl);
+  });
+  const thumbnails: Record<string, MediaThumbnail> = {};
+  sources.forEach(source => {
+    const url = urlByPath.get(source.path);
+    if (url) thumbnails[source.key] = { url, kind: source.kind, count: source.count, expiresAt };
+  });
+  return thumbnails;
+}
+
+// Storage signs this many paths per request when there are a lot of them
+const signBatchSize = 500;
+
+// Up to `perEvent` frames for each event (poster frames for clips, the image
+// itself for snapshots), keyed by event id. Paths are signed in batches so a
+// report of thousands of alerts makes a handful of requests, not one per alert.
+export async function signEventFrames(
+  supabase: SupabaseClient<Database>,
+  events: { id: number; media: EventMediaItem[] }[],
+  perEvent: number
+): Promise<Record<string, string[]>> {
+  const pathsByEvent = events.map(event => ({
+    key: String(event.id),
+    paths: [...event.media]
+      .sort((a, b) => new Date(a.captured_at).getTime() - new Date(b.captured_at).getTime())
+      .flatMap(item => (mediaKind(item.mime_type) === 'image' ? [item.path] : item.poster_path ? [item.poster_path] : []))
+      .slice(0, perEvent),
+  }));
+  const paths = Array.from(new Set(pathsByEvent.flatMap(event => event.paths)));
+
+  const urlByPath = new Map<string, string>();
+  for (let start = 0; start < paths.length; start += signBatchSize) {
+    const { data, error } = await supabase.storage
+      .from(mediaBucket)
+      .createSignedUrls(paths.slice(start, start + signBatchSize), signedUrlTtlSeconds);
+    if (error) throw error;
+    (data ?? []).forEach(entry => {
+      if (!entry.error && entry.path && entry.signedUrl) urlByPath.set(entry.path, entry.signedUrl);
+    });
+  }
+
+  const frames: Record<string, string[]> = {};
+  pathsByEvent.forEach(({ key, paths: eventPaths }) => {
+    frames[key] = eventPaths.flatMap(path => urlByPath.get(path) ?? []);
+  });
+  return frames;
+}
+
+// Milliseconds into the clip where the event was detected, if it falls inside it
+export function detectedOffsetMs(item: ResolvedMedia, detectedAt: string | null | undefined): number | null {
+  if (item.detected_offset_ms !== null) return item.detected_offset_ms;
+  if (!detectedAt || !item.duration_ms) return null;
+  const offset = new Date(detectedAt).getTime() - new Date(item.captured_at).getTime();
+  return offset >= 0 && offset <= item.duration_ms ? offset : null;
+}
+
+// Storage serves signed URLs as attachments when asked to, so the browser
+// saves the file instead of opening it.
+export function downloadUrl(item: ResolvedMedia, eventId: string | number): string {
+  const extension = item.path.includes('.') ? item.path.slice(item.path.lastIndexOf('.')) : '';
+  const camera = item.camera ? `-${item.camera}` : '';
+  const fileName = `bobo-event-${eventId}${camera}-${item.captured_at.slice(0, 19).replace(/[:T]/g, '-')}${extension}`;
+  return `${item.url}${item.url.includes('?') ? '&' : '?'}download=${encodeURIComponent(fileName)}`;
+}
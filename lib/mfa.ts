@@ -0,0 +1,88 @@
+import type { AuthenticatorAssuranceLevels, Factor, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { invokeFunction } from '@/lib/functions';
+
+export type AssuranceLevel = AuthenticatorAssuranceLevels;
+
+// `current` is what the session has proven; `next` is what it could reach.
+// A user with a verified factor who has only entered a password is at
+// aal1 -> aal2 and should be challenged.
+export type Assurance = { current: AssuranceLevel | null; next: AssuranceLevel | null };
+
+export type TotpEnrollment = { factorId: string; qrCode: string; secret: string };
+
+export function needsChallenge(assurance: Assurance | null): boolean {
+  return !!assurance && assurance.next === 'aal2' && assurance.current !== 'aal2';
+}
+
+// Decoded from the session locally, so this is cheap to call on every change
+export async function getAssurance(supabase: SupabaseClient<Database>): Promise<Assurance> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  return { current: data.currentLevel, next: data.nextLevel };
+}
+
+export async function listTotpFactors(supabase: SupabaseClient<Database>): Promise<Factor[]> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+  return data.totp;
+}
+
+// Abandoned enrollments leave unverified factors behind; clear them first so
+// the new one doesn't clash with their friendly name.
+export async function startTotpEnrollment(
+  supabase: SupabaseClient<Database>,
+  friendlyName: string
+): Promise<TotpEnrollment> {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw listError;
+  for (const factor of factors.all) {
+    if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName });
+  if (error) throw error;
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+}
+
+// Used both to finish enrollment and to pass the challenge after login; either
+// way the session is upgraded to aal2.
+export async function verifyTotp(supabase: SupabaseClient<Database>, factorId: string, code: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') });
+  if (error) throw error;
+}
+
+export async function removeTotpFactor(supabase: SupabaseClient<Database>, factorId: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw error;
+  // Pick up the lowered assurance level straight away
+  await supabase.auth.refreshSession();
+}
+
+export async function isMfaRequired(supabase: SupabaseClient<Database>): Promise<boolean> {
+  const { data, error } = await supabase.rpc('mfa_required');
+  if (error) throw error;
+  return data ?? false;
+}
+
+export async function countRecoveryCodes(supabase: SupabaseClient<Database>): Promise<number> {
+  const { data, error } = await supabase.rpc('mfa_recovery_codes_remaining');
+  if (error) throw error;
+  return data ?? 0;
+}
+
+// Replaces any earlier codes. The plain codes are only available from this call.
+export async function generateRecoveryCodes(supabase: SupabaseClient<Database>): Promise<string[]> {
+  const { codes } = await invokeFunction<{ codes: string[] }>(supabase, 'mfa-recovery-codes', {});
+  return codes;
+}
+
+// Spends a recovery code to remove the user's factors, then refreshes the
+// session so it no longer expects a second factor.
+export async function recoverWithCode(supabase: SupabaseClient<Database>, code: string): Promise<void> {
+  await invokeFunction(supabase, 'mfa-recover', { code });
+  const { error } = await supabase.auth.refreshSession();
+  if (error) throw error;
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+
+export const serviceWorkerPath = '/sw.js';
+
+export type PushState = 'unsupported' | 'denied' | 'off' | 'on';
+
+export function pushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  );
+}
+
+// VAPID keys are distributed as URL-safe base64; PushManager wants raw bytes.
+function decodeVapidKey(key: string): Uint8Array<ArrayBuffer> {
+  const padded = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  return navigator.serviceWorker.register(serviceWorkerPath);
+}
+
+export async function getPushState(): Promise<PushState> {
+  if (!pushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+  const registration = await registerServiceWorker();
+  const subscription = await registration.pushManager.getSubscription();
+  return subscription && Notification.permission === 'granted' ? 'on' : 'off';
+}
+
+// Subscribes this browser and stores the subscription for the signed-in user.
+export async function enablePushNotifications(supabase: SupabaseClient<Database>): Promise<PushState> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return permission === 'denied' ? 'denied' : 'off';
+
+  const registration = await registerServiceWorker();
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeVapidKey(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) throw new Error('The browser returned an incomplete push subscription');
+
+  // Goes through an RPC rather than an upsert: the endpoint may still be
+  // stored for whoever used this browser before, and RLS hides that row.
+  const { error } = await supabase.rpc('save_push_subscription', {
+    endpoint,
+    p256dh: keys.p256dh,
+    auth: keys.auth,
+    user_agent: navigator.userAgent,
+  });
+  if (error) throw error;
+  return 'on';
+}
+
+export async function disablePushNotifications(supabase: SupabaseClient<Database>): Promise<PushState> {
+  const registration = await registerServiceWorker();
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return 'off';
+
+  const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+  await subscription.unsubscribe();
+  return 'off';
+}
+
+// Called before signing out, while the row can still be deleted, so the next
+// person on this browser doesn't get the previous user's alerts.
+export async function forgetPushSubscription(supabase: SupabaseClient<Database>): Promise<void> {
+  if (!pushSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration(serviceWorkerPath);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  await subscription.unsubscribe();
+}
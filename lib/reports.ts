@@ -0,0 +1,105 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import {
+  actorName,
+  alertOutcomeLabel,
+  alertStatusLabel,
+  formatEventType,
+  searchAlertHistory,
+  sortTransitions,
+  type AlertHistoryCursor,
+  type AlertHistoryFilters,
+  type AlertTransition,
+  type AlertWithEvent,
+} from '@/lib/alerts';
+
+// Reports page through the same history query as /history. The cap keeps a
+// runaway export from pulling years of footage metadata into the browser.
+export const maxReportAlerts = 2000;
+const reportPageSize = 200;
+
+export async function loadReportAlerts(
+  supabase: SupabaseClient<Database>,
+  filters: AlertHistoryFilters
+): Promise<{ alerts: AlertWithEvent[]; truncated: boolean }> {
+  const alerts: AlertWithEvent[] = [];
+  let cursor: AlertHistoryCursor | null = null;
+  do {
+    const page = await searchAlertHistory(supabase, filters, { cursor, limit: reportPageSize });
+    alerts.push(...page.alerts);
+    cursor = page.nextCursor;
+  } while (cursor && alerts.length < maxReportAlerts);
+
+  return { alerts: alerts.slice(0, maxReportAlerts), truncated: !!cursor || alerts.length > maxReportAlerts };
+}
+
+export function firstTransitionTo(alert: AlertWithEvent, statuses: string[]): AlertTransition | null {
+  return sortTransitions(alert.transitions).find(t => statuses.includes(t.to_status)) ?? null;
+}
+
+export function reportFileName(filters: AlertHistoryFilters, residentName: string | null, extension: string): string {
+  const parts = ['bobo-incidents', residentName, filters.from, filters.to && `to-${filters.to}`]
+    .filter(Boolean)
+    .map(part => String(part).toLowerCase().replace(/[^a-z0-9-]+/g, '-'));
+  return `${parts.join('-')}.${extension}`;
+}
+
+// Spreadsheets run a cell starting with one of these as a formula, so notes and
+// names that do are kept as text with a leading apostrophe.
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | null | undefined): string {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && formulaPrefix.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Timestamps are ISO 8601 (UTC) so spreadsheets and other tools read them unambiguously.
+export function alertsToCsv(alerts: AlertWithEvent[], residentNameById: Map<string, string>): string {
+  const header = [
+    'alert_id',
+    'resident',
+    'event_type',
+    'raised_at',
+    'acknowledged_at',
+    'acknowledged_by',
+    'closed_at',
+    'closed_by',
+    'status',
+    'outcome',
+    'notes',
+    'attachments',
+  ];
+  const rows = alerts.map(alert => {
+    const claim = firstTransitionTo(alert, ['acknowledged']);
+    const close = firstTransitionTo(alert, ['resolved', 'false_alarm']);
+    return [
+      alert.id,
+      alert.resident_id ? residentNameById.get(alert.resident_id) ?? '' : '',
+      formatEventType(alert.event?.type),
+      alert.created_at,
+      claim?.created_at,
+      claim ? actorName(claim) : '',
+      close?.created_at,
+      close ? actorName(close) : '',
+      alertStatusLabel(alert.status),
+      alertOutcomeLabel(alert.outcome),
+      alert.resolution_notes,
+      alert.attachments.map(a => a.file_name).join('; '),
+    ];
+  });
+
+  // Excel needs the byte order mark to read UTF-8 names and notes correctly
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
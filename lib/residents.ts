@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+import { signedUrlTtlSeconds } from '@/lib/media';
+
+export const residentPhotosBucket = 'resident-photos';
+
+export type HouseholdRow = Tables<'households'>;
+export type RobotRow = Pick<Tables<'robots'>, 'id' | 'name' | 'resident_id'>;
+export type Resident = Pick<
+  Tables<'residents'>,
+  'id' | 'household_id' | 'name' | 'photo_path' | 'address' | 'time_zone'
+> & {
+  household: Pick<HouseholdRow, 'id' | 'name'> | null;
+  robots: RobotRow[];
+};
+
+const residentColumns =
+  'id, household_id, name, photo_path, address, time_zone, household:households(id, name), robots(id, name, resident_id)';
+
+// Residents in every household the signed-in user can see (row level security
+// does the scoping).
+export async function listResidents(supabase: SupabaseClient<Database>): Promise<Resident[]> {
+  const { data, error } = await supabase
+    .from('residents')
+    .select(residentColumns)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Owners only; row level security rejects everyone else
+export async function updateResident(
+  supabase: SupabaseClient<Database>,
+  residentId: string,
+  changes: Partial<Pick<Resident, 'name' | 'address' | 'time_zone'>>
+): Promise<Resident> {
+  const { data, error } = await supabase
+    .from('residents')
+    .update(changes)
+    .eq('id', residentId)
+    .select(residentColumns)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function signResidentPhotos(
+  supabase: SupabaseClient<Database>,
+  residents: Pick<Resident, 'id' | 'photo_path'>[]
+): Promise<Record<string, string>> {
+  const withPhotos = residents.filter(r => r.photo_path);
+  if (withPhotos.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(residentPhotosBucket)
+    .createSignedUrls(
+      withPhotos.map(r => r.photo_path!),
+      signedUrlTtlSeconds
+    );
+  if (error) throw error;
+
+  const urlByPath = new Map((data ?? []).map(entry => [entry.path, entry.signedUrl]));
+  const photoUrlById: Record<string, string> = {};
+  withPhotos.forEach(r => {
+    const url = urlByPath.get(r.photo_path!);
+    if (url) photoUrlById[r.id] = url;
+  });
+  return photoUrlById;
+}
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+import { defaultLocale, translate, translator, type Locale, type MessageKey } from '@/lib/i18n';
+import { formatInTimeZone } from '@/lib/time';
+
+export type RobotStatus = Pick<
+  Tables<'robots'>,
+  | 'id'
+  | 'household_id'
+  | 'resident_id'
+  | 'name'
+  | 'last_seen_at'
+  | 'offline_since'
+  | 'battery_percent'
+  | 'charging'
+  | 'wifi_rssi'
+  | 'current_room'
+  | 'firmware_version'
+>;
+
+export type RobotConnection = 'online' | 'offline' | 'never';
+
+const robotStatusColumns =
+  'id, household_id, resident_id, name, last_seen_at, offline_since, battery_percent, charging, wifi_rssi, current_room, firmware_version';
+
+// Heartbeats arrive every 30 seconds. These match the thresholds in
+// 20261019250000_robot_heartbeats.sql, which raise the actual alerts.
+export const robotOfflineAfterMs = 2 * 60 * 1000;
+export const lowBatteryPercent = 20;
+
+export async function listRobots(supabase: SupabaseClient<Database>): Promise<RobotStatus[]> {
+  const { data, error } = await supabase
+    .from('robots')
+    .select(robotStatusColumns)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// The server marks robots offline once a minute; checking last_seen_at here as
+// well means the dashboard doesn't lag behind by up to a minute.
+export function robotConnection(robot: RobotStatus, now: number): RobotConnection {
+  if (!robot.last_seen_at) return 'never';
+  if (robot.offline_since) return 'offline';
+  return now - new Date(robot.last_seen_at).getTime() > robotOfflineAfterMs ? 'offline' : 'online';
+}
+
+export function isBatteryLow(robot: RobotStatus): boolean {
+  return robot.battery_percent !== null && robot.battery_percent <= lowBatteryPercent && !robot.charging;
+}
+
+// 0-4 bars from RSSI in dBm
+export function wifiBars(rssi: number | null): number {
+  if (rssi === null) return 0;
+  if (rssi >= -55) return 4;
+  if (rssi >= -67) return 3;
+  if (rssi >= -75) return 2;
+  if (rssi >= -85) return 1;
+  return 0;
+}
+
+const wifiMessages: MessageKey[] = ['wifi.none', 'wifi.weak', 'wifi.fair', 'wifi.good', 'wifi.excellent'];
+
+export function wifiLabel(rssi: number | null, locale: Locale = defaultLocale): string {
+  return translate(locale, wifiMessages[wifiBars(rssi)]);
+}
+
+// When the robot went quiet: offline_since once the server has noticed,
+// otherwise the last heartbeat.
+export function offlineSince(robot: RobotStatus): Date | null {
+  const since = robot.offline_since ?? robot.last_seen_at;
+  return since ? new Date(since) : null;
+}
+
+// In the resident's time zone, with the date only once it's no longer today there
+export function formatSince(date: Date, now: number, locale: Locale = defaultLocale, timeZone: string | null = null): string {
+  const time = formatInTimeZone(date, { locale, timeZone, style: 'time' });
+  const day = (value: Date) => formatInTimeZone(value, { locale, timeZone, style: 'day' });
+  return day(new Date(now)) === day(date) ? time : `${day(date)}, ${time}`;
+}
+
+export type RobotsHealth = { tone: 'online' | 'warning' | 'offline' | 'unknown'; label: string };
+
+// One line for the header: offline beats low battery beats online, so a
+// silent robot is never shown as active.
+export function robotsHealth(
+  robots: RobotStatus[],
+  now: number,
+  locale: Locale = defaultLocale,
+  timeZoneFor: (robot: RobotStatus) => string | null = () => null
+): RobotsHealth {
+  const connected = robots.filter(r => robotConnection(r, now) !== 'never');
+  const offline = connected.filter(r => robotConnection(r, now) === 'offline');
+  const lowBattery = connected.filter(r => robotConnection(r, now) === 'online' && isBatteryLow(r));
+
+  const t = translator(locale);
+
+  if (offline.length === 1) {
+    const since = offlineSince(offline[0]);
+    return {
+      tone: 'offline',
+      label: since
+        ? t('robot.offlineSince', { time: formatSince(since, now, locale, timeZoneFor(offline[0])) })
+        : t('robot.offline'),
+    };
+  }
+  if (offline.length > 1) return { tone: 'offline', label: t('robot.manyOffline', { count: offline.length }) };
+  if (lowBattery.length === 1) {
+    return { tone: 'warning', label: t('robot.batteryLow', { percent: lowBattery[0].battery_percent ?? 0 }) };
+  }
+  if (lowBattery.length > 1) return { tone: 'warning', label: t('robot.manyBatteriesLow', { count: lowBattery.length }) };
+  if (connected.length > 0) return { tone: 'online', label: t('robot.online') };
+  return { tone: 'unknown', label: robots.length === 0 ? t('robot.none') : t('robot.notConnected') };
+}
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/database.types';
+import { eventTypes, severityRank, type Severity } from '@/lib/eventTypes';
+
+export type UserSettings = Pick<
+  Tables<'user_settings'>,
+  | 'push_enabled'
+  | 'email_enabled'
+  | 'quiet_hours_start'
+  | 'quiet_hours_end'
+  | 'time_zone'
+  | 'muted_event_types'
+  | 'locale'
+>;
+export type Profile = Pick<Tables<'profiles'>, 'id' | 'email' | 'display_name'>;
+// Registered types that share a label (fall and fall_detected) are muted together
+export type AlertTypeOption = { label: string; types: string[]; severity: Severity };
+
+// Matches the column defaults in 20261019300000_user_settings.sql and
+// 20261019310000_user_locale.sql, for users who have never saved their settings.
+export const defaultUserSettings: UserSettings = {
+  push_enabled: true,
+  email_enabled: false,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  time_zone: 'UTC',
+  muted_event_types: [],
+  locale: null,
+};
+
+const settingsColumns =
+  'push_enabled, email_enabled, quiet_hours_start, quiet_hours_end, time_zone, muted_event_types, locale';
+
+export const alertTypeOptions: AlertTypeOption[] = Object.values(
+  Object.values(eventTypes).reduce<Record<string, AlertTypeOption>>((options, info) => {
+    const option = (options[info.label] ??= { label: info.label, types: [], severity: info.severity });
+    option.types.push(info.type);
+    return options;
+  }, {})
+).sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+
+export async function getUserSettings(supabase: SupabaseClient<Database>, userId: string): Promise<UserSettings> {
+  const { data, error } = await supabase.from('user_settings').select(settingsColumns).eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data ?? defaultUserSettings;
+}
+
+// Creates the row on first save; only the given columns are written
+export async function saveUserSettings(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  changes: Partial<UserSettings>
+): Promise<UserSettings> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .upsert({ user_id: userId, ...changes }, { onConflict: 'user_id' })
+    .select(settingsColumns)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getProfile(supabase: SupabaseClient<Database>, userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase.from('profiles').select('id, email, display_name').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDisplayName(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  displayName: string
+): Promise<Profile> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ display_name: displayName.trim() || null })
+    .eq('id', userId)
+    .select('id, email, display_name')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export function isEventTypeMuted(settings: Pick<UserSettings, 'muted_event_types'>, type: string | null | undefined): boolean {
+  return !!type && settings.muted_event_types.includes(type);
+}
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
@@ -1,12 +1,17 @@
 'use client';
 
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { isDemoMode } from '@/lib/demo';
 
-let browserClient: SupabaseClient | null = null;
+let browserClient: SupabaseClient<Database> | null = null;
 
-export function getBrowserSupabaseClient(): SupabaseClient {
+export function getBrowserSupabaseClient(): SupabaseClient<Database> {
   if (browserClient) return browserClient;
 
+  if (isDemoMode()) throw new Error('The demo backend has not loaded yet.');
+
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
@@ -16,15 +21,20 @@ export function getBrowserSupabaseClient(): SupabaseClient {
     );
   }
 
-  browserClient = createClient(supabaseUrl, supabaseAnonKey, {
-    auth: {
-      persistSession: true,
-      autoRefreshToken: true,
-      detectSessionInUrl: true,
-    },
-  });
+  // Sessions live in cookies rather than localStorage so the middleware and
+  // server components can read them. The SSR client always persists and
+  // refreshes the session, and picks up PKCE codes from auth redirect URLs.
+  browserClient = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey);
 
   return browserClient;
 }
 
-
+// Imported on demand so the demo backend stays out of production bundles.
+// DemoBackend waits for this before rendering anything that needs a client.
+export async function loadDemoClient(): Promise<void> {
+  if (browserClient) return;
+  const { createDemoClient } = await import('@/lib/demoClient');
+  // The demo client only implements the calls the app makes, so it can't
+  // satisfy the full client type; this is the one place it stands in for it.
+  browserClient ??= createDemoClient() as unknown as SupabaseClient<Database>;
+}
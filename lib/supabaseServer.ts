@@ -0,0 +1,49 @@
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { demoUser, isDemoMode } from '@/lib/demo';
+
+// Server components read the session from the auth cookies that the browser
+// client and middleware keep up to date. In demo mode the data only exists in
+// the browser, so pages leave loading to the client.
+export async function getServerSupabaseClient(): Promise<SupabaseClient<Database>> {
+  if (isDemoMode()) throw new Error('The demo backend only runs in the browser.');
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error(
+      'Missing Supabase env vars. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.'
+    );
+  }
+
+  const cookieStore = await cookies();
+
+  return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        // Server components can't set cookies; the middleware refreshes the
+        // session before rendering, so there is nothing to persist here.
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+        } catch {}
+      },
+    },
+  });
+}
+
+// Verified with the auth server rather than trusted from the cookie. Cached so
+// the layout and page share one lookup per request.
+export const getServerUser = cache(async (): Promise<User | null> => {
+  if (isDemoMode()) return demoUser;
+  const supabase = await getServerSupabaseClient();
+  const { data, error } = await supabase.auth.getUser();
+  if (error) return null;
+  return data.user;
+});
@@ -0,0 +1,68 @@
+import type { Locale } from '@/lib/i18n';
+
+export type TimestampStyle = 'datetime' | 'time' | 'date' | 'day';
+
+const styleOptions: Record<TimestampStyle, Intl.DateTimeFormatOptions> = {
+  datetime: { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' },
+  time: { hour: 'numeric', minute: '2-digit' },
+  date: { month: 'short', day: 'numeric', year: 'numeric' },
+  day: { month: 'short', day: 'numeric' },
+};
+
+// Past this, a relative time ("3 days ago") is less useful than the date
+const relativeCutoffMs = 7 * 24 * 60 * 60 * 1000;
+
+// Falls back to the viewer's zone when the resident's isn't a zone this
+// browser knows (or there is no resident)
+export function formatInTimeZone(
+  value: string | Date,
+  { locale, timeZone, style = 'datetime', showZone = true }: {
+    locale: Locale;
+    timeZone?: string | null;
+    style?: TimestampStyle;
+    showZone?: boolean;
+  }
+): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const options: Intl.DateTimeFormatOptions = {
+    ...styleOptions[style],
+    ...(showZone && timeZone && style !== 'date' && style !== 'day' ? { timeZoneName: 'short' } : {}),
+  };
+  try {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: timeZone ?? undefined }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat(locale, styleOptions[style]).format(date);
+  }
+}
+
+// A date with no time of day, like "2026-10-19" from a date input or a
+// Postgres date column, shown as that same calendar day everywhere
+export function formatCalendarDate(value: string, locale: Locale): string {
+  return new Intl.DateTimeFormat(locale, { ...styleOptions.date, timeZone: 'UTC' }).format(new Date(`${value}T00:00:00Z`));
+}
+
+// Short weekday name for a Postgres day-of-week number (0 is Sunday)
+export function formatWeekday(day: number, locale: Locale): string {
+  return new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' }).format(Date.UTC(2000, 0, 2 + day));
+}
+
+// The viewer's own wall-clock time, for hover text
+export function formatLocalTime(value: string | Date, locale: Locale): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return new Intl.DateTimeFormat(locale, { ...styleOptions.datetime, second: '2-digit', timeZoneName: 'short' }).format(date);
+}
+
+// "4 min ago", "yesterday"; null once it's more than a week away
+export function formatRelative(value: string | Date, now: number, locale: Locale): string | null {
+  const diffMs = (typeof value === 'string' ? new Date(value) : value).getTime() - now;
+  if (Math.abs(diffMs) >= relativeCutoffMs) return null;
+
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'short' });
+  const seconds = Math.round(diffMs / 1000);
+  if (Math.abs(seconds) < 45) return format.format(0, 'second');
+  const minutes = Math.round(seconds / 60);
+  if (Math.abs(minutes) < 60) return format.format(minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (Math.abs(hours) < 24) return format.format(hours, 'hour');
+  return format.format(Math.round(hours / 24), 'day');
+}
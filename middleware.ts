@@ -0,0 +1,94 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import type { Database } from '@/lib/database.types';
+import { isDemoMode } from '@/lib/demo';
+import { isPublicPath, mfaChallengePath, mfaEnrollPath, safeNextPath, signedOutOnlyPaths } from '@/lib/auth';
+
+// Refreshes the Supabase session cookies on every page request and keeps
+// logged-out visitors off protected pages.
+export async function middleware(request: NextRequest) {
+  // The demo user is always signed in, so there is no session to refresh
+  if (isDemoMode()) {
+    if (!signedOutOnlyPaths.includes(request.nextUrl.pathname)) return NextResponse.next({ request });
+    return NextResponse.redirect(new URL(safeNextPath(request.nextUrl.searchParams.get('next')), request.url));
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error(
+      'Missing Supabase env vars. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.'
+    );
+  }
+
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      // Refreshed tokens go on the request (for server components rendering
+      // this request) and on the response (for the browser)
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+        response = NextResponse.next({ request });
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+      },
+    },
+  });
+
+  const { data } = await supabase.auth.getUser();
+  const user = data.user;
+  const { pathname } = request.nextUrl;
+
+  if (!user && !isPublicPath(pathname)) {
+    return redirectWithCookies(pathWithNext('/login', request), response);
+  }
+
+  if (user && signedOutOnlyPaths.includes(pathname)) {
+    const next = safeNextPath(request.nextUrl.searchParams.get('next'));
+    return redirectWithCookies(new URL(next, request.url), response);
+  }
+
+  // Second factor: challenge users who have one (after any kind of login), and
+  // send members of households that require one to set it up
+  if (user && !isPublicPath(pathname) && pathname !== mfaChallengePath && pathname !== mfaEnrollPath) {
+    const { data: aal } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (aal && aal.currentLevel !== 'aal2') {
+      if (aal.nextLevel === 'aal2') {
+        return redirectWithCookies(pathWithNext(mfaChallengePath, request), response);
+      }
+      const { data: required } = await supabase.rpc('mfa_required');
+      if (required) {
+        return redirectWithCookies(pathWithNext(mfaEnrollPath, request), response);
+      }
+    }
+  }
+
+  return response;
+}
+
+// `path` with the current page as `next`, left off for the dashboard itself
+function pathWithNext(path: string, request: NextRequest): URL {
+  const { pathname, search } = request.nextUrl;
+  const url = request.nextUrl.clone();
+  url.pathname = path;
+  url.search = pathname === '/' && !search ? '' : `?next=${encodeURIComponent(pathname + search)}`;
+  return url;
+}
+
+// Keep any refreshed session cookies when redirecting
+function redirectWithCookies(url: URL, response: NextResponse): NextResponse {
+  const redirect = NextResponse.redirect(url);
+  response.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie));
+  return redirect;
+}
+
+export const config = {
+  // Skip Next internals, the service worker, the manifest and static images
+  matcher: [
+    '/((?!_next/static|_next/image|favicon.ico|sw.js|manifest.webmanifest|.*\\.(?:png|jpg|jpeg|svg|webp|ico)$).*)',
+  ],
+};
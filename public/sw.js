@@ -0,0 +1,55 @@
+// Bobo service worker: shows alert notifications sent by the `send-alert-push`
+// edge function and opens the dashboard on the alert when one is tapped.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', event => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const alertId = payload.alert_id;
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Bobo alert', {
+      body: payload.body || 'Open Bobo to see what happened.',
+      icon: '/icon-192.png',
+      badge: '/icon-192.png',
+      // One notification per alert; a repeat push for the same alert replaces it
+      tag: alertId ? `alert-${alertId}` : undefined,
+      renotify: !!alertId,
+      requireInteraction: true,
+      data: { alertId, url: payload.url || (alertId ? `/alerts/${alertId}` : '/') },
+      actions: alertId ? [{ action: 'acknowledge', title: 'Acknowledge' }] : [],
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+
+  const { alertId, url } = event.notification.data || {};
+  const target = new URL(url || '/', self.location.origin);
+  // The alert page opens with "I'm on it" focused; claiming still takes a tap,
+  // so a link on its own never claims an alert
+  if (event.action === 'acknowledge' && alertId) target.searchParams.set('action', 'acknowledge');
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(async windows => {
+      const existing = windows.find(w => new URL(w.url).origin === self.location.origin);
+      if (existing) {
+        await existing.focus();
+        return existing.navigate(target.href);
+      }
+      return self.clients.openWindow(target.href);
+    })
+  );
+});
@@ -0,0 +1,82 @@
+// The alert status rules and the closing form's validation. The edge functions
+// import this through _shared/alerts.ts and the demo functions import it
+// through lib/demoFunctions.ts, so it has no imports of its own.
+
+export type AlertStatus = 'new' | 'acknowledged' | 'resolved' | 'false_alarm';
+export type AlertOutcome = 'false_alarm' | 'no_injury' | 'minor_injury' | 'medical_attention' | 'hospital';
+
+export const closedStatuses: AlertStatus[] = ['resolved', 'false_alarm'];
+export const outcomes: AlertOutcome[] = ['false_alarm', 'no_injury', 'minor_injury', 'medical_attention', 'hospital'];
+
+export type ResolutionAttachment = { path: string; file_name: string; mime_type: string };
+
+export type Resolution = {
+  outcome: AlertOutcome;
+  notes: string | null;
+  attachments: ResolutionAttachment[];
+};
+
+export const allowedTransitions: Record<AlertStatus, AlertStatus[]> = {
+  new: ['acknowledged', 'resolved', 'false_alarm'],
+  acknowledged: ['resolved', 'false_alarm'],
+  resolved: [],
+  false_alarm: [],
+};
+
+// Own keys only, so request values like "constructor" aren't taken for a status
+export function isAlertStatus(value: unknown): value is AlertStatus {
+  return typeof value === 'string' && Object.hasOwn(allowedTransitions, value);
+}
+
+export class TransitionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export function assertTransition(from: AlertStatus, to: AlertStatus): void {
+  if (!allowedTransitions[from]?.includes(to)) {
+    throw new TransitionError(`Cannot change an alert from ${from} to ${to}`, 409);
+  }
+}
+
+// Matches the upload form: photos and PDFs, named as they were on the device
+const attachmentMimeTypePattern = /^(image\/[\w.+-]+|application\/pdf)$/;
+const maxFileNameLength = 255;
+
+function attachmentUnder(alertId: string) {
+  return (value: unknown): value is ResolutionAttachment => {
+    const attachment = value as Record<string, unknown> | null;
+    return (
+      typeof attachment?.path === 'string' &&
+      attachment.path.startsWith(`${alertId}/`) &&
+      typeof attachment.file_name === 'string' &&
+      attachment.file_name.length > 0 &&
+      attachment.file_name.length <= maxFileNameLength &&
+      typeof attachment.mime_type === 'string' &&
+      attachmentMimeTypePattern.test(attachment.mime_type)
+    );
+  };
+}
+
+// Validates the closing form sent by the dashboard. A false alarm outcome is
+// the only one allowed (and required) for the false_alarm status.
+export function parseResolution(alertId: string, to: AlertStatus, body: Record<string, unknown>): Resolution {
+  const outcome = body.outcome as AlertOutcome;
+  if (!outcomes.includes(outcome)) throw new TransitionError('An outcome is required to close an alert', 400);
+  if ((to === 'false_alarm') !== (outcome === 'false_alarm')) {
+    throw new TransitionError('Outcome does not match the new status', 400);
+  }
+
+  const notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null;
+  const attachments: unknown[] = Array.isArray(body.attachments) ? body.attachments : [];
+  if (!attachments.every(attachmentUnder(alertId))) {
+    throw new TransitionError('Attachments must be photos or PDFs uploaded under the alert', 400);
+  }
+
+  return {
+    outcome,
+    notes,
+    attachments: attachments.map(({ path, file_name, mime_type }) => ({ path, file_name, mime_type })),
+  };
+}
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { assertTransition, TransitionError, type AlertStatus, type Resolution } from './alertTransitions.ts';
+import { eventTypeInfo, eventTypes } from './eventTypes.ts';
+
+export {
+  allowedTransitions,
+  closedStatuses,
+  isAlertStatus,
+  outcomes,
+  parseResolution,
+  TransitionError,
+  type AlertOutcome,
+  type AlertStatus,
+  type Resolution,
+  type ResolutionAttachment,
+} from './alertTransitions.ts';
+
+export type AlertForTransition = {
+  id: string;
+  status: AlertStatus;
+  user_id: string;
+  resident_id: string | null;
+};
+
+export async function loadAlert(admin: SupabaseClient, alertId: string): Promise<AlertForTransition | null> {
+  const { data, error } = await admin
+    .from('alerts')
+    .select('id, status, user_id, resident_id')
+    .eq('id', alertId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as AlertForTransition | null;
+}
+
+// Moves an alert to `to` and records who did it, in one transaction (see
+// transition_alert). The update is conditional on the status we read, so when
+// two caregivers claim the same alert only the first one wins and the second
+// gets a 409.
+export async function transitionAlert(
+  admin: SupabaseClient,
+  alert: AlertForTransition,
+  to: AlertStatus,
+  actorId: string,
+  resolution: Resolution | null = null
+): Promise<void> {
+  assertTransition(alert.status, to);
+
+  const { data: updated, error } = await admin.rpc('transition_alert', {
+    target_alert: alert.id,
+    from_status: alert.status,
+    to_status: to,
+    actor: actorId,
+    closing_outcome: resolution?.outcome ?? null,
+    notes: resolution?.notes ?? null,
+    attachments: resolution?.attachments ?? [],
+  });
+
+  if (error) throw error;
+  if (!updated) {
+    throw new TransitionError('Someone else updated this alert first. Refresh to see the latest status.', 409);
+  }
+}
+
+// These ignore quiet hours
+export const criticalEventTypes = Object.values(eventTypes)
+  .filter(info => info.severity === 'critical')
+  .map(info => info.type);
+
+export function formatEventType(type: string | null | undefined): string {
+  return type ? eventTypeInfo(type).label : 'Alert';
+}
+
+// Where notification taps land
+export function alertPath(alertId: string): string {
+  return `/alerts/${alertId}`;
+}
+
+// Notification title, e.g. "Fall: Margaret".
+export function alertTitle(alert: { event: { type: string | null } | null; resident: { name: string } | null }): string {
+  const type = formatEventType(alert.event?.type);
+  return alert.resident ? `${type}: ${alert.resident.name}` : type;
+}
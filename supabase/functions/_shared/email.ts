@@ -0,0 +1,27 @@
+export type Email = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Sends through Resend when RESEND_API_KEY is set. Returns false (and logs)
+// when email is not configured or the provider rejects the message.
+export async function sendEmail(email: Email): Promise<boolean> {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('ALERT_EMAIL_FROM');
+  if (!apiKey || !from) {
+    console.warn(`Email is not configured; skipped message to ${email.to}`);
+    return false;
+  }
+
+  const res = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from, to: [email.to], subject: email.subject, text: email.text }),
+  });
+  if (!res.ok) {
+    console.error(`Email to ${email.to} failed`, res.status, await res.text());
+    return false;
+  }
+  return true;
+}
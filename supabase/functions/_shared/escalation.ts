@@ -0,0 +1,123 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { alertPath, alertTitle } from './alerts.ts';
+import { sendEmail } from './email.ts';
+import { sendPushToUsers } from './push.ts';
+
+export type EscalationStep = {
+  id: string;
+  position: number;
+  delay_minutes: number;
+  user_id: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  profile: { email: string; display_name: string | null } | null;
+};
+
+export type EscalatingAlert = {
+  id: string;
+  status: string;
+  created_at: string;
+  resident_id: string | null;
+  escalation_step: number;
+  event: { type: string | null } | null;
+  resident: { name: string; address: string | null; household_id: string } | null;
+};
+
+export const escalatingAlertColumns =
+  'id, status, created_at, resident_id, escalation_step, event:events(type), resident:residents(name, address, household_id)';
+
+export async function listEscalationSteps(admin: SupabaseClient, householdId: string): Promise<EscalationStep[]> {
+  const { data, error } = await admin
+    .from('escalation_steps')
+    .select('id, position, delay_minutes, user_id, contact_name, contact_email, contact_phone, profile:profiles(email, display_name)')
+    .eq('household_id', householdId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as unknown as EscalationStep[];
+}
+
+function recipientName(step: EscalationStep): string {
+  if (step.user_id) return step.profile?.display_name ?? step.profile?.email ?? 'Caregiver';
+  return step.contact_name ?? step.contact_email ?? 'Emergency contact';
+}
+
+function dueAt(alert: EscalatingAlert, step: EscalationStep): number {
+  return new Date(alert.created_at).getTime() + step.delay_minutes * 60 * 1000;
+}
+
+async function notifyStep(admin: SupabaseClient, alert: EscalatingAlert, step: EscalationStep) {
+  const title = alertTitle(alert);
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(alert.created_at).getTime()) / 60000));
+
+  if (step.user_id) {
+    await sendPushToUsers(admin, [step.user_id], {
+      title: minutes === 0 ? title : `Still unanswered: ${title}`,
+      body:
+        minutes === 0
+          ? 'Tap to see the footage and respond.'
+          : `Nobody has responded for ${minutes} minute${minutes === 1 ? '' : 's'}. Tap to respond.`,
+      alert_id: alert.id,
+      url: alertPath(alert.id),
+    });
+  } else if (step.contact_email) {
+    const who = alert.resident?.name ?? 'someone you care for';
+    const where = alert.resident?.address ? ` at ${alert.resident.address}` : '';
+    await sendEmail({
+      to: step.contact_email,
+      subject: `Urgent: ${title}`,
+      text:
+        `Bobo raised an alert for ${who}${where} ${minutes} minutes ago and no caregiver has responded yet.\n\n` +
+        `You are listed as an emergency contact. Please check on ${who} or call for help.`,
+    });
+  }
+}
+
+// Fires every step of the household's chain that is due for this alert and
+// schedules the next one. The step counter is advanced with a conditional
+// update first, so overlapping runs never notify the same step twice, and an
+// alert claimed in the meantime is left alone. Returns how many steps fired.
+export async function escalateAlert(
+  admin: SupabaseClient,
+  alert: EscalatingAlert,
+  now = Date.now()
+): Promise<number> {
+  if (alert.status !== 'new' || !alert.resident) return 0;
+
+  const steps = await listEscalationSteps(admin, alert.resident.household_id);
+  const remaining = steps.slice(alert.escalation_step);
+  const due = remaining.filter(step => dueAt(alert, step) <= now);
+  if (due.length === 0) return 0;
+
+  const next = remaining[due.length];
+  const { data: claimed, error } = await admin
+    .from('alerts')
+    .update({
+      escalation_step: alert.escalation_step + due.length,
+      next_escalation_at: next ? new Date(dueAt(alert, next)).toISOString() : null,
+    })
+    .eq('id', alert.id)
+    .eq('status', 'new')
+    .eq('escalation_step', alert.escalation_step)
+    .select('id');
+
+  if (error) throw error;
+  if (!claimed?.length) return 0;
+
+  for (const step of due) {
+    try {
+      await notifyStep(admin, alert, step);
+    } catch (err) {
+      console.error(`Escalation step ${step.position} for alert ${alert.id} failed`, err);
+    }
+    const { error: logError } = await admin.from('alert_escalations').insert({
+      alert_id: alert.id,
+      step_id: step.id,
+      position: step.position,
+      recipient: recipientName(step),
+    });
+    if (logError) console.error(`Failed to record escalation for alert ${alert.id}`, logError);
+  }
+  return due.length;
+}
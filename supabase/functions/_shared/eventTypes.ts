@@ -0,0 +1,90 @@
+// The event types the robot raises alerts for. The dashboard imports this
+// through lib/eventTypes.ts and the edge functions import it directly, so it
+// has no imports of its own. `escalates` is also stored in public.event_types
+// (20261019350000_event_types_table.sql) for the escalation trigger; add new
+// types there too.
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low';
+export type EventTypeIcon = 'fall' | 'motion' | 'help' | 'check_in' | 'offline' | 'battery' | 'alert';
+export type EventTypeColor = 'red' | 'orange' | 'amber' | 'blue' | 'slate';
+export type EventTypeInfo = {
+  type: string;
+  label: string;
+  severity: Severity;
+  icon: EventTypeIcon;
+  color: EventTypeColor;
+  // Whether alerts of this type work through the household's escalation
+  // chain, or only notify members once
+  escalates: boolean;
+};
+
+const fall: Omit<EventTypeInfo, 'type'> = {
+  label: 'Fall detected',
+  severity: 'critical',
+  icon: 'fall',
+  color: 'red',
+  escalates: true,
+};
+
+export const eventTypes: Record<string, EventTypeInfo> = {
+  fall: { type: 'fall', ...fall },
+  fall_detected: { type: 'fall_detected', ...fall },
+  help_request: {
+    type: 'help_request',
+    label: 'Help requested',
+    severity: 'critical',
+    icon: 'help',
+    color: 'red',
+    escalates: true,
+  },
+  check_in_help: {
+    type: 'check_in_help',
+    label: 'Asked for help at check-in',
+    severity: 'critical',
+    icon: 'help',
+    color: 'red',
+    escalates: true,
+  },
+  no_motion: { type: 'no_motion', label: 'No motion', severity: 'high', icon: 'motion', color: 'orange', escalates: true },
+  check_in_missed: {
+    type: 'check_in_missed',
+    label: 'Missed check-in',
+    severity: 'medium',
+    icon: 'check_in',
+    color: 'amber',
+    escalates: true,
+  },
+  robot_offline: {
+    type: 'robot_offline',
+    label: 'Robot offline',
+    severity: 'medium',
+    icon: 'offline',
+    color: 'amber',
+    escalates: false,
+  },
+  battery_low: {
+    type: 'battery_low',
+    label: 'Low battery',
+    severity: 'low',
+    icon: 'battery',
+    color: 'blue',
+    escalates: false,
+  },
+};
+
+function titleCase(raw: string): string {
+  return raw
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// Types the robot sends that aren't registered yet are treated as high
+// severity, so a new kind of emergency is never quietly sorted to the bottom.
+export function eventTypeInfo(type: string | null | undefined): EventTypeInfo {
+  if (!type) return { type: '', label: 'Unknown', severity: 'high', icon: 'alert', color: 'orange', escalates: true };
+  // Own keys only, so types like "constructor" aren't read off Object.prototype
+  if (Object.hasOwn(eventTypes, type)) return eventTypes[type];
+  return { type, label: titleCase(type), severity: 'high', icon: 'alert', color: 'orange', escalates: true };
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type { AssuranceLevel } from './supabase.ts';
+
+export type HouseholdRole = 'owner' | 'caregiver' | 'viewer';
+
+// Mirrors public.household_role: members of a household that requires
+// two-factor authentication only count as members from an aal2 session.
+export async function getHouseholdRole(
+  admin: SupabaseClient,
+  userId: string,
+  householdId: string,
+  aal: AssuranceLevel
+): Promise<HouseholdRole | null> {
+  const { data, error } = await admin
+    .from('household_members')
+    .select('role, household:households(require_mfa)')
+    .eq('household_id', householdId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  const household = data.household as unknown as { require_mfa: boolean } | null;
+  if (household?.require_mfa && aal !== 'aal2') return null;
+  return data.role as HouseholdRole;
+}
+
+export function canRespond(role: HouseholdRole | null): boolean {
+  return role === 'owner' || role === 'caregiver';
+}
+
+// Owners and caregivers of the alert's household may act on it. Alerts that
+// predate residents fall back to the user they were created for.
+export async function canRespondToAlert(
+  admin: SupabaseClient,
+  userId: string,
+  alert: { user_id: string; resident_id: string | null },
+  aal: AssuranceLevel
+): Promise<boolean> {
+  if (!alert.resident_id) return alert.user_id === userId;
+
+  const { data: resident, error } = await admin
+    .from('residents')
+    .select('household_id')
+    .eq('id', alert.resident_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!resident) return false;
+  return canRespond(await getHouseholdRole(admin, userId, resident.household_id, aal));
+}
+
+// Everyone who should hear about an alert: all members of the resident's
+// household, or the alert's own user for alerts without a resident.
+export async function listAlertAudience(
+  admin: SupabaseClient,
+  alert: { user_id: string; resident_id: string | null }
+): Promise<string[]> {
+  if (!alert.resident_id) return [alert.user_id];
+
+  const { data: resident, error } = await admin
+    .from('residents')
+    .select('household_id')
+    .eq('id', alert.resident_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!resident) return [];
+
+  const { data: members, error: membersError } = await admin
+    .from('household_members')
+    .select('user_id')
+    .eq('household_id', resident.household_id);
+
+  if (membersError) throw membersError;
+  return (members ?? []).map(m => m.user_id as string);
+}
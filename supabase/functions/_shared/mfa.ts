@@ -0,0 +1,37 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+export const recoveryCodeCount = 10;
+
+// Unambiguous characters only (no 0/O, 1/I/L), formatted as xxxxx-xxxxx
+const codeAlphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const chars = Array.from(bytes, byte => codeAlphabet[byte % codeAlphabet.length]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+// Tolerates the spacing, dashes and capitalisation people type codes with
+export function normalizeRecoveryCode(code: string): string {
+  const chars = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Replaces any existing codes; the plain codes are only ever returned here.
+export async function replaceRecoveryCodes(admin: SupabaseClient, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: recoveryCodeCount }, generateRecoveryCode);
+  const rows = await Promise.all(
+    codes.map(async code => ({ user_id: userId, code_hash: await hashRecoveryCode(code) }))
+  );
+
+  const { error: deleteError } = await admin.from('mfa_recovery_codes').delete().eq('user_id', userId);
+  if (deleteError) throw deleteError;
+  const { error } = await admin.from('mfa_recovery_codes').insert(rows);
+  if (error) throw error;
+  return codes;
+}
@@ -0,0 +1,63 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+
+export type PushPayload = {
+  title: string;
+  body: string;
+  alert_id?: string;
+  url?: string;
+};
+
+let configured = false;
+
+function configureVapid() {
+  if (configured) return;
+  webpush.setVapidDetails(
+    Deno.env.get('VAPID_SUBJECT') ?? 'mailto:alerts@bobo.app',
+    Deno.env.get('VAPID_PUBLIC_KEY')!,
+    Deno.env.get('VAPID_PRIVATE_KEY')!
+  );
+  configured = true;
+}
+
+// Sends a notification to every subscribed device of the given users and
+// returns how many were delivered. Subscriptions the push service reports as
+// gone (404/410) are deleted.
+export async function sendPushToUsers(
+  admin: SupabaseClient,
+  userIds: string[],
+  payload: PushPayload
+): Promise<number> {
+  if (userIds.length === 0) return 0;
+  configureVapid();
+
+  const { data: subscriptions, error } = await admin
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+
+  const body = JSON.stringify(payload);
+  const results = await Promise.all(
+    (subscriptions ?? []).map(async s => {
+      try {
+        await webpush.sendNotification({ endpoint: s.endpoint, keys: { p256dh: s.p256dh, auth: s.auth } }, body, {
+          TTL: 60 * 60,
+          urgency: 'high',
+        });
+        return true;
+      } catch (err) {
+        const statusCode = (err as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+          await admin.from('push_subscriptions').delete().eq('id', s.id);
+        } else {
+          console.error(`Push to ${s.endpoint} failed`, err);
+        }
+        return false;
+      }
+    })
+  );
+
+  return results.filter(Boolean).length;
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { criticalEventTypes } from './alerts.ts';
+
+export type NotificationSettings = {
+  user_id: string;
+  push_enabled: boolean;
+  email_enabled: boolean;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string;
+  muted_event_types: string[];
+  profile: { email: string } | null;
+};
+
+export type Recipients = { pushUserIds: string[]; emails: string[] };
+
+// Minutes past midnight in the given time zone
+function localMinutes(now: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+    .formatToParts(now);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function inQuietHours(settings: NotificationSettings, now = new Date()): boolean {
+  if (!settings.quiet_hours_start || !settings.quiet_hours_end) return false;
+  const start = toMinutes(settings.quiet_hours_start);
+  const end = toMinutes(settings.quiet_hours_end);
+  let current: number;
+  try {
+    current = localMinutes(now, settings.time_zone);
+  } catch {
+    current = localMinutes(now, 'UTC');
+  }
+  // A window like 22:00–07:00 wraps past midnight
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+// Splits an alert's audience by channel according to each user's settings.
+// Users who never saved settings get the defaults: push only, every type.
+export async function notificationRecipients(
+  admin: SupabaseClient,
+  userIds: string[],
+  eventType: string | null
+): Promise<Recipients> {
+  if (userIds.length === 0) return { pushUserIds: [], emails: [] };
+
+  const { data, error } = await admin
+    .from('user_settings')
+    .select(
+      'user_id, push_enabled, email_enabled, quiet_hours_start, quiet_hours_end, time_zone, muted_event_types, profile:profiles(email)'
+    )
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  const settingsByUser = new Map(((data ?? []) as unknown as NotificationSettings[]).map(s => [s.user_id, s]));
+  const isCritical = !!eventType && criticalEventTypes.includes(eventType);
+
+  const recipients: Recipients = { pushUserIds: [], emails: [] };
+  userIds.forEach(userId => {
+    const settings = settingsByUser.get(userId);
+    if (!settings) {
+      recipients.pushUserIds.push(userId);
+      return;
+    }
+    if (eventType && settings.muted_event_types.includes(eventType)) return;
+    if (!isCritical && inQuietHours(settings)) return;
+    if (settings.push_enabled) recipients.pushUserIds.push(userId);
+    if (settings.email_enabled && settings.profile?.email) recipients.emails.push(settings.profile.email);
+  });
+  return recipients;
+}
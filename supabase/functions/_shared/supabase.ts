@@ -0,0 +1,38 @@
+import { createClient, type SupabaseClient, type User } from 'jsr:@supabase/supabase-js@2';
+
+// Service-role client for privileged writes. Callers must check permissions
+// themselves before using it.
+export function createServiceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+}
+
+export async function getRequestUser(req: Request): Promise<User | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await createServiceClient().auth.getUser(token);
+  if (error) return null;
+  return data.user;
+}
+
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+// The `aal` claim of a token already verified by getRequestUser: aal2 once the
+// session has passed a second-factor challenge.
+export function requestAssuranceLevel(req: Request): AssuranceLevel {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return payload.aal === 'aal2' ? 'aal2' : 'aal1';
+  } catch {
+    return 'aal1';
+  }
+}
+
+// Database triggers and cron jobs call functions with the service role key.
+export function isServiceRequest(req: Request): boolean {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  return !!token && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+}
@@ -0,0 +1,34 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, getRequestUser, requestAssuranceLevel } from '../_shared/supabase.ts';
+import { canRespondToAlert } from '../_shared/households.ts';
+import { loadAlert, parseResolution, transitionAlert, TransitionError } from '../_shared/alerts.ts';
+
+// Equivalent to update-alert-status with `resolved`, so it needs the same
+// outcome (and optional notes and attachments). Requests with only an
+// alert_id, as older clients sent, are rejected with a 400.
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const user = await getRequestUser(req);
+  if (!user) return errorResponse('Not signed in', 401);
+
+  const body = await req.json().catch(() => ({}));
+  const { alert_id: alertId } = body;
+  if (!alertId) return errorResponse('alert_id is required', 400);
+
+  const admin = createServiceClient();
+  try {
+    const alert = await loadAlert(admin, alertId);
+    if (!alert) return errorResponse('Alert not found', 404);
+    if (!(await canRespondToAlert(admin, user.id, alert, requestAssuranceLevel(req)))) {
+      return errorResponse('You do not have permission to dismiss this alert', 403);
+    }
+
+    const resolution = parseResolution(alert.id, 'resolved', body);
+    await transitionAlert(admin, alert, 'resolved', user.id, resolution);
+    return jsonResponse({ ok: true });
+  } catch (err) {
+    if (err instanceof TransitionError) return errorResponse(err.message, err.status);
+    return errorResponse((err as Error).message, 500);
+  }
+});
@@ -0,0 +1,37 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, isServiceRequest } from '../_shared/supabase.ts';
+import { escalateAlert, escalatingAlertColumns, type EscalatingAlert } from '../_shared/escalation.ts';
+
+const batchSize = 100;
+
+// Scheduled every minute by the `escalate-alerts` cron job. Picks up alerts
+// that are still new and whose next escalation step is due.
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (!isServiceRequest(req)) return errorResponse('Forbidden', 403);
+
+  const admin = createServiceClient();
+  try {
+    const { data, error } = await admin
+      .from('alerts')
+      .select(escalatingAlertColumns)
+      .eq('status', 'new')
+      .lte('next_escalation_at', new Date().toISOString())
+      .order('next_escalation_at', { ascending: true })
+      .limit(batchSize);
+
+    if (error) throw error;
+
+    let fired = 0;
+    for (const alert of (data ?? []) as unknown as EscalatingAlert[]) {
+      try {
+        fired += await escalateAlert(admin, alert);
+      } catch (err) {
+        console.error(`Escalating alert ${alert.id} failed`, err);
+      }
+    }
+    return jsonResponse({ alerts: data?.length ?? 0, steps: fired });
+  } catch (err) {
+    return errorResponse((err as Error).message, 500);
+  }
+});
@@ -0,0 +1,74 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, getRequestUser, requestAssuranceLevel } from '../_shared/supabase.ts';
+import { getHouseholdRole, type HouseholdRole } from '../_shared/households.ts';
+import { sendEmail } from '../_shared/email.ts';
+
+const roles: HouseholdRole[] = ['owner', 'caregiver', 'viewer'];
+
+// The app's own origin, plus any listed in ALLOWED_REDIRECT_ORIGINS (comma
+// separated, e.g. a local dev server), so links can't point anywhere else
+function linkOrigin(requested: unknown): string | null {
+  const siteUrl = Deno.env.get('SITE_URL') ?? '';
+  if (requested === undefined || requested === null) return siteUrl || null;
+  const allowed = [siteUrl, ...(Deno.env.get('ALLOWED_REDIRECT_ORIGINS') ?? '').split(',')]
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  return typeof requested === 'string' && allowed.includes(requested) ? requested : null;
+}
+
+// Creates an invitation and emails a sign-in link that lands on /invite/<token>.
+// The link carries a token hash that /auth/callback verifies, so it works in
+// any browser (an implicit-flow link is rejected by the PKCE client, and a
+// PKCE code needs the browser that asked for it). Existing accounts get a
+// magic link and new ones an invite link, which creates the account.
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const user = await getRequestUser(req);
+  if (!user) return errorResponse('Not signed in', 401);
+
+  const { household_id: householdId, email, role, redirect_origin: redirectOrigin } = await req
+    .json()
+    .catch(() => ({}));
+  const normalizedEmail = String(email ?? '').trim().toLowerCase();
+  if (!householdId || !normalizedEmail) return errorResponse('household_id and email are required', 400);
+  if (!roles.includes(role)) return errorResponse('Invalid role', 400);
+  const origin = linkOrigin(redirectOrigin);
+  if (!origin) return errorResponse('redirect_origin is not allowed', 400);
+
+  const admin = createServiceClient();
+  if ((await getHouseholdRole(admin, user.id, householdId, requestAssuranceLevel(req))) !== 'owner') {
+    return errorResponse('Only household owners can invite members', 403);
+  }
+
+  const { data: invitation, error } = await admin
+    .from('household_invitations')
+    .insert({ household_id: householdId, email: normalizedEmail, role, invited_by: user.id })
+    .select('id, token, household:households(name)')
+    .single();
+
+  if (error) return errorResponse(error.message, 500);
+
+  const { data: existing, error: profileError } = await admin
+    .from('profiles')
+    .select('id')
+    .eq('email', normalizedEmail)
+    .maybeSingle();
+  if (profileError) return errorResponse(profileError.message, 500);
+
+  const type = existing ? 'magiclink' : 'invite';
+  const { data: link, error: linkError } = await admin.auth.admin.generateLink({ type, email: normalizedEmail });
+  if (linkError) return errorResponse(linkError.message, 500);
+
+  const next = `/invite/${invitation.token}`;
+  const url = `${origin}/auth/callback?token_hash=${encodeURIComponent(link.properties.hashed_token)}&type=${type}&next=${encodeURIComponent(next)}`;
+  const householdName = (invitation.household as unknown as { name: string } | null)?.name ?? 'a household';
+  const sent = await sendEmail({
+    to: normalizedEmail,
+    subject: `You've been invited to ${householdName} on Bobo`,
+    text: `You've been invited to join ${householdName} on Bobo to see and respond to alerts.\n\nOpen ${url} to sign in and accept.`,
+  });
+
+  if (!sent) return errorResponse('The invitation was saved but the email could not be sent.', 502);
+  return jsonResponse({ id: invitation.id });
+});
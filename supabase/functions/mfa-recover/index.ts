@@ -0,0 +1,42 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, getRequestUser } from '../_shared/supabase.ts';
+import { hashRecoveryCode } from '../_shared/mfa.ts';
+
+// For a lost authenticator: a valid recovery code removes the user's factors
+// (and any remaining codes) so they can sign in with their password and enroll
+// a new device. The code is spent even if a later step fails.
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const user = await getRequestUser(req);
+  if (!user) return errorResponse('Not signed in', 401);
+
+  const { code } = await req.json().catch(() => ({}));
+  if (!code) return errorResponse('code is required', 400);
+
+  const admin = createServiceClient();
+  try {
+    const { data: spent, error } = await admin
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('code_hash', await hashRecoveryCode(String(code)))
+      .is('used_at', null)
+      .select('id');
+
+    if (error) return errorResponse(error.message, 500);
+    if (!spent?.length) return errorResponse('That recovery code is invalid or has already been used', 400);
+
+    const { data: factors, error: factorsError } = await admin.auth.admin.mfa.listFactors({ userId: user.id });
+    if (factorsError) return errorResponse(factorsError.message, 500);
+    for (const factor of factors.factors) {
+      const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+      if (deleteError) return errorResponse(deleteError.message, 500);
+    }
+
+    await admin.from('mfa_recovery_codes').delete().eq('user_id', user.id);
+    return jsonResponse({ ok: true });
+  } catch (err) {
+    return errorResponse((err as Error).message, 500);
+  }
+});
@@ -0,0 +1,22 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, getRequestUser, requestAssuranceLevel } from '../_shared/supabase.ts';
+import { replaceRecoveryCodes } from '../_shared/mfa.ts';
+
+// Issues a fresh set of recovery codes. Only a session that has already passed
+// the second-factor challenge may do this.
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const user = await getRequestUser(req);
+  if (!user) return errorResponse('Not signed in', 401);
+  if (requestAssuranceLevel(req) !== 'aal2') {
+    return errorResponse('Verify with your authenticator app before generating recovery codes', 403);
+  }
+
+  try {
+    const codes = await replaceRecoveryCodes(createServiceClient(), user.id);
+    return jsonResponse({ codes });
+  } catch (err) {
+    return errorResponse((err as Error).message, 500);
+  }
+});
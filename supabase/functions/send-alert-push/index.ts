@@ -0,0 +1,61 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, isServiceRequest } from '../_shared/supabase.ts';
+import { listAlertAudience } from '../_shared/households.ts';
+import { sendPushToUsers } from '../_shared/push.ts';
+import { sendEmail } from '../_shared/email.ts';
+import { notificationRecipients } from '../_shared/settings.ts';
+import { alertPath, alertTitle } from '../_shared/alerts.ts';
+import { escalateAlert, escalatingAlertColumns, type EscalatingAlert } from '../_shared/escalation.ts';
+
+// Called by the `alerts_notify_push` trigger for every new alert. Only the
+// database (holding the service role key) may call it.
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (!isServiceRequest(req)) return errorResponse('Forbidden', 403);
+
+  const { alert_id: alertId } = await req.json().catch(() => ({}));
+  if (!alertId) return errorResponse('alert_id is required', 400);
+
+  const admin = createServiceClient();
+  try {
+    const { data, error } = await admin
+      .from('alerts')
+      .select(`${escalatingAlertColumns}, user_id, next_escalation_at`)
+      .eq('id', alertId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return errorResponse('Alert not found', 404);
+    const alert = data as unknown as EscalatingAlert & { user_id: string; next_escalation_at: string | null };
+
+    // Households with an escalation policy are notified step by step, starting
+    // with whoever is due immediately; everyone else hears about it at once.
+    if (alert.next_escalation_at) {
+      return jsonResponse({ escalated: await escalateAlert(admin, alert) });
+    }
+
+    // Members' own settings pick the channels and can mute types or hold
+    // back non-critical alerts during quiet hours
+    const audience = await listAlertAudience(admin, alert);
+    const { pushUserIds, emails } = await notificationRecipients(admin, audience, alert.event?.type ?? null);
+    const title = alertTitle(alert);
+    const sent = await sendPushToUsers(admin, pushUserIds, {
+      title,
+      body: 'Tap to see the footage and respond.',
+      alert_id: alert.id,
+      url: alertPath(alert.id),
+    });
+    const emailed = await Promise.all(
+      emails.map(to =>
+        sendEmail({
+          to,
+          subject: title,
+          text: `Bobo raised an alert: ${title}.\n\nOpen ${Deno.env.get('SITE_URL') ?? ''}${alertPath(alert.id)} to see the footage and respond.`,
+        })
+      )
+    );
+    return jsonResponse({ sent, emailed: emailed.filter(Boolean).length });
+  } catch (err) {
+    return errorResponse((err as Error).message, 500);
+  }
+});
@@ -0,0 +1,39 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, getRequestUser, requestAssuranceLevel } from '../_shared/supabase.ts';
+import { canRespondToAlert } from '../_shared/households.ts';
+import {
+  closedStatuses,
+  isAlertStatus,
+  loadAlert,
+  parseResolution,
+  transitionAlert,
+  TransitionError,
+} from '../_shared/alerts.ts';
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const user = await getRequestUser(req);
+  if (!user) return errorResponse('Not signed in', 401);
+
+  const body = await req.json().catch(() => ({}));
+  const { alert_id: alertId, status } = body;
+  if (!alertId) return errorResponse('alert_id is required', 400);
+  if (!isAlertStatus(status)) return errorResponse('Invalid status', 400);
+
+  const admin = createServiceClient();
+  try {
+    const alert = await loadAlert(admin, alertId);
+    if (!alert) return errorResponse('Alert not found', 404);
+    if (!(await canRespondToAlert(admin, user.id, alert, requestAssuranceLevel(req)))) {
+      return errorResponse('You do not have permission to update this alert', 403);
+    }
+
+    const resolution = closedStatuses.includes(status) ? parseResolution(alert.id, status, body) : null;
+    await transitionAlert(admin, alert, status, user.id, resolution);
+    return jsonResponse({ ok: true });
+  } catch (err) {
+    if (err instanceof TransitionError) return errorResponse(err.message, err.status);
+    return errorResponse((err as Error).message, 500);
+  }
+});
@@ -0,0 +1,2 @@
+-- Stream alert inserts and status changes to the dashboard over Realtime.
+alter publication supabase_realtime add table public.alerts;
@@ -0,0 +1,40 @@
+-- Media manifest: every clip or snapshot captured for an event, instead of
+-- guessing `${event_id}.mp4` / `${event_id}.jpg` in the falls bucket.
+create table public.event_media (
+  id uuid primary key default gen_random_uuid(),
+  event_id bigint not null references public.events (id) on delete cascade,
+  path text not null,
+  mime_type text not null,
+  duration_ms integer,
+  poster_path text,
+  camera text,
+  captured_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (event_id, path)
+);
+
+create index event_media_event_id_idx on public.event_media (event_id);
+
+alter table public.event_media enable row level security;
+
+create policy "Users can read media for their alerts"
+  on public.event_media for select
+  using (
+    exists (
+      select 1 from public.alerts a
+      where a.trigger_event = event_media.event_id
+        and a.user_id = auth.uid()
+    )
+  );
+
+-- Backfill from the files the robot has already uploaded under the old naming scheme.
+insert into public.event_media (event_id, path, mime_type, captured_at)
+select
+  e.id,
+  o.name,
+  coalesce(o.metadata ->> 'mimetype', case when o.name like '%.jpg' then 'image/jpeg' else 'video/mp4' end),
+  o.created_at
+from storage.objects o
+join public.events e on split_part(o.name, '.', 1) = e.id::text
+where o.bucket_id = 'falls'
+on conflict (event_id, path) do nothing;
@@ -0,0 +1,17 @@
+-- Fall footage is no longer publicly readable. The dashboard requests
+-- short-lived signed URLs, which require read access under this policy.
+update storage.buckets set public = false where id = 'falls';
+
+create policy "Users can read footage for their alerts"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'falls'
+    and exists (
+      select 1
+      from public.event_media m
+      join public.alerts a on a.trigger_event = m.event_id
+      where (m.path = storage.objects.name or m.poster_path = storage.objects.name)
+        and a.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,85 @@
+-- Households group the residents a caregiver monitors. Each resident has their
+-- own address and time zone, and robots are assigned to a resident.
+create table public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table public.residents (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  name text not null,
+  photo_path text,
+  address text,
+  time_zone text not null default 'America/Los_Angeles',
+  created_at timestamptz not null default now()
+);
+
+create index residents_household_id_idx on public.residents (household_id);
+
+create table public.robots (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  resident_id uuid references public.residents (id) on delete set null,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index robots_resident_id_idx on public.robots (resident_id);
+
+alter table public.events add column resident_id uuid references public.residents (id) on delete set null;
+alter table public.alerts add column resident_id uuid references public.residents (id) on delete set null;
+
+create index alerts_resident_id_idx on public.alerts (resident_id);
+
+-- Alerts inherit the resident of the event that triggered them.
+create function public.set_alert_resident() returns trigger
+language plpgsql as $$
+begin
+  if new.resident_id is null then
+    select e.resident_id into new.resident_id from public.events e where e.id = new.trigger_event;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger alerts_set_resident
+  before insert on public.alerts
+  for each row execute function public.set_alert_resident();
+
+alter table public.households enable row level security;
+alter table public.residents enable row level security;
+alter table public.robots enable row level security;
+
+create policy "Owners can manage their households"
+  on public.households for all
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Owners can manage residents"
+  on public.residents for all
+  using (exists (select 1 from public.households h where h.id = residents.household_id and h.owner_id = auth.uid()))
+  with check (exists (select 1 from public.households h where h.id = residents.household_id and h.owner_id = auth.uid()));
+
+create policy "Owners can manage robots"
+  on public.robots for all
+  using (exists (select 1 from public.households h where h.id = robots.household_id and h.owner_id = auth.uid()))
+  with check (exists (select 1 from public.households h where h.id = robots.household_id and h.owner_id = auth.uid()));
+
+-- Resident photos live in their own private bucket, under `<household_id>/...`.
+insert into storage.buckets (id, name, public) values ('resident-photos', 'resident-photos', false)
+on conflict (id) do nothing;
+
+create policy "Owners can read resident photos"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'resident-photos'
+    and exists (
+      select 1 from public.households h
+      where h.id::text = (storage.foldername(storage.objects.name))[1]
+        and h.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,243 @@
+-- Caregiver teams: households are shared through memberships with a role, and
+-- access to alerts, residents and footage follows membership instead of the
+-- single user_id stored on each alert.
+create type public.household_role as enum ('owner', 'caregiver', 'viewer');
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  display_name text,
+  created_at timestamptz not null default now()
+);
+
+insert into public.profiles (id, email)
+select id, email from auth.users where email is not null
+on conflict (id) do nothing;
+
+create function public.handle_new_user() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into public.profiles (id, email) values (new.id, new.email)
+  on conflict (id) do update set email = excluded.email;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert or update of email on auth.users
+  for each row execute function public.handle_new_user();
+
+create table public.household_members (
+  household_id uuid not null references public.households (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  role public.household_role not null default 'caregiver',
+  created_at timestamptz not null default now(),
+  primary key (household_id, user_id)
+);
+
+create index household_members_user_id_idx on public.household_members (user_id);
+
+insert into public.household_members (household_id, user_id, role)
+select id, owner_id, 'owner' from public.households
+on conflict do nothing;
+
+create function public.add_household_owner() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into public.household_members (household_id, user_id, role)
+  values (new.id, new.owner_id, 'owner')
+  on conflict do nothing;
+  return new;
+end;
+$$;
+
+create trigger households_add_owner
+  after insert on public.households
+  for each row execute function public.add_household_owner();
+
+create table public.household_invitations (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  email text not null,
+  role public.household_role not null default 'caregiver',
+  token uuid not null unique default gen_random_uuid(),
+  invited_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid references public.profiles (id) on delete set null,
+  revoked_at timestamptz
+);
+
+create index household_invitations_household_id_idx on public.household_invitations (household_id);
+
+-- Membership lookups run as definer so policies on household_members don't recurse.
+create function public.household_role(target_household uuid) returns public.household_role
+language sql stable security definer set search_path = public as $$
+  select role from public.household_members
+  where household_id = target_household and user_id = auth.uid();
+$$;
+
+create function public.resident_household_role(target_resident uuid) returns public.household_role
+language sql stable security definer set search_path = public as $$
+  select m.role
+  from public.residents r
+  join public.household_members m on m.household_id = r.household_id
+  where r.id = target_resident and m.user_id = auth.uid();
+$$;
+
+create function public.accept_household_invitation(invite_token uuid) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  invite public.household_invitations;
+begin
+  select * into invite from public.household_invitations
+  where token = invite_token
+    and accepted_at is null
+    and revoked_at is null
+    and expires_at > now()
+  for update;
+
+  if invite.id is null then
+    raise exception 'This invitation is invalid or has expired.';
+  end if;
+
+  if lower(invite.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'This invitation was sent to a different email address.';
+  end if;
+
+  insert into public.household_members (household_id, user_id, role)
+  values (invite.household_id, auth.uid(), invite.role)
+  on conflict (household_id, user_id) do update set role = excluded.role;
+
+  update public.household_invitations
+  set accepted_at = now(), accepted_by = auth.uid()
+  where id = invite.id;
+
+  return invite.household_id;
+end;
+$$;
+
+alter table public.profiles enable row level security;
+alter table public.household_members enable row level security;
+alter table public.household_invitations enable row level security;
+
+create policy "Users can read profiles of their household members"
+  on public.profiles for select
+  using (
+    id = auth.uid()
+    or exists (
+      select 1 from public.household_members m
+      where m.user_id = profiles.id and public.household_role(m.household_id) is not null
+    )
+  );
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+create policy "Members can read their household's members"
+  on public.household_members for select
+  using (public.household_role(household_id) is not null);
+
+create policy "Owners can change member roles"
+  on public.household_members for update
+  using (public.household_role(household_id) = 'owner')
+  with check (public.household_role(household_id) = 'owner');
+
+create policy "Owners can remove members and members can leave"
+  on public.household_members for delete
+  using (public.household_role(household_id) = 'owner' or user_id = auth.uid());
+
+create policy "Owners can read invitations"
+  on public.household_invitations for select
+  using (public.household_role(household_id) = 'owner');
+
+create policy "Owners can revoke invitations"
+  on public.household_invitations for update
+  using (public.household_role(household_id) = 'owner')
+  with check (public.household_role(household_id) = 'owner');
+
+-- Households, residents and robots: readable by every member, managed by owners.
+drop policy "Owners can manage their households" on public.households;
+drop policy "Owners can manage residents" on public.residents;
+drop policy "Owners can manage robots" on public.robots;
+
+create policy "Members can read their households"
+  on public.households for select
+  using (public.household_role(id) is not null);
+
+create policy "Users can create households"
+  on public.households for insert
+  with check (owner_id = auth.uid());
+
+create policy "Owners can update their households"
+  on public.households for update
+  using (public.household_role(id) = 'owner')
+  with check (public.household_role(id) = 'owner');
+
+create policy "Owners can delete their households"
+  on public.households for delete
+  using (public.household_role(id) = 'owner');
+
+create policy "Members can read residents"
+  on public.residents for select
+  using (public.household_role(household_id) is not null);
+
+create policy "Owners can manage residents"
+  on public.residents for all
+  using (public.household_role(household_id) = 'owner')
+  with check (public.household_role(household_id) = 'owner');
+
+create policy "Members can read robots"
+  on public.robots for select
+  using (public.household_role(household_id) is not null);
+
+create policy "Owners can manage robots"
+  on public.robots for all
+  using (public.household_role(household_id) = 'owner')
+  with check (public.household_role(household_id) = 'owner');
+
+-- Alerts, events and media follow the resident's household. Alerts that
+-- predate residents stay visible to the user they were created for.
+create policy "Household members can read alerts"
+  on public.alerts for select
+  using (user_id = auth.uid() or public.resident_household_role(resident_id) is not null);
+
+create policy "Household members can read events"
+  on public.events for select
+  using (
+    exists (select 1 from public.alerts a where a.trigger_event = events.id)
+  );
+
+drop policy "Users can read media for their alerts" on public.event_media;
+
+create policy "Household members can read event media"
+  on public.event_media for select
+  using (
+    exists (select 1 from public.alerts a where a.trigger_event = event_media.event_id)
+  );
+
+drop policy "Users can read footage for their alerts" on storage.objects;
+
+create policy "Household members can read footage"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'falls'
+    and exists (
+      select 1 from public.event_media m
+      where m.path = storage.objects.name or m.poster_path = storage.objects.name
+    )
+  );
+
+drop policy "Owners can read resident photos" on storage.objects;
+
+create policy "Members can read resident photos"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'resident-photos'
+    and public.household_role(((storage.foldername(storage.objects.name))[1])::uuid) is not null
+  );
@@ -0,0 +1,47 @@
+-- Alert lifecycle: new -> acknowledged ("I'm on it") -> resolved or false alarm.
+-- Every transition is recorded with who made it and when.
+update public.alerts set status = 'new' where status = 'active';
+update public.alerts set status = 'resolved' where status = 'dismissed';
+
+alter table public.alerts alter column status set default 'new';
+
+-- The robot still writes 'active' for new alerts.
+create function public.normalize_alert_status() returns trigger
+language plpgsql as $$
+begin
+  if new.status = 'active' then
+    new.status := 'new';
+  elsif new.status = 'dismissed' then
+    new.status := 'resolved';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger alerts_normalize_status
+  before insert or update of status on public.alerts
+  for each row execute function public.normalize_alert_status();
+
+alter table public.alerts
+  add constraint alerts_status_check check (status in ('new', 'acknowledged', 'resolved', 'false_alarm'));
+
+create index alerts_status_created_at_idx on public.alerts (status, created_at desc);
+
+create table public.alert_transitions (
+  id uuid primary key default gen_random_uuid(),
+  alert_id uuid not null references public.alerts (id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  actor_id uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index alert_transitions_alert_id_idx on public.alert_transitions (alert_id, created_at);
+
+alter table public.alert_transitions enable row level security;
+
+create policy "Household members can read alert transitions"
+  on public.alert_transitions for select
+  using (exists (select 1 from public.alerts a where a.id = alert_transitions.alert_id));
+
+alter publication supabase_realtime add table public.alert_transitions;
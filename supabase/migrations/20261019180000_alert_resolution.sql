@@ -0,0 +1,61 @@
+-- What happened: an outcome and notes recorded when an alert is closed, plus
+-- optional attachments (photos, discharge papers) in a private bucket.
+alter table public.alerts
+  add column outcome text
+    check (outcome in ('false_alarm', 'no_injury', 'minor_injury', 'medical_attention', 'hospital')),
+  add column resolution_notes text;
+
+create index alerts_outcome_idx on public.alerts (outcome);
+
+create table public.alert_attachments (
+  id uuid primary key default gen_random_uuid(),
+  alert_id uuid not null references public.alerts (id) on delete cascade,
+  path text not null unique,
+  file_name text not null,
+  mime_type text not null,
+  uploaded_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index alert_attachments_alert_id_idx on public.alert_attachments (alert_id);
+
+alter table public.alert_attachments enable row level security;
+
+create policy "Household members can read alert attachments"
+  on public.alert_attachments for select
+  using (exists (select 1 from public.alerts a where a.id = alert_attachments.alert_id));
+
+create function public.can_respond_to_alert(target_alert uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.alerts a
+    where a.id = target_alert
+      and (
+        (a.resident_id is null and a.user_id = auth.uid())
+        or public.resident_household_role(a.resident_id) in ('owner', 'caregiver')
+      )
+  );
+$$;
+
+-- Files are uploaded under `<alert_id>/` before the alert is closed; the
+-- update-alert-status function then records them in alert_attachments.
+insert into storage.buckets (id, name, public) values ('alert-attachments', 'alert-attachments', false)
+on conflict (id) do nothing;
+
+create policy "Responders can upload alert attachments"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'alert-attachments'
+    and public.can_respond_to_alert(((storage.foldername(name))[1])::uuid)
+  );
+
+create policy "Household members can read alert attachments files"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'alert-attachments'
+    and exists (
+      select 1 from public.alert_attachments t where t.path = storage.objects.name
+    )
+  );
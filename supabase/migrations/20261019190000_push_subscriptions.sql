@@ -0,0 +1,57 @@
+-- Web Push subscriptions, one row per browser/device a caregiver has enabled
+-- notifications on. The `send-alert-push` edge function fans new alerts out to them.
+create table public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index push_subscriptions_user_id_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users can manage their own push subscriptions"
+  on public.push_subscriptions for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- New alerts call the edge function through pg_net. The project URL and
+-- service role key are read from Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+create extension if not exists pg_net with schema extensions;
+
+create function public.notify_alert_push() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  project_url text;
+  service_role_key text;
+begin
+  select decrypted_secret into project_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into service_role_key from vault.decrypted_secrets where name = 'service_role_key';
+  if project_url is null or service_role_key is null then
+    return new;
+  end if;
+
+  perform net.http_post(
+    url := project_url || '/functions/v1/send-alert-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := jsonb_build_object('alert_id', new.id)
+  );
+  return new;
+end;
+$$;
+
+create trigger alerts_notify_push
+  after insert on public.alerts
+  for each row execute function public.notify_alert_push();
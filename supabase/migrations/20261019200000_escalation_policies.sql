@@ -0,0 +1,181 @@
+-- Escalation chains: each household orders who gets notified, and how many
+-- minutes after the alert was raised, while nobody has claimed it. A step
+-- targets either a household member (push) or an outside emergency contact (email).
+create table public.escalation_steps (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  position integer not null,
+  delay_minutes integer not null check (delay_minutes >= 0),
+  user_id uuid references public.profiles (id) on delete cascade,
+  contact_name text,
+  contact_email text,
+  contact_phone text,
+  created_at timestamptz not null default now(),
+  unique (household_id, position),
+  check (user_id is not null or contact_email is not null)
+);
+
+alter table public.escalation_steps enable row level security;
+
+create policy "Household members can read escalation steps"
+  on public.escalation_steps for select
+  using (public.household_role(household_id) is not null);
+
+-- Owners replace the whole chain at once through set_escalation_steps.
+
+-- `escalation_step` counts the steps already fired; `next_escalation_at` is
+-- when the next one is due, or null once the chain is exhausted or the alert
+-- has been claimed or closed.
+alter table public.alerts
+  add column escalation_step integer not null default 0,
+  add column next_escalation_at timestamptz;
+
+create index alerts_next_escalation_at_idx on public.alerts (next_escalation_at)
+  where next_escalation_at is not null;
+
+create table public.alert_escalations (
+  id uuid primary key default gen_random_uuid(),
+  alert_id uuid not null references public.alerts (id) on delete cascade,
+  step_id uuid references public.escalation_steps (id) on delete set null,
+  position integer not null,
+  recipient text not null,
+  created_at timestamptz not null default now()
+);
+
+create index alert_escalations_alert_id_idx on public.alert_escalations (alert_id, created_at);
+
+alter table public.alert_escalations enable row level security;
+
+create policy "Household members can read alert escalations"
+  on public.alert_escalations for select
+  using (exists (select 1 from public.alerts a where a.id = alert_escalations.alert_id));
+
+alter publication supabase_realtime add table public.alert_escalations;
+
+-- Runs after alerts_set_resident (triggers fire in name order), so the
+-- resident and therefore the household are known.
+create function public.start_alert_escalation() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.status = 'new' and new.resident_id is not null then
+    select new.created_at + make_interval(mins => s.delay_minutes) into new.next_escalation_at
+    from public.escalation_steps s
+    join public.residents r on r.household_id = s.household_id
+    where r.id = new.resident_id
+    order by s.position
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger alerts_start_escalation
+  before insert on public.alerts
+  for each row execute function public.start_alert_escalation();
+
+create function public.stop_alert_escalation() returns trigger
+language plpgsql as $$
+begin
+  if new.status <> 'new' then
+    new.next_escalation_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger alerts_stop_escalation
+  before update of status on public.alerts
+  for each row execute function public.stop_alert_escalation();
+
+create function public.set_escalation_steps(target_household uuid, steps jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  previous_delay integer := 0;
+  step record;
+begin
+  if public.household_role(target_household) is distinct from 'owner' then
+    raise exception 'Only household owners can change the escalation policy.';
+  end if;
+
+  for step in
+    select * from rows from (
+      jsonb_to_recordset(steps)
+        as (delay_minutes integer, user_id uuid, contact_name text, contact_email text, contact_phone text)
+    ) with ordinality as s(delay_minutes, user_id, contact_name, contact_email, contact_phone, position)
+  loop
+    if step.delay_minutes is null or step.delay_minutes < previous_delay then
+      raise exception 'Each escalation step must wait at least as long as the one before it.';
+    end if;
+    if step.user_id is null and nullif(trim(step.contact_email), '') is null then
+      raise exception 'Each escalation step needs a caregiver or an emergency contact email.';
+    end if;
+    if step.user_id is not null and not exists (
+      select 1 from public.household_members m where m.household_id = target_household and m.user_id = step.user_id
+    ) then
+      raise exception 'Escalation steps can only notify members of this household.';
+    end if;
+    previous_delay := step.delay_minutes;
+  end loop;
+
+  delete from public.escalation_steps where household_id = target_household;
+
+  insert into public.escalation_steps (household_id, position, delay_minutes, user_id, contact_name, contact_email, contact_phone)
+  select
+    target_household,
+    s.position,
+    s.delay_minutes,
+    s.user_id,
+    nullif(trim(s.contact_name), ''),
+    nullif(trim(s.contact_email), ''),
+    nullif(trim(s.contact_phone), '')
+  from rows from (
+    jsonb_to_recordset(steps)
+      as (delay_minutes integer, user_id uuid, contact_name text, contact_email text, contact_phone text)
+  ) with ordinality as s(delay_minutes, user_id, contact_name, contact_email, contact_phone, position);
+end;
+$$;
+
+-- Calls an edge function with the service role key stored in Vault (see
+-- 20261019190000_push_subscriptions.sql). Kept out of the public schema so it
+-- can't be reached through the API.
+create schema if not exists private;
+
+create function private.invoke_edge_function(function_name text, payload jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  project_url text;
+  service_role_key text;
+begin
+  select decrypted_secret into project_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into service_role_key from vault.decrypted_secrets where name = 'service_role_key';
+  if project_url is null or service_role_key is null then
+    return;
+  end if;
+
+  perform net.http_post(
+    url := project_url || '/functions/v1/' || function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := payload
+  );
+end;
+$$;
+
+create or replace function public.notify_alert_push() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  perform private.invoke_edge_function('send-alert-push', jsonb_build_object('alert_id', new.id));
+  return new;
+end;
+$$;
+
+-- The escalation worker runs every minute and fires whatever steps are due.
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'escalate-alerts',
+  '* * * * *',
+  $$ select private.invoke_edge_function('escalate-alerts', '{}'::jsonb) $$
+);
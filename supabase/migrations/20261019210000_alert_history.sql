@@ -0,0 +1,14 @@
+-- Alert history pages through closed alerts newest first, using
+-- (created_at, id) as the cursor.
+create index alerts_created_at_id_idx on public.alerts (created_at desc, id desc);
+
+-- Event types that appear on alerts the caller can see, for the history filter.
+-- Runs as the caller so the alerts policies apply.
+create function public.alert_event_types() returns setof text
+language sql stable security invoker set search_path = public as $$
+  select distinct e.type
+  from public.alerts a
+  join public.events e on e.id = a.trigger_event
+  where e.type is not null
+  order by e.type;
+$$;
@@ -0,0 +1,75 @@
+-- Aggregates for the analytics page. All of them run as the caller, so the
+-- alerts policies limit them to the caller's households, and take the same
+-- range and optional resident so the page can compare against the previous period.
+
+-- Incidents per week and event type. Weeks start on Monday.
+create function public.alert_weekly_counts(
+  range_start timestamptz,
+  range_end timestamptz,
+  target_resident uuid default null
+) returns table (week_start date, event_type text, incidents bigint)
+language sql stable security invoker set search_path = public as $$
+  select date_trunc('week', a.created_at)::date, coalesce(e.type, 'unknown'), count(*)
+  from public.alerts a
+  left join public.events e on e.id = a.trigger_event
+  where a.created_at >= range_start
+    and a.created_at < range_end
+    and (target_resident is null or a.resident_id = target_resident)
+  group by 1, 2
+  order by 1, 2;
+$$;
+
+-- Incidents by day of week (0 = Sunday) and hour, in the resident's local
+-- time. Alerts without a resident use the viewer's time zone.
+create function public.alert_heatmap(
+  range_start timestamptz,
+  range_end timestamptz,
+  viewer_time_zone text,
+  target_resident uuid default null
+) returns table (day_of_week integer, hour integer, incidents bigint)
+language sql stable security invoker set search_path = public as $$
+  select
+    extract(dow from local_at)::integer,
+    extract(hour from local_at)::integer,
+    count(*)
+  from (
+    select a.created_at at time zone coalesce(r.time_zone, viewer_time_zone) as local_at
+    from public.alerts a
+    left join public.residents r on r.id = a.resident_id
+    where a.created_at >= range_start
+      and a.created_at < range_end
+      and (target_resident is null or a.resident_id = target_resident)
+  ) local_alerts
+  group by 1, 2;
+$$;
+
+-- Time from an alert being raised to being closed, per caregiver who closed it.
+create function public.alert_response_times(
+  range_start timestamptz,
+  range_end timestamptz,
+  target_resident uuid default null
+) returns table (
+  actor_id uuid,
+  display_name text,
+  email text,
+  closed bigint,
+  mean_seconds double precision,
+  median_seconds double precision
+)
+language sql stable security invoker set search_path = public as $$
+  select
+    t.actor_id,
+    p.display_name,
+    p.email,
+    count(*),
+    avg(extract(epoch from t.created_at - a.created_at)),
+    percentile_cont(0.5) within group (order by extract(epoch from t.created_at - a.created_at))
+  from public.alerts a
+  join public.alert_transitions t on t.alert_id = a.id and t.to_status in ('resolved', 'false_alarm')
+  left join public.profiles p on p.id = t.actor_id
+  where a.created_at >= range_start
+    and a.created_at < range_end
+    and (target_resident is null or a.resident_id = target_resident)
+  group by t.actor_id, p.display_name, p.email
+  order by count(*) desc;
+$$;
@@ -0,0 +1,13 @@
+-- Self-service sign-up: the name entered on the sign-up form arrives as user
+-- metadata and seeds the profile, without overwriting a name set later.
+create or replace function public.handle_new_user() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into public.profiles (id, email, display_name)
+  values (new.id, new.email, nullif(trim(new.raw_user_meta_data ->> 'display_name'), ''))
+  on conflict (id) do update
+    set email = excluded.email,
+        display_name = coalesce(public.profiles.display_name, excluded.display_name);
+  return new;
+end;
+$$;
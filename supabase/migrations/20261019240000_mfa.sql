@@ -0,0 +1,75 @@
+-- Two-factor authentication. Owners can require it for everyone in a
+-- household: until a member's session has been verified with a second factor
+-- (aal2), the membership helpers treat them as outside that household, so
+-- every policy built on them hides its alerts, footage, residents and members.
+alter table public.households add column require_mfa boolean not null default false;
+
+create or replace function public.household_role(target_household uuid) returns public.household_role
+language sql stable security definer set search_path = public as $$
+  select m.role
+  from public.household_members m
+  join public.households h on h.id = m.household_id
+  where m.household_id = target_household
+    and m.user_id = auth.uid()
+    and (not h.require_mfa or coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2');
+$$;
+
+create or replace function public.resident_household_role(target_resident uuid) returns public.household_role
+language sql stable security definer set search_path = public as $$
+  select m.role
+  from public.residents r
+  join public.household_members m on m.household_id = r.household_id
+  join public.households h on h.id = r.household_id
+  where r.id = target_resident
+    and m.user_id = auth.uid()
+    and (not h.require_mfa or coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2');
+$$;
+
+-- Whether any of the caller's households requires a second factor. Readable
+-- before the caller has one, so the app knows to send them to enrollment.
+create function public.mfa_required() returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1
+    from public.household_members m
+    join public.households h on h.id = m.household_id
+    where m.user_id = auth.uid() and h.require_mfa
+  );
+$$;
+
+-- Owners turn the requirement on from a verified session, so they can't lock
+-- themselves out of their own household.
+create function public.set_household_mfa_requirement(target_household uuid, required boolean) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if public.household_role(target_household) is distinct from 'owner' then
+    raise exception 'Only household owners can change this setting.';
+  end if;
+  if required and coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' then
+    raise exception 'Set up two-factor authentication on your own account first.';
+  end if;
+
+  update public.households set require_mfa = required where id = target_household;
+end;
+$$;
+
+-- One-time recovery codes for a lost authenticator. Only SHA-256 hashes are
+-- stored; the mfa-recovery-codes and mfa-recover edge functions manage them.
+create table public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  created_at timestamptz not null default now(),
+  used_at timestamptz
+);
+
+create index mfa_recovery_codes_user_id_idx on public.mfa_recovery_codes (user_id);
+
+-- No policies: the hashes stay out of reach of the API
+alter table public.mfa_recovery_codes enable row level security;
+
+create function public.mfa_recovery_codes_remaining() returns integer
+language sql stable security definer set search_path = public as $$
+  select count(*)::integer from public.mfa_recovery_codes
+  where user_id = auth.uid() and used_at is null;
+$$;
@@ -0,0 +1,160 @@
+-- Robot status. The robot inserts a heartbeat every 30 seconds with its
+-- battery, Wi-Fi signal, room and firmware; the latest values are copied onto
+-- the robot so the dashboard can read (and subscribe to) a single row. Going
+-- quiet for two minutes marks the robot offline, and offline robots and low
+-- batteries raise ordinary alerts so caregivers hear about them like a fall.
+alter table public.events add column robot_id uuid references public.robots (id) on delete set null;
+
+create index events_robot_id_idx on public.events (robot_id);
+
+alter table public.robots
+  add column last_seen_at timestamptz,
+  add column offline_since timestamptz,
+  add column battery_percent smallint check (battery_percent between 0 and 100),
+  add column charging boolean,
+  add column wifi_rssi smallint,
+  add column current_room text,
+  add column firmware_version text;
+
+create table public.robot_heartbeats (
+  id bigint generated always as identity primary key,
+  robot_id uuid not null references public.robots (id) on delete cascade,
+  battery_percent smallint check (battery_percent between 0 and 100),
+  charging boolean not null default false,
+  -- Signal strength in dBm, e.g. -55 (strong) to -85 (weak)
+  wifi_rssi smallint,
+  room text,
+  firmware_version text,
+  created_at timestamptz not null default now()
+);
+
+create index robot_heartbeats_robot_id_created_at_idx on public.robot_heartbeats (robot_id, created_at desc);
+
+alter table public.robot_heartbeats enable row level security;
+
+create policy "Household members can read robot heartbeats"
+  on public.robot_heartbeats for select
+  using (exists (select 1 from public.robots r where r.id = robot_heartbeats.robot_id));
+
+-- Raises an alert of the given type for a robot unless one is still open.
+-- Alerts need a user; the household owner stands in, as they would for a
+-- robot that isn't assigned to a resident yet.
+create function private.raise_robot_alert(target_robot uuid, event_type text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  robot public.robots;
+  household_owner uuid;
+  new_event_id bigint;
+begin
+  if exists (
+    select 1 from public.alerts a
+    join public.events e on e.id = a.trigger_event
+    where e.robot_id = target_robot and e.type = event_type and a.status in ('new', 'acknowledged')
+  ) then
+    return;
+  end if;
+
+  select * into robot from public.robots where id = target_robot;
+  select owner_id into household_owner from public.households where id = robot.household_id;
+
+  insert into public.events (type, resident_id, robot_id)
+  values (event_type, robot.resident_id, robot.id)
+  returning id into new_event_id;
+
+  insert into public.alerts (trigger_event, user_id, resident_id)
+  values (new_event_id, household_owner, robot.resident_id);
+end;
+$$;
+
+-- Closes open alerts of the given type once the condition has cleared, with a
+-- transition so the timeline shows when it happened.
+create function private.close_robot_alerts(target_robot uuid, event_type text, note text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  with open_alerts as (
+    select a.id, a.status
+    from public.alerts a
+    join public.events e on e.id = a.trigger_event
+    where e.robot_id = target_robot and e.type = event_type and a.status in ('new', 'acknowledged')
+    for update of a
+  ), closed as (
+    update public.alerts a
+    set status = 'resolved', resolution_notes = note
+    from open_alerts o
+    where a.id = o.id
+    returning a.id
+  )
+  insert into public.alert_transitions (alert_id, from_status, to_status)
+  select o.id, o.status, 'resolved' from open_alerts o join closed c on c.id = o.id;
+end;
+$$;
+
+-- Battery alerts fire when the level drops to 20% or below while unplugged,
+-- once per discharge, and close themselves when the robot starts charging.
+create function public.apply_robot_heartbeat() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  previous public.robots;
+begin
+  select * into previous from public.robots where id = new.robot_id;
+
+  update public.robots
+  set last_seen_at = new.created_at,
+      offline_since = null,
+      battery_percent = new.battery_percent,
+      charging = new.charging,
+      wifi_rssi = new.wifi_rssi,
+      current_room = coalesce(new.room, current_room),
+      firmware_version = coalesce(new.firmware_version, firmware_version)
+  where id = new.robot_id;
+
+  if previous.offline_since is not null then
+    perform private.close_robot_alerts(new.robot_id, 'robot_offline', 'Closed automatically: the robot reconnected.');
+  end if;
+
+  if new.charging then
+    perform private.close_robot_alerts(new.robot_id, 'battery_low', 'Closed automatically: the robot is charging.');
+  elsif new.battery_percent <= 20
+    and (previous.battery_percent is null or previous.battery_percent > 20 or coalesce(previous.charging, false)) then
+    perform private.raise_robot_alert(new.robot_id, 'battery_low');
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger robot_heartbeats_apply
+  after insert on public.robot_heartbeats
+  for each row execute function public.apply_robot_heartbeat();
+
+-- Robots that have never checked in aren't reported; they haven't been set up.
+create function private.mark_offline_robots() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  robot record;
+begin
+  for robot in
+    update public.robots
+    set offline_since = last_seen_at
+    where offline_since is null and last_seen_at < now() - interval '2 minutes'
+    returning id
+  loop
+    perform private.raise_robot_alert(robot.id, 'robot_offline');
+  end loop;
+end;
+$$;
+
+alter publication supabase_realtime add table public.robots;
+
+select cron.schedule(
+  'mark-offline-robots',
+  '* * * * *',
+  $$ select private.mark_offline_robots() $$
+);
+
+-- Only recent heartbeats are kept; the robot row holds the latest state.
+select cron.schedule(
+  'prune-robot-heartbeats',
+  '15 3 * * *',
+  $$ delete from public.robot_heartbeats where created_at < now() - interval '7 days' $$
+);
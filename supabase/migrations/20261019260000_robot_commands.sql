@@ -0,0 +1,94 @@
+-- Commands caregivers send to a robot: take a snapshot, go to a room, speak a
+-- message or start a check-in conversation. The robot picks up queued rows
+-- for its id, marks them delivered, then done (with a result) or failed.
+create table public.commands (
+  id uuid primary key default gen_random_uuid(),
+  robot_id uuid not null references public.robots (id) on delete cascade,
+  -- Set when the command was sent from an alert, so it shows up there
+  alert_id uuid references public.alerts (id) on delete set null,
+  type text not null check (type in ('snapshot', 'go_to_room', 'speak', 'check_in')),
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued' check (status in ('queued', 'delivered', 'done', 'failed')),
+  result jsonb,
+  -- Snapshots are uploaded to the `snapshots` bucket under <robot_id>/
+  result_path text,
+  error text,
+  requested_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz,
+  completed_at timestamptz,
+  constraint commands_payload_check check (
+    (type <> 'go_to_room' or coalesce(payload ->> 'room', '') <> '')
+    and (type <> 'speak' or char_length(coalesce(payload ->> 'message', '')) between 1 and 500)
+  )
+);
+
+create index commands_robot_id_created_at_idx on public.commands (robot_id, created_at desc);
+create index commands_alert_id_idx on public.commands (alert_id);
+create index commands_result_path_idx on public.commands (result_path) where result_path is not null;
+
+alter table public.commands enable row level security;
+
+create policy "Household members can read commands"
+  on public.commands for select
+  using (exists (select 1 from public.robots r where r.id = commands.robot_id));
+
+create policy "Responders can queue commands"
+  on public.commands for insert
+  with check (
+    requested_by = auth.uid()
+    and status = 'queued'
+    and exists (
+      select 1 from public.robots r
+      where r.id = commands.robot_id and public.household_role(r.household_id) in ('owner', 'caregiver')
+    )
+    and (alert_id is null or exists (select 1 from public.alerts a where a.id = commands.alert_id))
+  );
+
+create function public.stamp_command_status() returns trigger
+language plpgsql as $$
+begin
+  if new.status = 'delivered' and new.delivered_at is null then
+    new.delivered_at := now();
+  elsif new.status in ('done', 'failed') and new.completed_at is null then
+    new.completed_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+create trigger commands_stamp_status
+  before update of status on public.commands
+  for each row execute function public.stamp_command_status();
+
+alter publication supabase_realtime add table public.commands;
+
+-- Commands don't wait forever: an offline robot never picks them up, and a
+-- robot that crashes mid-command never reports back.
+create function private.expire_commands() returns void
+language sql security definer set search_path = public as $$
+  update public.commands
+  set status = 'failed', error = 'The robot didn''t pick up this command.'
+  where status = 'queued' and created_at < now() - interval '2 minutes';
+
+  update public.commands
+  set status = 'failed', error = 'The robot didn''t report back.'
+  where status = 'delivered' and delivered_at < now() - interval '10 minutes';
+$$;
+
+select cron.schedule(
+  'expire-commands',
+  '* * * * *',
+  $$ select private.expire_commands() $$
+);
+
+insert into storage.buckets (id, name, public) values ('snapshots', 'snapshots', false)
+on conflict (id) do nothing;
+
+create policy "Household members can read snapshots"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'snapshots'
+    and exists (select 1 from public.commands c where c.result_path = storage.objects.name)
+  );
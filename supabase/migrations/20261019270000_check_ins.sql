@@ -0,0 +1,263 @@
+-- Scheduled check-ins and reminders. At each scheduled time the resident's
+-- robot is sent a check_in command with the schedule's message; the run
+-- records whether they answered. A missed check-in, or a resident asking for
+-- help, raises an alert like any other.
+create table public.check_in_schedules (
+  id uuid primary key default gen_random_uuid(),
+  resident_id uuid not null references public.residents (id) on delete cascade,
+  kind text not null default 'check_in' check (kind in ('check_in', 'reminder')),
+  -- What the robot says, e.g. "How are you feeling this morning?"
+  message text not null check (char_length(message) between 1 and 500),
+  -- Local time in the resident's time zone, on the given days (0 = Sunday)
+  time_of_day time not null,
+  days smallint[] not null default '{0,1,2,3,4,5,6}'
+    check (cardinality(days) > 0 and days <@ '{0,1,2,3,4,5,6}'::smallint[]),
+  alert_if_missed boolean not null default true,
+  enabled boolean not null default true,
+  next_run_at timestamptz,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index check_in_schedules_resident_id_idx on public.check_in_schedules (resident_id);
+create index check_in_schedules_next_run_at_idx on public.check_in_schedules (next_run_at) where enabled;
+
+-- Runs copy the schedule's kind and message so history survives the schedule
+-- being edited or deleted.
+create table public.check_in_runs (
+  id uuid primary key default gen_random_uuid(),
+  schedule_id uuid references public.check_in_schedules (id) on delete set null,
+  resident_id uuid not null references public.residents (id) on delete cascade,
+  kind text not null,
+  message text not null,
+  scheduled_for timestamptz not null,
+  robot_id uuid references public.robots (id) on delete set null,
+  command_id uuid references public.commands (id) on delete set null,
+  status text not null default 'pending' check (status in ('pending', 'responded', 'missed')),
+  response text check (response in ('ok', 'needs_help', 'no_response')),
+  transcript text,
+  error text,
+  alert_id uuid references public.alerts (id) on delete set null,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index check_in_runs_resident_id_scheduled_for_idx on public.check_in_runs (resident_id, scheduled_for desc);
+create index check_in_runs_command_id_idx on public.check_in_runs (command_id);
+
+alter table public.check_in_schedules enable row level security;
+alter table public.check_in_runs enable row level security;
+
+create policy "Household members can read check-in schedules"
+  on public.check_in_schedules for select
+  using (public.resident_household_role(resident_id) is not null);
+
+create policy "Responders can manage check-in schedules"
+  on public.check_in_schedules for all
+  using (public.resident_household_role(resident_id) in ('owner', 'caregiver'))
+  with check (public.resident_household_role(resident_id) in ('owner', 'caregiver'));
+
+create policy "Household members can read check-in runs"
+  on public.check_in_runs for select
+  using (public.resident_household_role(resident_id) is not null);
+
+alter publication supabase_realtime add table public.check_in_runs;
+
+-- The first matching day and time strictly after `after`, in the resident's
+-- time zone.
+create function private.next_check_in_at(
+  target_resident uuid,
+  local_time time,
+  run_days smallint[],
+  after timestamptz
+) returns timestamptz
+language plpgsql stable security definer set search_path = public as $$
+declare
+  zone text;
+  local_day date;
+  candidate timestamptz;
+begin
+  select time_zone into zone from public.residents where id = target_resident;
+  local_day := (after at time zone zone)::date;
+  for offset_days in 0..7 loop
+    candidate := ((local_day + offset_days) + local_time) at time zone zone;
+    if candidate > after and extract(dow from local_day + offset_days)::smallint = any (run_days) then
+      return candidate;
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+create function public.schedule_check_in() returns trigger
+language plpgsql as $$
+begin
+  new.next_run_at := case
+    when new.enabled then private.next_check_in_at(new.resident_id, new.time_of_day, new.days, now())
+  end;
+  return new;
+end;
+$$;
+
+create trigger check_in_schedules_schedule
+  before insert or update of time_of_day, days, enabled on public.check_in_schedules
+  for each row execute function public.schedule_check_in();
+
+create function public.reschedule_resident_check_ins() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  update public.check_in_schedules
+  set next_run_at = private.next_check_in_at(resident_id, time_of_day, days, now())
+  where resident_id = new.id and enabled;
+  return new;
+end;
+$$;
+
+create trigger residents_reschedule_check_ins
+  after update of time_zone on public.residents
+  for each row
+  when (old.time_zone is distinct from new.time_zone)
+  execute function public.reschedule_resident_check_ins();
+
+-- Check-in alerts are raised against the household owner, like robot alerts.
+create function private.raise_check_in_alert(run public.check_in_runs, event_type text) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  household_owner uuid;
+  new_event_id bigint;
+  new_alert_id uuid;
+begin
+  select h.owner_id into household_owner
+  from public.residents r
+  join public.households h on h.id = r.household_id
+  where r.id = run.resident_id;
+
+  insert into public.events (type, resident_id, robot_id)
+  values (event_type, run.resident_id, run.robot_id)
+  returning id into new_event_id;
+
+  insert into public.alerts (trigger_event, user_id, resident_id)
+  values (new_event_id, household_owner, run.resident_id)
+  returning id into new_alert_id;
+
+  return new_alert_id;
+end;
+$$;
+
+create function private.finish_check_in_run(
+  target_run uuid,
+  run_response text,
+  run_transcript text,
+  run_error text
+) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  run public.check_in_runs;
+  alert_if_missed boolean;
+  new_alert_id uuid;
+begin
+  update public.check_in_runs
+  set status = case when run_response in ('ok', 'needs_help') then 'responded' else 'missed' end,
+      response = run_response,
+      transcript = run_transcript,
+      error = run_error,
+      completed_at = now()
+  where id = target_run and status = 'pending'
+  returning * into run;
+
+  if run.id is null then
+    return;
+  end if;
+
+  select s.alert_if_missed into alert_if_missed from public.check_in_schedules s where s.id = run.schedule_id;
+
+  if run.response = 'needs_help' then
+    new_alert_id := private.raise_check_in_alert(run, 'check_in_help');
+  elsif run.status = 'missed' and coalesce(alert_if_missed, true) then
+    new_alert_id := private.raise_check_in_alert(run, 'check_in_missed');
+  end if;
+
+  if new_alert_id is not null then
+    update public.check_in_runs set alert_id = new_alert_id where id = run.id;
+  end if;
+end;
+$$;
+
+-- Runs due schedules. Robots that are offline never pick the command up, so
+-- the command expires and the run is recorded as missed.
+create function private.run_due_check_ins() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  schedule public.check_in_schedules;
+  run_robot uuid;
+  run_id uuid;
+  new_command_id uuid;
+begin
+  for schedule in
+    select * from public.check_in_schedules
+    where enabled and next_run_at <= now()
+    for update skip locked
+  loop
+    select id into run_robot
+    from public.robots
+    where resident_id = schedule.resident_id
+    order by last_seen_at desc nulls last
+    limit 1;
+
+    insert into public.check_in_runs (schedule_id, resident_id, kind, message, scheduled_for, robot_id)
+    values (schedule.id, schedule.resident_id, schedule.kind, schedule.message, schedule.next_run_at, run_robot)
+    returning id into run_id;
+
+    if run_robot is null then
+      perform private.finish_check_in_run(run_id, null, null, 'No robot is assigned to this resident.');
+    else
+      insert into public.commands (robot_id, type, payload)
+      values (run_robot, 'check_in', jsonb_build_object('prompt', schedule.message, 'kind', schedule.kind))
+      returning id into new_command_id;
+
+      update public.check_in_runs set command_id = new_command_id where id = run_id;
+    end if;
+
+    update public.check_in_schedules
+    set next_run_at = private.next_check_in_at(resident_id, time_of_day, days, now())
+    where id = schedule.id;
+  end loop;
+end;
+$$;
+
+select cron.schedule(
+  'run-check-ins',
+  '* * * * *',
+  $$ select private.run_due_check_ins() $$
+);
+
+-- The robot reports the answer on the command; copy it onto the run.
+create function public.apply_check_in_command() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  run_id uuid;
+begin
+  select id into run_id from public.check_in_runs where command_id = new.id and status = 'pending';
+  if run_id is null then
+    return new;
+  end if;
+
+  if new.status = 'done' then
+    perform private.finish_check_in_run(
+      run_id,
+      coalesce(nullif(new.result ->> 'response', ''), 'no_response'),
+      new.result ->> 'transcript',
+      null
+    );
+  else
+    perform private.finish_check_in_run(run_id, null, null, new.error);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger commands_apply_check_in
+  after update of status on public.commands
+  for each row
+  when (new.type = 'check_in' and new.status in ('done', 'failed') and old.status is distinct from new.status)
+  execute function public.apply_check_in_command();
@@ -0,0 +1,25 @@
+-- Default escalation behaviour per event type. Device notices (the robot going
+-- offline, a low battery) notify household members once but don't work down
+-- the escalation chain. Matches `escalates` in lib/eventTypes.ts; unknown
+-- types escalate.
+create function public.event_type_escalates(event_type text) returns boolean
+language sql immutable as $$
+  select coalesce(event_type, '') not in ('robot_offline', 'battery_low');
+$$;
+
+create or replace function public.start_alert_escalation() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.status = 'new'
+    and new.resident_id is not null
+    and public.event_type_escalates((select e.type from public.events e where e.id = new.trigger_event)) then
+    select new.created_at + make_interval(mins => s.delay_minutes) into new.next_escalation_at
+    from public.escalation_steps s
+    join public.residents r on r.household_id = s.household_id
+    where r.id = new.resident_id
+    order by s.position
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
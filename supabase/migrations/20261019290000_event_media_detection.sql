@@ -0,0 +1,5 @@
+-- Where in a clip the robot detected the event, so the media viewer can mark
+-- the moment of the fall. Clips recorded before this column existed fall back
+-- to the event's created_at relative to the clip's captured_at.
+alter table public.event_media
+  add column detected_offset_ms integer check (detected_offset_ms >= 0);
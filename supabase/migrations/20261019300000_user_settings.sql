@@ -0,0 +1,34 @@
+-- Per-user preferences from the settings page. Users without a row get the
+-- column defaults: push on, email off, no quiet hours and every event type.
+create table public.user_settings (
+  user_id uuid primary key default auth.uid() references public.profiles (id) on delete cascade,
+  push_enabled boolean not null default true,
+  email_enabled boolean not null default false,
+  -- Local times in `time_zone`; a window like 22:00–07:00 runs past midnight
+  quiet_hours_start time,
+  quiet_hours_end time,
+  time_zone text not null default 'UTC',
+  -- Event types this user doesn't want alerts for, e.g. '{battery_low}'
+  muted_event_types text[] not null default '{}',
+  updated_at timestamptz not null default now(),
+  constraint user_settings_quiet_hours check ((quiet_hours_start is null) = (quiet_hours_end is null))
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "Users can manage their own settings"
+  on public.user_settings for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create function private.touch_user_settings() returns trigger
+language plpgsql as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger user_settings_touch
+  before update on public.user_settings
+  for each row execute function private.touch_user_settings();
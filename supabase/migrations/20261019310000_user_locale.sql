@@ -0,0 +1,4 @@
+-- The language the dashboard is shown in. Null until the user picks one, in
+-- which case the browser's language is used. Matches `locales` in lib/i18n.ts.
+alter table public.user_settings
+  add column locale text check (locale in ('en', 'es'));
@@ -0,0 +1,48 @@
+-- Tighten what caregivers can write to commands and read from snapshots.
+-- The result columns belong to the robot: a caregiver could otherwise queue a
+-- command that already points result_path at another household's snapshot
+-- and read it through the storage policy. Commands sent from an alert must
+-- also be for a robot in that alert's household.
+drop policy "Responders can queue commands" on public.commands;
+
+create policy "Responders can queue commands"
+  on public.commands for insert
+  with check (
+    requested_by = auth.uid()
+    and status = 'queued'
+    and result is null
+    and result_path is null
+    and error is null
+    and delivered_at is null
+    and completed_at is null
+    and exists (
+      select 1 from public.robots r
+      where r.id = commands.robot_id and public.household_role(r.household_id) in ('owner', 'caregiver')
+    )
+    and (
+      alert_id is null
+      or exists (
+        select 1
+        from public.alerts a
+        join public.residents res on res.id = a.resident_id
+        join public.robots r on r.household_id = res.household_id
+        where a.id = commands.alert_id and r.id = commands.robot_id
+      )
+    )
+  );
+
+-- Robots upload snapshots under <robot_id>/, so only honour a result_path
+-- inside the folder of the robot that ran the command.
+drop policy "Household members can read snapshots" on storage.objects;
+
+create policy "Household members can read snapshots"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'snapshots'
+    and exists (
+      select 1 from public.commands c
+      where c.result_path = storage.objects.name
+        and (storage.foldername(storage.objects.name))[1] = c.robot_id::text
+    )
+  );
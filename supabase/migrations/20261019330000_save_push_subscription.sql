@@ -0,0 +1,18 @@
+-- A browser keeps its push endpoint across sign-ins, so enabling notifications
+-- after someone else signed out on it hits a row the caller can't see or
+-- update under RLS. Saving through this function moves the endpoint to the
+-- caller; holding the subscription is what proves it belongs to them.
+create function public.save_push_subscription(endpoint text, p256dh text, auth text, user_agent text default null)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to turn on notifications.';
+  end if;
+
+  insert into public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  values (auth.uid(), save_push_subscription.endpoint, save_push_subscription.p256dh, save_push_subscription.auth, save_push_subscription.user_agent)
+  on conflict on constraint push_subscriptions_endpoint_key do update
+    set user_id = excluded.user_id, p256dh = excluded.p256dh, auth = excluded.auth, user_agent = excluded.user_agent;
+end;
+$$;
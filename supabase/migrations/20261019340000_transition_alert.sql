@@ -0,0 +1,39 @@
+-- Alert transitions used to be three separate writes from the edge functions
+-- (status, transition row, attachments), so a failure part-way left an alert
+-- closed with no record of who closed it. This does all three in one
+-- transaction. It trusts its arguments, so only the service role may call it.
+create function public.transition_alert(
+  target_alert uuid,
+  from_status text,
+  to_status text,
+  actor uuid,
+  closing_outcome text default null,
+  notes text default null,
+  attachments jsonb default '[]'::jsonb
+) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  -- Conditional on the status the caller read, so when two caregivers claim
+  -- the same alert only the first one wins
+  update public.alerts
+  set status = to_status,
+      outcome = coalesce(closing_outcome, outcome),
+      resolution_notes = case when closing_outcome is null then resolution_notes else notes end
+  where id = target_alert and status = from_status;
+
+  if not found then
+    return false;
+  end if;
+
+  insert into public.alert_transitions (alert_id, from_status, to_status, actor_id)
+  values (target_alert, from_status, to_status, actor);
+
+  insert into public.alert_attachments (alert_id, path, file_name, mime_type, uploaded_by)
+  select target_alert, a.path, a.file_name, a.mime_type, actor
+  from jsonb_to_recordset(attachments) as a (path text, file_name text, mime_type text);
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.transition_alert(uuid, text, text, uuid, text, text, jsonb) from public, anon, authenticated;
@@ -0,0 +1,33 @@
+-- The event type registry, so the escalation trigger reads `escalates` from a
+-- table rather than its own list. Rows match
+-- supabase/functions/_shared/eventTypes.ts, which the dashboard and the edge
+-- functions share; a new type goes in both.
+create table public.event_types (
+  type text primary key,
+  label text not null,
+  severity text not null check (severity in ('critical', 'high', 'medium', 'low')),
+  escalates boolean not null default true
+);
+
+alter table public.event_types enable row level security;
+
+create policy "Signed-in users can read event types"
+  on public.event_types for select
+  to authenticated
+  using (true);
+
+insert into public.event_types (type, label, severity, escalates) values
+  ('fall', 'Fall detected', 'critical', true),
+  ('fall_detected', 'Fall detected', 'critical', true),
+  ('help_request', 'Help requested', 'critical', true),
+  ('check_in_help', 'Asked for help at check-in', 'critical', true),
+  ('no_motion', 'No motion', 'high', true),
+  ('check_in_missed', 'Missed check-in', 'medium', true),
+  ('robot_offline', 'Robot offline', 'medium', false),
+  ('battery_low', 'Low battery', 'low', false);
+
+-- Unknown types escalate. Stable rather than immutable now that it reads a table.
+create or replace function public.event_type_escalates(event_type text) returns boolean
+language sql stable set search_path = public as $$
+  select coalesce((select t.escalates from public.event_types t where t.type = event_type), true);
+$$;
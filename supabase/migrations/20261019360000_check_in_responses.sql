@@ -0,0 +1,33 @@
+-- Answers from the robot are copied onto the run only when they are ones the
+-- run can store; anything else counts as no response rather than failing the
+-- command update on the check constraint. A reminder has done its job once
+-- the robot has said it, so a completed reminder command counts as answered
+-- unless the resident asked for help.
+create or replace function public.apply_check_in_command() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  run public.check_in_runs;
+  answer text := new.result ->> 'response';
+begin
+  select * into run from public.check_in_runs where command_id = new.id and status = 'pending';
+  if run.id is null then
+    return new;
+  end if;
+
+  if new.status = 'done' then
+    perform private.finish_check_in_run(
+      run.id,
+      case
+        when answer in ('ok', 'needs_help') then answer
+        when run.kind = 'reminder' then 'ok'
+        else 'no_response'
+      end,
+      new.result ->> 'transcript',
+      null
+    );
+  else
+    perform private.finish_check_in_run(run.id, null, null, new.error);
+  end if;
+  return new;
+end;
+$$;
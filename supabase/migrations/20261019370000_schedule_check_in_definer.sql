@@ -0,0 +1,13 @@
+-- schedule_check_in runs as the signed-in user, who has no access to the
+-- private schema, so saving a schedule failed with "permission denied for
+-- schema private". Run it as the owner, like the other callers of
+-- private.next_check_in_at.
+create or replace function public.schedule_check_in() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  new.next_run_at := case
+    when new.enabled then private.next_check_in_at(new.resident_id, new.time_of_day, new.days, now())
+  end;
+  return new;
+end;
+$$;
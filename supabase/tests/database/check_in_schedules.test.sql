@@ -0,0 +1,33 @@
+-- Caregivers save check-in schedules through the API, so the scheduling
+-- trigger must work for a signed-in user. Run with `supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(3);
+
+insert into auth.users (id, email) values ('00000000-0000-4000-8000-00000000a001', 'owner@example.com');
+insert into public.households (id, name, owner_id)
+values ('00000000-0000-4000-8000-00000000b001', 'Test household', '00000000-0000-4000-8000-00000000a001');
+insert into public.residents (id, household_id, name, time_zone)
+values ('00000000-0000-4000-8000-00000000c001', '00000000-0000-4000-8000-00000000b001', 'Margaret', 'Europe/Madrid');
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000a001", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ insert into public.check_in_schedules (id, resident_id, message, time_of_day)
+     values ('00000000-0000-4000-8000-00000000d001', '00000000-0000-4000-8000-00000000c001', 'How are you?', '10:00') $$,
+  'members can add a schedule'
+);
+
+select ok(
+  (select next_run_at > now() from public.check_in_schedules where id = '00000000-0000-4000-8000-00000000d001'),
+  'the next run is scheduled'
+);
+
+select lives_ok(
+  $$ update public.check_in_schedules set time_of_day = '18:30' where id = '00000000-0000-4000-8000-00000000d001' $$,
+  'members can change a schedule'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,54 @@
+-- Runs public.set_escalation_steps against the migrated schema. Run with
+-- `supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(5);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-4000-8000-00000000a001', 'owner@example.com'),
+  ('00000000-0000-4000-8000-00000000a002', 'caregiver@example.com');
+insert into public.households (id, name, owner_id)
+values ('00000000-0000-4000-8000-00000000b001', 'Test household', '00000000-0000-4000-8000-00000000a001');
+insert into public.household_members (household_id, user_id, role)
+values ('00000000-0000-4000-8000-00000000b001', '00000000-0000-4000-8000-00000000a002', 'caregiver');
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000a001", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ select public.set_escalation_steps('00000000-0000-4000-8000-00000000b001', '[
+    {"delay_minutes": 0, "user_id": "00000000-0000-4000-8000-00000000a002"},
+    {"delay_minutes": 10, "contact_name": " Dr. Patel ", "contact_email": "patel@example.com", "contact_phone": ""}
+  ]') $$,
+  'owners can save a policy'
+);
+
+select results_eq(
+  $$ select position, delay_minutes, contact_name, contact_phone from public.escalation_steps
+     where household_id = '00000000-0000-4000-8000-00000000b001' order by position $$,
+  $$ values (1, 0, null::text, null::text), (2, 10, 'Dr. Patel', null::text) $$,
+  'steps are saved in order with blank fields cleared'
+);
+
+select throws_ok(
+  $$ select public.set_escalation_steps('00000000-0000-4000-8000-00000000b001', '[
+    {"delay_minutes": 10, "contact_email": "a@example.com"},
+    {"delay_minutes": 5, "contact_email": "b@example.com"}
+  ]') $$,
+  'Each escalation step must wait at least as long as the one before it.'
+);
+
+select throws_ok(
+  $$ select public.set_escalation_steps('00000000-0000-4000-8000-00000000b001', '[{"delay_minutes": 0}]') $$,
+  'Each escalation step needs a caregiver or an emergency contact email.'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000a002", "role": "authenticated"}', true);
+
+select throws_ok(
+  $$ select public.set_escalation_steps('00000000-0000-4000-8000-00000000b001', '[]') $$,
+  'Only household owners can change the escalation policy.'
+);
+
+select * from finish();
+rollback;